@@ -1,27 +1,80 @@
 import axios, { AxiosRequestConfig, AxiosError } from 'axios';
-import type { ApiCallDetails, ApiClientResponse } from './types';
+import type { ApiCallDetails, ApiCallOptions, ApiClientResponse, ServerConfig, SessionCredentials, SpecSource } from './types';
 import { config } from './config';
+import { waitForAsyncJob } from './asyncJobs';
+import { runBeforeRequestHooks, runResponseHooks } from './plugins';
+import { createLogger } from './utils/logger';
 import type { OpenAPIV3 } from 'openapi-types';
 
+const log = createLogger('apiClient');
+
+// Credentials and headers configured for the API behind a spec
+type UpstreamSettings = Pick<SpecSource, 'apiKey' | 'securityCredentials' | 'customHeaders'>;
+
+// Configuration options that affect API requests
+type ApiClientConfig = UpstreamSettings & Pick<ServerConfig, 'specs' | 'disableXMcp'> & Partial<Pick<ServerConfig, 'plugins'>>;
+
+/**
+ * Finds the configured credentials and headers of the spec an operation comes from
+ * @param details The API call details of the operation
+ * @param clientConfig The configuration of the server making the call
+ * @returns The settings of the mounted spec, or the top-level configuration for a single spec
+ */
+function getUpstreamSettings(details: ApiCallDetails, clientConfig: ApiClientConfig): UpstreamSettings {
+    return (details.namespace && clientConfig.specs.find(source => source.namespace === details.namespace)) || clientConfig;
+}
+
+/**
+ * Resolves the credential for a security scheme.
+ * Credentials supplied by the calling session take precedence over the configured ones.
+ * @param schemeName Name of the security scheme
+ * @param upstream The configured credentials of the API
+ * @param sessionCredentials Credentials of the calling MCP session, if any
+ * @returns The credential or undefined if none is available
+ */
+function getCredential(schemeName: string, upstream: UpstreamSettings, sessionCredentials?: SessionCredentials): string | undefined {
+    return sessionCredentials?.securityCredentials?.[schemeName]
+        || upstream.securityCredentials?.[schemeName]
+        || upstream.apiKey
+        || undefined;
+}
+
+/**
+ * Lists the headers, query parameters and cookies API keys are sent in, whose values must be redacted from logs
+ * @param securitySchemes Security schemes definitions from OpenAPI components
+ * @returns The names of the API key headers, query parameters and cookies
+ */
+export function getApiKeyNames(securitySchemes: Record<string, OpenAPIV3.SecuritySchemeObject | OpenAPIV3.ReferenceObject> | undefined): string[] {
+    return Object.values(securitySchemes || {})
+        .filter((scheme): scheme is OpenAPIV3.ApiKeySecurityScheme => 'type' in scheme && scheme.type === 'apiKey')
+        .map(scheme => scheme.name);
+}
+
 /**
  * Applies security requirements to an API request based on OpenAPI security definitions
  * @param requestConfig Axios request configuration to modify
  * @param securityRequirements Security requirements from OpenAPI operation
  * @param securitySchemes Security schemes definitions from OpenAPI components
+ * @param upstream The configured credentials of the API
+ * @param sessionCredentials Credentials of the calling MCP session (HTTP transports)
+ * @returns The names of the query parameters that carry credentials
  */
 async function applySecurity(
     requestConfig: AxiosRequestConfig,
     securityRequirements: OpenAPIV3.SecurityRequirementObject[] | null,
-    securitySchemes: Record<string, OpenAPIV3.SecuritySchemeObject> | undefined
-): Promise<void> {
+    securitySchemes: Record<string, OpenAPIV3.SecuritySchemeObject> | undefined,
+    upstream: UpstreamSettings,
+    sessionCredentials?: SessionCredentials
+): Promise<string[]> {
+    const credentialParams: string[] = [];
     if (!securityRequirements || securityRequirements.length === 0) {
-        console.error("No security requirements for this operation.");
-        return; // No security needed
+        log.debug('No security requirements for this operation');
+        return credentialParams; // No security needed
     }
 
     if (!securitySchemes) {
-        console.error("Security requirements defined but no security schemes available");
-        return;
+        log.warning('Security requirements defined but no security schemes available');
+        return credentialParams;
     }
 
     // Loop through the security requirements to find one we can satisfy
@@ -31,12 +84,12 @@ async function applySecurity(
         let allSchemesSatisfied = true;
         
         for (const schemeName of schemeNames) {
-            console.error(`Attempting to apply security scheme: ${schemeName}`);
+            log.debug('Attempting to apply security scheme', { scheme: schemeName });
             
             // Get the security scheme definition
             const scheme = securitySchemes[schemeName];
             if (!scheme) {
-                console.error(`Security scheme '${schemeName}' not found in OpenAPI definitions`);
+                log.warning('Security scheme not found in OpenAPI definitions', { scheme: schemeName });
                 allSchemesSatisfied = false;
                 break;
             }
@@ -49,34 +102,41 @@ async function applySecurity(
             switch (scheme.type) {
                 case 'apiKey':
                     // Handle API Key (in header, query, or cookie)
-                    const apiKey = config.securityCredentials?.[schemeName] || config.apiKey;
+                    const apiKey = getCredential(schemeName, upstream, sessionCredentials);
                     if (!apiKey) {
-                        console.error(`No API key found for scheme '${schemeName}'`);
+                        log.warning('No API key found for security scheme', { scheme: schemeName });
                         allSchemesSatisfied = false;
                         break;
                     }
-                    
                     if (scheme.in === 'header') {
                         requestConfig.headers[scheme.name] = apiKey;
-                        console.error(`Applied API Key header '${scheme.name}' for scheme: ${schemeName}`);
+                        log.debug('Applied API key header', { scheme: schemeName, header: scheme.name });
                     } else if (scheme.in === 'query') {
                         requestConfig.params = { ...requestConfig.params || {}, [scheme.name]: apiKey };
-                        console.error(`Applied API Key query param '${scheme.name}' for scheme: ${schemeName}`);
+                        credentialParams.push(scheme.name);
+                        log.debug('Applied API key query parameter', { scheme: schemeName, parameter: scheme.name });
                     } else if (scheme.in === 'cookie') {
                         // Simple cookie handling - in production, consider using a cookie jar
                         const cookieValue = `${scheme.name}=${apiKey}`;
                         requestConfig.headers['Cookie'] = requestConfig.headers['Cookie'] 
                             ? `${requestConfig.headers['Cookie']}; ${cookieValue}`
                             : cookieValue;
-                        console.error(`Applied API Key cookie '${scheme.name}' for scheme: ${schemeName}`);
+                        log.debug('Applied API key cookie', { scheme: schemeName, cookie: scheme.name });
                     }
                     break;
                     
                 case 'http':
+                    // A forwarded Authorization header already carries the caller's scheme and token
+                    if (sessionCredentials?.authorization) {
+                        requestConfig.headers['Authorization'] = sessionCredentials.authorization;
+                        log.debug('Applied forwarded Authorization header', { scheme: schemeName });
+                        break;
+                    }
+
                     // Handle HTTP authentication (Basic, Bearer)
-                    const authCred = config.securityCredentials?.[schemeName] || config.apiKey;
+                    const authCred = getCredential(schemeName, upstream, sessionCredentials);
                     if (!authCred) {
-                        console.error(`No credentials found for scheme '${schemeName}'`);
+                        log.warning('No credentials found for security scheme', { scheme: schemeName });
                         allSchemesSatisfied = false;
                         break;
                     }
@@ -88,45 +148,57 @@ async function applySecurity(
                             ? Buffer.from(authCred).toString('base64')
                             : Buffer.from(`${authCred}:password`).toString('base64');
                         requestConfig.headers['Authorization'] = `Basic ${credentials}`;
-                        console.error(`Applied Basic auth for scheme: ${schemeName}`);
+                        log.debug('Applied Basic auth', { scheme: schemeName });
                     } else if (scheme.scheme?.toLowerCase() === 'bearer') {
                         requestConfig.headers['Authorization'] = `Bearer ${authCred}`;
-                        console.error(`Applied Bearer token for scheme: ${schemeName}`);
+                        log.debug('Applied Bearer token', { scheme: schemeName });
                     } else {
                         // Unknown HTTP auth type
-                        console.error(`Unsupported HTTP auth scheme: ${scheme.scheme}`);
+                        log.warning('Unsupported HTTP auth scheme', { scheme: schemeName, type: scheme.scheme });
                         allSchemesSatisfied = false;
                     }
                     break;
                     
                 case 'oauth2':
+                    if (sessionCredentials?.authorization) {
+                        requestConfig.headers['Authorization'] = sessionCredentials.authorization;
+                        log.debug('Applied forwarded Authorization header', { scheme: schemeName });
+                        break;
+                    }
+
                     // For OAuth2, we'd typically have a token already acquired
-                    const oauthToken = config.securityCredentials?.[schemeName] || config.apiKey;
+                    const oauthToken = getCredential(schemeName, upstream, sessionCredentials);
                     if (!oauthToken) {
-                        console.error(`No OAuth token found for scheme '${schemeName}'`);
+                        log.warning('No OAuth token found for security scheme', { scheme: schemeName });
                         allSchemesSatisfied = false;
                         break;
                     }
                     
                     requestConfig.headers['Authorization'] = `Bearer ${oauthToken}`;
-                    console.error(`Applied OAuth2 token for scheme: ${schemeName}`);
+                    log.debug('Applied OAuth2 token', { scheme: schemeName });
                     break;
                     
                 case 'openIdConnect':
                     // Similar to OAuth2
-                    const oidcToken = config.securityCredentials?.[schemeName] || config.apiKey;
+                    if (sessionCredentials?.authorization) {
+                        requestConfig.headers['Authorization'] = sessionCredentials.authorization;
+                        log.debug('Applied forwarded Authorization header', { scheme: schemeName });
+                        break;
+                    }
+
+                    const oidcToken = getCredential(schemeName, upstream, sessionCredentials);
                     if (!oidcToken) {
-                        console.error(`No OpenID Connect token found for scheme '${schemeName}'`);
+                        log.warning('No OpenID Connect token found for security scheme', { scheme: schemeName });
                         allSchemesSatisfied = false;
                         break;
                     }
                     
                     requestConfig.headers['Authorization'] = `Bearer ${oidcToken}`;
-                    console.error(`Applied OpenID Connect token for scheme: ${schemeName}`);
+                    log.debug('Applied OpenID Connect token', { scheme: schemeName });
                     break;
                     
                 default:
-                    console.error(`Unsupported security scheme type: ${(scheme as any).type}`);
+                    log.warning('Unsupported security scheme type', { scheme: schemeName, type: (scheme as any).type });
                     allSchemesSatisfied = false;
             }
             
@@ -137,39 +209,68 @@ async function applySecurity(
         
         if (allSchemesSatisfied) {
             // We found and applied a security requirement that we could satisfy
-            return;
+            return credentialParams;
         }
     }
 
     // If we get here, we tried all requirements but couldn't satisfy any
-    console.error(`Could not satisfy any security requirements. API call may fail.`);
+    log.warning('Could not satisfy any security requirements. API call may fail.');
     // You might want to throw an error if security is mandatory for your API
     // throw new Error(`Required security schemes could not be applied.`);
+    return credentialParams;
 }
 
 export async function executeApiCall(
     details: ApiCallDetails,
-    mcpInput: Record<string, any> // The raw input object from MCP
+    mcpInput: Record<string, any>, // The raw input object from MCP
+    sessionCredentials?: SessionCredentials, // Upstream credentials of the calling session (HTTP transports)
+    options: ApiCallOptions = {},
+    clientConfig: ApiClientConfig = config // Configuration of the server making the call
+): Promise<ApiClientResponse> {
+    // Plugins see every outcome, including arguments rejected before any request was made
+    const plugins = clientConfig.plugins || [];
+    const toolName = options.toolName || details.operationId || `${details.method} ${details.pathTemplate}`;
+    const result = await performApiCall(details, mcpInput, sessionCredentials, options, clientConfig, toolName);
+    return plugins.length > 0 ? runResponseHooks(plugins, toolName, result) : result;
+}
+
+/**
+ * Validates the input, builds the request and sends it, polling asynchronous jobs until they finish
+ * @param details The API call details of the operation
+ * @param mcpInput The tool arguments
+ * @param sessionCredentials Upstream credentials of the calling session
+ * @param options The per-call options
+ * @param clientConfig Configuration of the server making the call
+ * @param toolName The name of the tool the call is made for, passed to beforeRequest hooks
+ * @returns The API call result
+ */
+async function performApiCall(
+    details: ApiCallDetails,
+    mcpInput: Record<string, any>,
+    sessionCredentials: SessionCredentials | undefined,
+    options: ApiCallOptions,
+    clientConfig: ApiClientConfig,
+    toolName: string
 ): Promise<ApiClientResponse> {
     const { method, pathTemplate, serverUrl, parameters, requestBody, securityRequirements, securitySchemes } = details;
 
     // Input validation
     if (!method) {
-        return { success: false, statusCode: 400, error: 'API call details missing HTTP method' };
+        return { success: false, statusCode: 400, error: 'API call details missing HTTP method', failure: 'validation' };
     }
     
     if (!pathTemplate) {
-        return { success: false, statusCode: 400, error: 'API call details missing path template' };
+        return { success: false, statusCode: 400, error: 'API call details missing path template', failure: 'validation' };
     }
     
     if (!serverUrl) {
-        return { success: false, statusCode: 400, error: 'API call details missing server URL' };
+        return { success: false, statusCode: 400, error: 'API call details missing server URL', failure: 'validation' };
     }
     
     // Ensure mcpInput is a valid object
     if (!mcpInput || typeof mcpInput !== 'object' || Array.isArray(mcpInput)) {
-        console.error(`Invalid input type: ${typeof mcpInput}. Expected an object.`);
-        return { success: false, statusCode: 400, error: 'Invalid input: expected an object' };
+        log.warning(`Invalid input type: ${typeof mcpInput}. Expected an object.`);
+        return { success: false, statusCode: 400, error: 'Invalid input: expected an object', failure: 'validation' };
     }
 
     // Normalize the input object to handle different formats
@@ -181,8 +282,7 @@ export async function executeApiCall(
     const headers: Record<string, any> = {};
     let body: any = undefined;
 
-    console.error(`Executing API call for tool: ${details.method} ${details.pathTemplate}`);
-    console.error(`MCP Input received:`, normalizedInput);
+    log.debug('Executing API call', { method: details.method, path: details.pathTemplate, input: normalizedInput });
 
 
     // Map MCP input back to HTTP request components
@@ -195,7 +295,7 @@ export async function executeApiCall(
             if (paramDef.schema) {
                 const validationError = validateParameterValue(paramValue, paramDef);
                 if (validationError) {
-                    return { success: false, statusCode: 400, error: `Parameter '${paramName}': ${validationError}` };
+                    return { success: false, statusCode: 400, error: `Parameter '${paramName}': ${validationError}`, failure: 'validation' };
                 }
             }
             
@@ -211,12 +311,12 @@ export async function executeApiCall(
                     break;
                 case 'cookie':
                     // Cookie handling is more complex, often managed by agents or specific header logic
-                    console.error(`Cookie parameter '${paramName}' handling not implemented.`);
+                    log.warning('Cookie parameter handling not implemented', { parameter: paramName });
                     break;
             }
         } else if (paramDef.required) {
-             console.error(`Error: Required parameter '${paramName}' missing in MCP input.`);
-             return { success: false, statusCode: 400, error: `Missing required parameter: ${paramName}` };
+             log.warning('Required parameter missing in MCP input', { parameter: paramName });
+             return { success: false, statusCode: 400, error: `Missing required parameter: ${paramName}`, failure: 'validation' };
         }
     }
 
@@ -225,7 +325,7 @@ export async function executeApiCall(
          // Validate request body against schema if available
          const bodyValidationError = validateRequestBody(normalizedInput.requestBody, requestBody);
          if (bodyValidationError) {
-             return { success: false, statusCode: 400, error: `Request body validation failed: ${bodyValidationError}` };
+             return { success: false, statusCode: 400, error: `Request body validation failed: ${bodyValidationError}`, failure: 'validation' };
          }
          
          // Assuming the nested 'requestBody' property in mcpInput holds the body
@@ -233,8 +333,8 @@ export async function executeApiCall(
          // Assume application/json for now, get content type from requestBody definition if needed
          headers['Content-Type'] = 'application/json';
      } else if (requestBody?.required) {
-          console.error(`Error: Required requestBody missing in MCP input.`);
-          return { success: false, statusCode: 400, error: `Missing required request body` };
+          log.warning('Required requestBody missing in MCP input');
+          return { success: false, statusCode: 400, error: `Missing required request body`, failure: 'validation' };
      }
 
 
@@ -244,68 +344,155 @@ export async function executeApiCall(
         params: queryParams,
         headers: headers,
         data: body,
-        // Validate status to handle non-2xx as resolved promises
-        validateStatus: (status: number) => status >= 200 && status < 500, // Handle 4xx as well
+        // Bodies are decoded by decodeResponseBody according to their Content-Type, so binary payloads survive
+        responseType: 'arraybuffer',
+        // Resolve every HTTP response, so 4xx and 5xx statuses are handled alike below
+        validateStatus: () => true,
+        signal: options.signal,
     };
 
+    const upstream = getUpstreamSettings(details, clientConfig);
+
     // Apply custom headers from configuration
-    if (config.customHeaders && Object.keys(config.customHeaders).length > 0) {
-        requestConfig.headers = { ...requestConfig.headers, ...config.customHeaders };
+    if (upstream.customHeaders && Object.keys(upstream.customHeaders).length > 0) {
+        requestConfig.headers = { ...requestConfig.headers, ...upstream.customHeaders };
     }
 
     // Add X-MCP header unless disabled
-    if (!config.disableXMcp) {
+    if (!clientConfig.disableXMcp) {
         requestConfig.headers = { ...requestConfig.headers, 'X-MCP': '1' };
     }
     
     // Apply security before making the call
+    let credentialParams: string[];
     try {
-        await applySecurity(requestConfig, securityRequirements, securitySchemes);
+        credentialParams = await applySecurity(requestConfig, securityRequirements, securitySchemes, upstream, sessionCredentials);
     } catch (secErr: any) {
-        console.error("Security application failed:", secErr);
-        return { success: false, statusCode: 401, error: `Security setup failed: ${secErr.message}` };
+        log.error('Security application failed', { error: secErr });
+        return { success: false, statusCode: 401, error: `Security setup failed: ${secErr.message}`, failure: 'security' };
+    }
+
+    const result = await sendThroughPlugins(requestConfig, clientConfig, toolName, mcpInput, options.signal, credentialParams);
+
+    // Long-running operations answer 202 Accepted with a status URL, polled until the job finishes.
+    // Polls go through the same plugins, and carry the credentials of the original request to its origin.
+    if (result.statusCode === 202 && details.asyncJob) {
+        return waitForAsyncJob(result, details.asyncJob, options, jobUrl =>
+            sendThroughPlugins(getFollowUpConfig(requestConfig, jobUrl, credentialParams), clientConfig, toolName, mcpInput, options.signal, credentialParams)
+        );
+    }
+    return result;
+}
+
+/**
+ * Runs the beforeRequest hooks of the plugins on a request, then sends it unless a hook answered it
+ * @param requestConfig The request to send, changed in place by the hooks
+ * @param clientConfig Configuration of the server making the call
+ * @param toolName The name of the tool the call is made for, passed to beforeRequest hooks
+ * @param mcpInput The tool arguments, passed to beforeRequest hooks
+ * @param signal The signal that cancels the request, if any
+ * @param credentialParams Query parameters that carry credentials, left out of the URL of the result
+ * @returns The API call result
+ */
+async function sendThroughPlugins(
+    requestConfig: AxiosRequestConfig,
+    clientConfig: ApiClientConfig,
+    toolName: string,
+    mcpInput: Record<string, any>,
+    signal: AbortSignal | undefined,
+    credentialParams: string[]
+): Promise<ApiClientResponse> {
+    // Plugins may change the request, answer it themselves, or reject the arguments
+    if (clientConfig.plugins && clientConfig.plugins.length > 0) {
+        try {
+            const pluginResponse = await runBeforeRequestHooks(clientConfig.plugins, toolName, requestConfig, mcpInput);
+            if (pluginResponse) {
+                return pluginResponse;
+            }
+        } catch (hookErr: any) {
+            log.warning('Request rejected by plugin', { tool: toolName, error: hookErr });
+            return { success: false, statusCode: 400, error: `Request rejected: ${hookErr.message}`, failure: 'validation' };
+        }
     }
 
-    console.error(`Making HTTP request:`, {
-        method: requestConfig.method,
+    // Credentials in headers and query parameters are redacted by the logger
+    log.info('Making HTTP request', {
+        method: String(requestConfig.method).toUpperCase(),
         url: requestConfig.url,
         params: requestConfig.params,
         headers: requestConfig.headers,
-        data: requestConfig.data ? '[Request Body Present]' : undefined // Avoid logging sensitive data
     });
+    log.debug('Request body', { body: requestConfig.data });
+
+    return sendRequest(requestConfig, signal, credentialParams);
+}
 
+/**
+ * Sends a request and converts the response, or the failure, to an ApiClientResponse
+ * @param requestConfig The request to send
+ * @param signal The signal that cancels the request, if any
+ * @param credentialParams Query parameters that carry credentials, left out of the URL of the result
+ * @returns The API call result
+ */
+async function sendRequest(requestConfig: AxiosRequestConfig, signal?: AbortSignal, credentialParams: string[] = []): Promise<ApiClientResponse> {
     try {
         const response = await axios(requestConfig);
+        const contentType = getHeader(response.headers, 'content-type');
+        response.data = decodeResponseBody(response.data, contentType);
 
-        console.error(`API response received: Status ${response.status}`);
+        log.info('API response received', { status: response.status, url: requestConfig.url });
 
         if (response.status >= 200 && response.status < 300) {
             return {
                 success: true,
                 statusCode: response.status,
                 data: response.data,
+                contentType,
+                url: getRequestUrl(requestConfig, credentialParams),
+                headers: normalizeHeaders(response.headers),
             };
         } else {
-            // Handle 4xx client errors reported by the API
-            console.error(`API returned client error ${response.status}:`, response.data);
+            // Handle 4xx and 5xx errors reported by the API
+            log.warning('API returned an error', { status: response.status, body: describeBody(response.data) });
             return {
                 success: false,
                 statusCode: response.status,
-                error: `API Error ${response.status}: ${JSON.stringify(response.data)}`,
-                data: response.data // Optionally include error data
+                error: `API Error ${response.status}: ${describeBody(response.data)}`,
+                data: response.data, // Optionally include error data
+                contentType,
+                url: getRequestUrl(requestConfig, credentialParams),
+                headers: normalizeHeaders(response.headers),
+                failure: 'http',
             };
         }
     } catch (error) {
         const axiosError = error as AxiosError;
-        console.error(`API call failed: ${axiosError.message}`, axiosError.response?.data || axiosError.code);
+
+        if (signal?.aborted) {
+            log.info('API call cancelled by the client', { method: String(requestConfig.method).toUpperCase(), url: requestConfig.url });
+            return {
+                success: false,
+                statusCode: 499, // Client Closed Request
+                error: 'Request cancelled by the client',
+                failure: 'cancelled',
+            };
+        }
+
+        log.error('API call failed', { error: axiosError.message, code: axiosError.code, status: axiosError.response?.status });
 
         if (axiosError.response) {
-            // Errors during the request setup or >= 500 if validateStatus wasn't broad enough
+            axiosError.response.data = decodeResponseBody(
+                axiosError.response.data,
+                getHeader(axiosError.response.headers, 'content-type')
+            );
+            // Errors raised while processing a response that was received
             return {
                 success: false,
                 statusCode: axiosError.response.status || 500,
-                error: `API Error ${axiosError.response.status}: ${JSON.stringify(axiosError.response.data) || axiosError.message}`,
-                data: axiosError.response.data
+                error: `API Error ${axiosError.response.status}: ${describeBody(axiosError.response.data) || axiosError.message}`,
+                data: axiosError.response.data,
+                headers: normalizeHeaders(axiosError.response.headers),
+                failure: 'http',
             };
         } else {
             // Network error, DNS error, etc.
@@ -313,11 +500,143 @@ export async function executeApiCall(
                 success: false,
                 statusCode: 503, // Service Unavailable or similar
                 error: `Network or request setup error: ${axiosError.message}`,
+                failure: 'network',
             };
         }
     }
 }
 
+/**
+ * Builds the GET request for a job status or result URL. The headers and credential query parameters
+ * of the original request are only sent to the same origin; other hosts (e.g. pre-signed storage
+ * URLs) are requested without them.
+ * @param requestConfig The original request
+ * @param jobUrl The absolute status or result URL
+ * @param credentialParams Query parameters of the original request that carry credentials
+ * @returns The request configuration
+ */
+function getFollowUpConfig(requestConfig: AxiosRequestConfig, jobUrl: string, credentialParams: string[]): AxiosRequestConfig {
+    const sameOrigin = new URL(jobUrl).origin === new URL(getRequestUrl(requestConfig)).origin;
+    const { 'Content-Type': _contentType, ...headers } = (requestConfig.headers || {}) as Record<string, any>;
+    const params: Record<string, any> = {};
+    if (sameOrigin) {
+        for (const name of credentialParams) {
+            params[name] = requestConfig.params?.[name];
+        }
+    }
+
+    return {
+        method: 'GET',
+        url: jobUrl,
+        headers: sameOrigin ? headers : {},
+        ...(Object.keys(params).length > 0 ? { params } : {}),
+        responseType: 'arraybuffer',
+        validateStatus: () => true,
+        signal: requestConfig.signal,
+    };
+}
+
+/**
+ * Reads a response header case-insensitively
+ * @param headers The response headers
+ * @param name The lower-case header name
+ * @returns The header value, or undefined if absent
+ */
+function getHeader(headers: Record<string, any> | undefined, name: string): string | undefined {
+    if (!headers) return undefined;
+    if (typeof headers.get === 'function') {
+        const value = headers.get(name);
+        return value ? String(value) : undefined;
+    }
+    const key = Object.keys(headers).find(header => header.toLowerCase() === name);
+    return key && headers[key] ? String(headers[key]) : undefined;
+}
+
+/**
+ * Copies response headers into a plain object with lower-case names
+ * @param headers The response headers
+ * @returns The normalized headers
+ */
+function normalizeHeaders(headers: Record<string, any> | undefined): Record<string, string> {
+    const normalized: Record<string, string> = {};
+    const source = typeof headers?.toJSON === 'function' ? headers.toJSON() : headers || {};
+    for (const [name, value] of Object.entries(source)) {
+        if (value !== undefined && value !== null) {
+            normalized[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+        }
+    }
+    return normalized;
+}
+
+/**
+ * Describes a decoded response body for error messages
+ * @param data The decoded body
+ * @returns JSON for parsed bodies, the text itself for text bodies, a size note for binary bodies
+ */
+function describeBody(data: any): string {
+    if (Buffer.isBuffer(data)) return `<${data.length} bytes of binary data>`;
+    if (typeof data === 'string') return data;
+    return JSON.stringify(data);
+}
+
+/**
+ * Checks whether a Content-Type denotes a textual body (JSON, XML, text, form data...)
+ * @param contentType The Content-Type header value
+ * @returns True if the body should be decoded as UTF-8 text
+ */
+export function isTextContentType(contentType: string): boolean {
+    const mimeType = contentType.split(';')[0].trim().toLowerCase();
+    return mimeType.startsWith('text/')
+        || mimeType.endsWith('+json')
+        || mimeType.endsWith('+xml')
+        || ['application/json', 'application/xml', 'application/javascript', 'application/x-www-form-urlencoded',
+            'application/graphql', 'application/yaml', 'application/x-yaml'].includes(mimeType);
+}
+
+/**
+ * Decodes a raw response body according to its Content-Type.
+ * Text bodies become strings (JSON is parsed when possible), anything else stays a Buffer.
+ * @param data The raw body as received with responseType 'arraybuffer'
+ * @param contentType The Content-Type header value, if any
+ * @returns The decoded body
+ */
+function decodeResponseBody(data: any, contentType: string | undefined): any {
+    // Already decoded, e.g. by an adapter that ignores responseType
+    if (!(data instanceof ArrayBuffer) && !Buffer.isBuffer(data)) {
+        return data;
+    }
+
+    const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
+    if (contentType && !isTextContentType(contentType)) {
+        return buffer;
+    }
+
+    const text = buffer.toString('utf8');
+    if (text.length === 0) {
+        return '';
+    }
+    // Like axios' default transform, bodies without a (JSON) content type are parsed when they are JSON
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+/**
+ * Builds the full URL of a request, including its query string. The URL is returned to clients
+ * (e.g. as the URI of binary content), so query parameters that carry credentials can be left out.
+ * @param requestConfig The request configuration
+ * @param omittedParams Names of the query parameters to leave out
+ * @returns The URL
+ */
+function getRequestUrl(requestConfig: AxiosRequestConfig, omittedParams: string[] = []): string {
+    const params = requestConfig.params && omittedParams.length > 0
+        ? Object.fromEntries(Object.entries(requestConfig.params).filter(([name]) => !omittedParams.includes(name)))
+        : requestConfig.params;
+    return axios.getUri?.({ ...requestConfig, params }) || requestConfig.url || '';
+}
+
 /**
  * Validates a parameter value against its schema definition
  * @param value The parameter value to validate
@@ -0,0 +1,177 @@
+import type { ApiCallOptions, ApiClientResponse, AsyncJobOptions } from './types';
+import { parseRetryAfter } from './toolErrors';
+import { createLogger } from './utils/logger';
+
+const log = createLogger('asyncJobs');
+
+// Values of a status document's `status`/`state` field, compared case-insensitively
+const RUNNING_STATES = ['accepted', 'pending', 'queued', 'running', 'in_progress', 'inprogress', 'processing', 'started', 'submitted'];
+const FAILED_STATES = ['failed', 'failure', 'error', 'errored', 'cancelled', 'canceled', 'aborted', 'rejected'];
+const SUCCEEDED_STATES = ['succeeded', 'success', 'successful', 'completed', 'complete', 'done', 'finished'];
+
+// Body fields of a 202 response pointing to the status endpoint, when there is no Location header
+const STATUS_URL_FIELDS = ['statusUrl', 'status_url', 'location', 'href'];
+// Body fields of a finished status document pointing to the created resource
+const RESULT_URL_FIELDS = ['resultUrl', 'result_url', 'resourceLocation', 'resource_location'];
+
+type JobState = 'running' | 'failed' | 'succeeded';
+
+/**
+ * Resolves a possibly relative URL against the URL of the response it came from
+ * @param value The URL found in a header or body
+ * @param base The URL of the response
+ * @returns The absolute URL, or undefined if it cannot be resolved
+ */
+function resolveUrl(value: unknown, base: string | undefined): string | undefined {
+    if (typeof value !== 'string' || value === '') return undefined;
+    try {
+        return new URL(value, base).href;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Finds a URL in the Location or Content-Location header of a response, or in one of the given body fields
+ * @param response The response to inspect
+ * @param fields Body fields that may hold the URL
+ * @returns The absolute URL, or undefined if there is none
+ */
+function findUrl(response: ApiClientResponse, fields: string[]): string | undefined {
+    const headerUrl = response.headers?.['location'] || response.headers?.['content-location'];
+    if (headerUrl) return resolveUrl(headerUrl, response.url);
+
+    const body = response.data;
+    if (body && typeof body === 'object' && !Buffer.isBuffer(body)) {
+        const field = fields.find(name => typeof body[name] === 'string');
+        if (field) return resolveUrl(body[field], response.url);
+    }
+    return undefined;
+}
+
+/**
+ * Reads the job state from a status document's `status` or `state` field
+ * @param body The decoded status response body
+ * @returns The job state, or undefined if the body is not a recognized status document
+ */
+function getJobState(body: any): JobState | undefined {
+    const status = body && typeof body === 'object' ? body.status ?? body.state : undefined;
+    if (typeof status !== 'string') return undefined;
+
+    const normalized = status.toLowerCase().replace(/[\s-]/g, '_');
+    if (RUNNING_STATES.includes(normalized)) return 'running';
+    if (FAILED_STATES.includes(normalized)) return 'failed';
+    if (SUCCEEDED_STATES.includes(normalized)) return 'succeeded';
+    return undefined;
+}
+
+/**
+ * Waits for a delay, returning early when the signal is aborted
+ * @param ms The delay in milliseconds
+ * @param signal The abort signal, if any
+ * @returns False if the wait was aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<boolean> {
+    if (signal?.aborted) return Promise.resolve(false);
+
+    return new Promise(resolve => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve(false);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve(true);
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Polls the status endpoint of a job accepted with 202, backing off exponentially (or as requested
+ * by Retry-After), until the job finishes, fails or the timeout is hit:
+ * - 202 responses, and status documents whose `status`/`state` is e.g. `running`, mean the job is still running
+ * - a status document reporting success that links to the created resource (Location header or
+ *   `resultUrl`-like field) is followed, and the resource is returned; redirects are followed automatically
+ * - any other 2xx response is the final result
+ * Transient failures (network errors, 429 and 5xx) are retried until the timeout.
+ * @param accepted The 202 response of the original call
+ * @param jobOptions The polling options of the operation
+ * @param options The call options, for cancellation and progress
+ * @param fetchUrl Sends a GET request for a status or result URL
+ * @returns The final result, or a failure
+ */
+export async function waitForAsyncJob(
+    accepted: ApiClientResponse,
+    jobOptions: AsyncJobOptions,
+    options: ApiCallOptions,
+    fetchUrl: (url: string) => Promise<ApiClientResponse>
+): Promise<ApiClientResponse> {
+    const statusUrl = findUrl(accepted, STATUS_URL_FIELDS);
+    if (!statusUrl) {
+        log.warning('Async job accepted without a status URL, returning the 202 response as is');
+        return accepted;
+    }
+
+    const startedAt = Date.now();
+    const deadline = startedAt + jobOptions.timeout * 1000;
+    let interval = jobOptions.interval * 1000;
+    let retryAfter = parseRetryAfter(accepted.headers?.['retry-after']);
+    let lastStatus: any = accepted.data;
+
+    log.info('Async job accepted, polling its status', { statusUrl, timeout: jobOptions.timeout });
+    options.onProgress?.('Job accepted, waiting for it to finish');
+
+    while (Date.now() < deadline) {
+        const delay = Math.min(retryAfter !== undefined ? retryAfter * 1000 : interval, deadline - Date.now());
+        if (!(await sleep(delay, options.signal))) {
+            return { success: false, statusCode: 499, error: 'Request cancelled by the client', failure: 'cancelled' };
+        }
+        interval = Math.min(interval * 2, jobOptions.maxInterval * 1000);
+
+        const response = await fetchUrl(statusUrl);
+        retryAfter = parseRetryAfter(response.headers?.['retry-after']);
+
+        if (response.failure === 'cancelled') {
+            return response;
+        }
+        if (response.failure === 'network' || response.statusCode === 429 || response.statusCode >= 500) {
+            log.warning('Polling failed transiently, retrying', { statusUrl, error: response.error });
+            continue;
+        }
+        if (!response.success) {
+            return response;
+        }
+
+        const state = response.statusCode === 202 ? 'running' : getJobState(response.data);
+        const elapsedSeconds = Math.round((Date.now() - startedAt) / 1000);
+
+        if (state === 'running') {
+            lastStatus = response.data;
+            const status = response.data?.status ?? response.data?.state;
+            options.onProgress?.(`Job ${typeof status === 'string' ? status : 'running'} (${elapsedSeconds}s elapsed)`);
+            continue;
+        }
+        if (state === 'failed') {
+            log.warning('Async job failed', { statusUrl, elapsedSeconds, body: response.data });
+            return { ...response, success: false, error: `Async job failed: ${JSON.stringify(response.data)}`, failure: 'job' };
+        }
+
+        log.info('Async job finished', { statusUrl, elapsedSeconds });
+        const resultUrl = state === 'succeeded' ? findUrl(response, RESULT_URL_FIELDS) : undefined;
+        if (resultUrl && resultUrl !== statusUrl) {
+            options.onProgress?.('Job finished, fetching the result');
+            return fetchUrl(resultUrl);
+        }
+        return response;
+    }
+
+    log.warning('Async job did not finish in time', { statusUrl, timeout: jobOptions.timeout });
+    return {
+        success: false,
+        statusCode: 504, // Gateway Timeout
+        error: `Async job did not finish within ${jobOptions.timeout}s`,
+        data: { statusUrl, lastStatus },
+        failure: 'timeout',
+    };
+}
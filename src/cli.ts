@@ -0,0 +1,79 @@
+#!/usr/bin/env node
+
+import { hideBin } from 'yargs/helpers';
+import { ConfigError, describeConfig, loadConfig, loadConfigWithSources, resolveConfig } from './config';
+import type { LoadedConfig } from './config';
+import { createOpenApiMcpServer } from './server';
+import { createLogger } from './utils/logger';
+
+const log = createLogger('server');
+
+/**
+ * Starts the server configured by the command line, the environment and the config file
+ */
+async function main(): Promise<void> {
+    log.info('Starting Dynamic OpenAPI MCP Server');
+
+    let server;
+    try {
+        server = await createOpenApiMcpServer(loadConfig());
+    } catch (error) {
+        if (error instanceof ConfigError) {
+            log.error(error.message);
+        } else {
+            log.error('Failed to load and map the OpenAPI specification. Server cannot start.', { error });
+        }
+        process.exit(1);
+    }
+
+    try {
+        await server.start();
+    } catch (error) {
+        log.error('Error starting MCP server', { error });
+        process.exit(1);
+    }
+}
+
+/**
+ * Gathers and validates the configuration given by the arguments, the environment and the config file.
+ * Every problem is printed, and the process exits with 1 if there is any.
+ * @param args The command-line arguments after the command
+ * @returns The options and their sources
+ */
+function checkConfig(args: string[]): LoadedConfig {
+    try {
+        const loaded = loadConfigWithSources(args);
+        resolveConfig(loaded.options);
+        return loaded;
+    } catch (error) {
+        if (!(error instanceof ConfigError)) throw error;
+        console.error(`Configuration is invalid:\n${error.issues.map(issue => `  - ${issue}`).join('\n')}`);
+        process.exit(1);
+    }
+}
+
+/**
+ * Prints the effective value of every option, with credentials masked, and the source it was taken from
+ * @param args The command-line arguments after the command
+ */
+function printConfig(args: string[]): void {
+    const loaded = checkConfig(args);
+    console.log(`# Effective configuration (CLI > ENV > file${loaded.configPath ? ` ${loaded.configPath}` : ''} > default)`);
+    for (const { option, value, source } of describeConfig(loaded)) {
+        console.log(`${option}: ${JSON.stringify(value)}  # ${source}`);
+    }
+}
+
+const [command, ...commandArgs] = hideBin(process.argv);
+if (command === 'validate-config') {
+    // Checks the configuration without starting the server
+    checkConfig(commandArgs);
+    console.log('Configuration is valid');
+} else if (command === 'print-config') {
+    printConfig(commandArgs);
+} else {
+    main().catch(error => {
+        log.error('Unhandled error during server startup', { error });
+        process.exit(1);
+    });
+}
@@ -0,0 +1,125 @@
+import type { CompleteResult } from '@modelcontextprotocol/sdk/types.js';
+import type { JSONSchema7Definition } from 'json-schema';
+import { executeApiCall } from './apiClient';
+import { toParameterInput } from './resourceMapper';
+import type { CompletionLookup, MappedTool, ServerConfig, SessionCredentials } from './types';
+import { createLogger } from './utils/logger';
+
+const log = createLogger('completions');
+
+// Most values a completion result may hold, per the MCP specification
+const MAX_COMPLETION_VALUES = 100;
+
+/**
+ * Collects the completion candidates a JSON Schema declares: its enum, example(s) and default.
+ * Array schemas are completed with the candidates of their items.
+ * @param schema The JSON Schema of the argument
+ * @returns The candidates as strings, without duplicates
+ */
+export function getSchemaCompletionValues(schema: JSONSchema7Definition | undefined): string[] {
+    if (!schema || typeof schema !== 'object') return [];
+    if (schema.type === 'array' && schema.items && !Array.isArray(schema.items)) {
+        return getSchemaCompletionValues(schema.items);
+    }
+
+    const candidates = [
+        ...(schema.enum || []),
+        ...((schema as any).example !== undefined ? [(schema as any).example] : []),
+        ...(Array.isArray(schema.examples) ? schema.examples : []),
+        ...(schema.default !== undefined ? [schema.default] : []),
+    ];
+    return [...new Set(candidates.filter(isScalar).map(String))];
+}
+
+/**
+ * Checks whether a value can be offered as a completion
+ * @param value The value
+ * @returns True for strings, numbers and booleans
+ */
+function isScalar(value: unknown): value is string | number | boolean {
+    return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+/**
+ * Extracts the candidate values from the response of a lookup operation. The list is the response itself,
+ * its `items` property, or else its first array property; objects are completed with their `value`
+ * property, or their id or name.
+ * @param data The parsed response body
+ * @param lookup The lookup that was called
+ * @returns The candidates as strings
+ */
+export function extractCompletionValues(data: unknown, lookup: CompletionLookup): string[] {
+    let list: unknown = data;
+    if (!Array.isArray(list) && list && typeof list === 'object') {
+        list = lookup.items
+            ? (list as Record<string, unknown>)[lookup.items]
+            : Object.values(list).find(Array.isArray);
+    }
+    if (!Array.isArray(list)) return [];
+
+    return list
+        .map(item => {
+            if (item && typeof item === 'object') {
+                return lookup.value ? item[lookup.value] : item.id ?? item.name;
+            }
+            return item;
+        })
+        .filter(isScalar)
+        .map(String);
+}
+
+/**
+ * Calls the operation of an x-mcp-completion lookup and extracts the candidate values from its response
+ * @param lookup The lookup
+ * @param catalog The mapped operations currently served; the lookup operation must be one of them
+ * @param args The other arguments already filled in by the client; those the operation declares are passed to it
+ * @param serverConfig The configuration of the server handling the completion
+ * @param sessionCredentials Upstream credentials of the client's session
+ * @param signal Aborts the call when the completion request is cancelled
+ * @returns The candidates, or none if the operation is unknown or fails
+ */
+export async function lookupCompletionValues(
+    lookup: CompletionLookup,
+    catalog: MappedTool[],
+    args: Record<string, string>,
+    serverConfig: ServerConfig,
+    sessionCredentials?: SessionCredentials,
+    signal?: AbortSignal
+): Promise<string[]> {
+    const operation = catalog.find(tool =>
+        tool.apiCallDetails.operationId === lookup.operationId && tool.apiCallDetails.namespace === lookup.namespace);
+    if (!operation || operation.apiCallDetails.method !== 'GET') {
+        log.warning('Completion lookup needs a mapped GET operation', { operationId: lookup.operationId, namespace: lookup.namespace });
+        return [];
+    }
+
+    // Completion arguments are strings, and may include arguments the lookup operation does not take
+    const { parameters } = operation.apiCallDetails;
+    const declaredArgs = Object.fromEntries(Object.entries(args).filter(([name]) => parameters.some(param => param.name === name)));
+    const input = toParameterInput(declaredArgs, parameters);
+
+    const result = await executeApiCall(operation.apiCallDetails, input, sessionCredentials, { signal, toolName: operation.mcpToolDefinition.name }, serverConfig);
+    if (!result.success) {
+        log.warning('Completion lookup failed', { operationId: lookup.operationId, status: result.statusCode, error: result.error });
+        return [];
+    }
+    return extractCompletionValues(result.data, lookup);
+}
+
+/**
+ * Builds a completion result from the candidates starting with the value typed so far
+ * @param candidates The candidate values
+ * @param value The value typed so far, matched case-insensitively
+ * @returns The completion result, with at most 100 values
+ */
+export function toCompletionResult(candidates: string[], value: string): CompleteResult {
+    const prefix = value.toLowerCase();
+    const matches = [...new Set(candidates)].filter(candidate => candidate.toLowerCase().startsWith(prefix));
+    return {
+        completion: {
+            values: matches.slice(0, MAX_COMPLETION_VALUES),
+            total: matches.length,
+            hasMore: matches.length > MAX_COMPLETION_VALUES,
+        },
+    };
+}
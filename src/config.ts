@@ -3,32 +3,55 @@ import path from 'path';
 import yargs from 'yargs/yargs';
 import { hideBin } from 'yargs/helpers';
 import fs from 'fs';
+import YAML from 'js-yaml';
 import { isHttpUrl } from './utils/httpClient';
+import { createLogContext, createLogger, isLogLevel, withLogContext, LOG_LEVELS } from './utils/logger';
+import type { LogContext } from './utils/logger';
+import { addSecretValues, addSensitiveNames, createRedactionRules, redact, REDACTED } from './utils/redaction';
+import type { RedactionRules } from './utils/redaction';
+import { loadPlugin } from './plugins';
+import { configFileSchema, formatConfigPath, validateConfigValues } from './configSchema';
+import type { ConfigFile } from './configSchema';
+import type { OpenApiMcpServerOptions, ServerConfig, SpecEntryOptions, SpecSource } from './types';
 
-dotenv.config();
+const log = createLogger('config');
 
-// Parse custom headers from environment variables
-const customHeadersFromEnv: Record<string, string> = {};
-Object.keys(process.env).forEach(key => {
-    if (key.startsWith('HEADER_')) {
-        const headerName = key.substring(7); // Remove 'HEADER_' prefix
-        customHeadersFromEnv[headerName] = process.env[key] || '';
+// Raised for a missing or invalid configuration option
+export class ConfigError extends Error {
+    readonly issues: string[]; // Every problem found, when the configuration was validated as a whole
+
+    constructor(message: string, issues: string[] = [message]) {
+        super(message);
+        this.name = 'ConfigError';
+        this.issues = issues;
     }
-});
+}
 
-// Function to load JSON configuration file
-function loadJsonConfig(configPath: string): Record<string, any> {
+/**
+ * Loads a configuration file, in YAML if its extension is .yaml or .yml and in JSON otherwise.
+ * Keys starting with "//" are comments, as in config.example.json.
+ * @param configPath The path of the file
+ * @returns The options in the file, or undefined if the file does not exist
+ * @throws ConfigError if the file cannot be read or does not hold an object of options
+ */
+function readConfigFile(configPath: string): Record<string, unknown> | undefined {
+    if (!fs.existsSync(configPath)) {
+        return undefined;
+    }
+
+    const isYaml = ['.yaml', '.yml'].includes(path.extname(configPath).toLowerCase());
+    let fileConfig: unknown;
     try {
-        if (fs.existsSync(configPath)) {
-            const configContent = fs.readFileSync(configPath, 'utf8');
-            const jsonConfig = JSON.parse(configContent);
-            console.error(`Loaded configuration from ${configPath}`);
-            return jsonConfig;
-        }
+        const content = fs.readFileSync(configPath, 'utf8');
+        fileConfig = isYaml ? YAML.load(content) : JSON.parse(content);
     } catch (error) {
-        console.error(`Error loading JSON config from ${configPath}:`, error);
+        throw new ConfigError(`Failed to load config file ${configPath}: ${(error as Error).message}`);
     }
-    return {};
+    if (!fileConfig || typeof fileConfig !== 'object' || Array.isArray(fileConfig)) {
+        throw new ConfigError(`Config file ${configPath} must hold ${isYaml ? 'a YAML mapping' : 'a JSON object'} of options.`);
+    }
+    log.info('Loaded configuration file', { path: configPath });
+    return Object.fromEntries(Object.entries(fileConfig).filter(([key]) => !key.startsWith('//')));
 }
 
 // Get the package directory when running via npx
@@ -39,7 +62,7 @@ function getPackageDirectory(): string | null {
         const mainModulePath = require.main?.filename || '';
         
         // For a typical package structure, we need to go up several levels
-        // From <package>/dist/src/server.js to <package>
+        // From <package>/dist/src/cli.js to <package>
         let packageDir = path.dirname(mainModulePath);
         
         // Go up to package root (typically 2 levels)
@@ -54,107 +77,214 @@ function getPackageDirectory(): string | null {
             return packageDir;
         }
     } catch (error) {
-        console.error('Error determining package directory:', error);
+        log.warning('Error determining package directory', { error });
     }
     return null;
 }
 
+// Extensions of the config files searched for, in order
+const CONFIG_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
 // Get config paths to check
 function getConfigPaths(): string[] {
     // Check if running as a package (via npx)
     const packageDir = getPackageDirectory();
     if (packageDir) {
-        const packageConfigPath = path.join(packageDir, 'config.json');
-        console.error(`Checking for package config at: ${packageConfigPath}`);
-        return [packageConfigPath];
+        const packageConfigPaths = CONFIG_EXTENSIONS.map(extension => path.join(packageDir, `config${extension}`));
+        log.debug('Checking for package config', { paths: packageConfigPaths });
+        return packageConfigPaths;
     } else {
         // Fallback to current working directory if not running as a package
-        return [
-            path.resolve(process.cwd(), 'config.json'),
-            path.resolve(process.cwd(), 'openapi-mcp.json'),
-            path.resolve(process.cwd(), '.openapi-mcp.json')
-        ];
+        return ['config', 'openapi-mcp', '.openapi-mcp'].flatMap(name =>
+            CONFIG_EXTENSIONS.map(extension => path.resolve(process.cwd(), `${name}${extension}`)));
     }
 }
 
-// Load configuration
-let jsonConfig: Record<string, any> = {};
-if (process.env.CONFIG_FILE) {
-    // If CONFIG_FILE env var is set, try to load from that path
-    jsonConfig = loadJsonConfig(process.env.CONFIG_FILE);
-} else {
-    // Otherwise, try paths based on execution context
-    const configPaths = getConfigPaths();
-    for (const configPath of configPaths) {
-        const config = loadJsonConfig(configPath);
-        if (Object.keys(config).length > 0) {
-            jsonConfig = config;
-            break;
+/**
+ * Loads the config file: the one given by --config or CONFIG_FILE, or else the first found in the search paths
+ * @param configOption The path given by --config, if any
+ * @param env The environment variables
+ * @returns The path of the file and the options in it; no path and no options if there is none
+ * @throws ConfigError if the file given does not exist, or a file cannot be parsed
+ */
+function loadConfigFile(configOption: string | undefined, env: NodeJS.ProcessEnv): { path?: string; values: Record<string, unknown> } {
+    const configPath = configOption || env.CONFIG_FILE;
+    if (configPath) {
+        const values = readConfigFile(configPath);
+        if (!values) {
+            throw new ConfigError(`Config file ${configPath} (${configOption ? '--config' : 'CONFIG_FILE'}) does not exist.`);
         }
+        return { path: configPath, values };
     }
+    for (const searchPath of getConfigPaths()) {
+        const values = readConfigFile(searchPath);
+        if (values) {
+            return { path: searchPath, values };
+        }
+    }
+    return { values: {} };
 }
 
-// Process command-line arguments - don't set defaults here
-// We'll apply the priority order (CLI > ENV > config) after parsing
-const argv = yargs(hideBin(process.argv))
-    .option('config', {
-        alias: 'c',
-        type: 'string',
-        description: 'Path to JSON configuration file'
-    })
-    .option('spec', {
-        alias: 's',
-        type: 'string',
-        description: 'Path to the OpenAPI specification file'
-    })
-    .option('overlays', {
-        alias: 'o',
-        type: 'string', // Comma-separated paths
-        description: 'Comma-separated paths to OpenAPI overlay files'
-    })
-    .option('port', {
-        alias: 'p',
-        type: 'number',
-        description: 'Port for the MCP server'
-    })
-    .option('targetUrl', {
-        alias: 'u',
-        type: 'string',
-        description: 'Target API base URL (overrides OpenAPI servers)'
-    })
-    .option('whitelist', {
-        alias: 'w',
-        type: 'string',
-        description: 'Comma-separated operationIds or URL paths to include (supports glob patterns)'
-    })
-    .option('blacklist', {
-        alias: 'b',
-        type: 'string',
-        description: 'Comma-separated operationIds or URL paths to exclude (supports glob patterns, ignored if whitelist used)'
-    })
-    // Add options for credentials as needed
-    .option('apiKey', {
-        type: 'string',
-        description: 'API Key for the target API'
-    })
-    .option('securitySchemeName', {
-        type: 'string',
-        description: 'Name of the security scheme requiring the API Key'
-    })
-    .option('securityCredentials', {
-        type: 'string',
-        description: 'JSON string containing security credentials for multiple schemes'
-    })
-    .option('headers', {
-        type: 'string',
-        description: 'JSON string containing custom headers to include in all API requests'
-    })
-    .option('disableXMcp', {
-        type: 'boolean',
-        description: 'Disable adding X-MCP: 1 header to all API requests'
-    })
-    .help()
-    .parseSync(); // Use parseSync or handle async parsing
+/**
+ * Finds the options given on the command line that are not defined, e.g. misspelled ones
+ * @param argv The parsed arguments
+ * @param knownKeys The defined options and their aliases
+ * @returns The unknown options, in camelCase when they were given in kebab-case
+ */
+function getUnknownOptions(argv: Record<string, unknown>, knownKeys: string[]): string[] {
+    const known = new Set(['_', '$0', ...knownKeys]);
+    // yargs adds a camelCase copy of every kebab-case option, e.g. logLevel for --log-level
+    const toCamelCase = (key: string) => key.replace(/-+([^-])/g, (_match, letter: string) => letter.toUpperCase());
+    return Object.keys(argv).filter(key => !known.has(key) && !(key.includes('-') && toCamelCase(key) in argv));
+}
+
+/**
+ * Parses the command-line arguments, without defaults: the priority order (CLI > ENV > config) is applied afterwards
+ * @param args The arguments, without the node executable and script
+ * @returns The parsed arguments, and the options given that are not defined
+ */
+function parseArgs(args: string[]) {
+    const parser = yargs(args)
+        .option('config', {
+            alias: 'c',
+            type: 'string',
+            description: 'Path to a JSON or YAML configuration file'
+        })
+        .option('spec', {
+            alias: 's',
+            type: 'string',
+            description: 'Path to the OpenAPI specification file'
+        })
+        .option('overlays', {
+            alias: 'o',
+            type: 'string', // Comma-separated paths
+            description: 'Comma-separated paths to OpenAPI overlay files'
+        })
+        .option('port', {
+            alias: 'p',
+            type: 'number',
+            description: 'Port for the MCP server'
+        })
+        .option('transport', {
+            alias: 't',
+            type: 'string',
+            choices: ['stdio', 'http', 'sse'],
+            description: 'MCP transport to serve: stdio (default), http (Streamable HTTP on --port) or sse (legacy HTTP+SSE on --port)'
+        })
+        .option('targetUrl', {
+            alias: 'u',
+            type: 'string',
+            description: 'Target API base URL (overrides OpenAPI servers)'
+        })
+        .option('whitelist', {
+            alias: 'w',
+            type: 'string',
+            description: 'Comma-separated operationIds or URL paths to include (supports glob patterns)'
+        })
+        .option('blacklist', {
+            alias: 'b',
+            type: 'string',
+            description: 'Comma-separated operationIds or URL paths to exclude (supports glob patterns, ignored if whitelist used)'
+        })
+        // Add options for credentials as needed
+        .option('apiKey', {
+            type: 'string',
+            description: 'API Key for the target API'
+        })
+        .option('securitySchemeName', {
+            type: 'string',
+            description: 'Name of the security scheme requiring the API Key'
+        })
+        .option('securityCredentials', {
+            type: 'string',
+            description: 'JSON string containing security credentials for multiple schemes'
+        })
+        .option('headers', {
+            type: 'string',
+            description: 'JSON string containing custom headers to include in all API requests'
+        })
+        .option('watch', {
+            type: 'boolean',
+            description: 'Watch local spec and overlay files and reload the tools when they change'
+        })
+        .option('refreshInterval', {
+            type: 'number',
+            description: 'Seconds between checks of remote (HTTP) spec and overlay URLs for changes; 0 disables polling'
+        })
+        .option('forwardAuthorization', {
+            type: 'boolean',
+            description: 'In http/sse mode, forward each session\'s incoming Authorization header to the target API'
+        })
+        .option('sessionTimeout', {
+            type: 'number',
+            description: 'In http mode, seconds a session may stay idle before it is closed; 0 keeps idle sessions open'
+        })
+        .option('resourceTemplates', {
+            type: 'boolean',
+            description: 'Also expose GET lookups by path parameter (e.g. GET /pets/{petId}) as api:// resource templates'
+        })
+        .option('toolMode', {
+            type: 'string',
+            choices: ['tools', 'compact'],
+            description: 'How operations are offered: tools (one tool per operation, default) or compact (search_operations, describe_operation and invoke_operation meta-tools)'
+        })
+        .option('tagGroups', {
+            type: 'boolean',
+            description: 'Group the tools by OpenAPI tag, so clients can enable and disable each tag\'s tools at runtime'
+        })
+        .option('toolGroups', {
+            type: 'string',
+            description: 'JSON object of tool groups, e.g. {"billing":{"operations":["*Invoice*","*:/billing/*"],"enabled":false}}'
+        })
+        .option('disabledToolGroups', {
+            type: 'string',
+            description: 'Comma-separated tool groups (tags or configured groups) whose tools are not listed until a client enables them'
+        })
+        .option('maxBinarySize', {
+            type: 'number',
+            description: 'Largest binary response (bytes) returned inline as base64; larger ones are returned as a resource link'
+        })
+        .option('asyncOperations', {
+            type: 'string',
+            description: 'Comma-separated operationIds or URL paths whose 202 Accepted responses are polled until the job finishes (supports glob patterns)'
+        })
+        .option('asyncTimeout', {
+            type: 'number',
+            description: 'Seconds to wait for an asynchronous job (202 Accepted) to finish before giving up'
+        })
+        .option('progressInterval', {
+            type: 'number',
+            description: 'Seconds between progress notifications sent while waiting on slow API calls; 0 disables them'
+        })
+        .option('logLevel', {
+            type: 'string',
+            choices: LOG_LEVELS,
+            description: 'Lowest level of the logs written to stderr'
+        })
+        .option('logFormat', {
+            type: 'string',
+            choices: ['text', 'json'],
+            description: 'Format of the logs written to stderr: text (default) or json (one object per line)'
+        })
+        .option('redactFields', {
+            type: 'string',
+            description: 'Comma-separated body fields, parameters or headers whose values are redacted in logs, in addition to credentials'
+        })
+        .option('plugins', {
+            type: 'string',
+            description: 'Comma-separated paths of plugin modules whose hooks customize the mapped tools and the API calls'
+        })
+        .option('disableXMcp', {
+            type: 'boolean',
+            description: 'Disable adding X-MCP: 1 header to all API requests'
+        })
+        .help();
+    const argv = parser.parseSync();
+    // Unknown options are kept by yargs; they are reported with the other invalid options.
+    // getOptions lists the defined options and their aliases, but is missing from the yargs typings.
+    const { key: knownKeys } = (parser as unknown as { getOptions(): { key: Record<string, boolean> } }).getOptions();
+    return { argv, unknownOptions: getUnknownOptions(argv, Object.keys(knownKeys)) };
+}
 
 // Apply priority order: CLI arguments > Environment variables > Config file
 const getValueWithPriority = <T>(cliValue: T | undefined, envValue: T | undefined, configValue: T | undefined, defaultValue: T): T => {
@@ -164,151 +294,538 @@ const getValueWithPriority = <T>(cliValue: T | undefined, envValue: T | undefine
     return defaultValue;
 };
 
-// Parse environment variables
-const envValues = {
-    specPath: process.env.OPENAPI_SPEC_PATH,
-    overlays: process.env.OPENAPI_OVERLAY_PATHS,
-    port: process.env.MCP_SERVER_PORT ? parseInt(process.env.MCP_SERVER_PORT, 10) : undefined,
-    targetUrl: process.env.TARGET_API_BASE_URL,
-    whitelist: process.env.MCP_WHITELIST_OPERATIONS,
-    blacklist: process.env.MCP_BLACKLIST_OPERATIONS,
-    apiKey: process.env.API_KEY,
-    securitySchemeName: process.env.SECURITY_SCHEME_NAME,
-    securityCredentials: process.env.SECURITY_CREDENTIALS,
-    headers: process.env.CUSTOM_HEADERS,
-    disableXMcp: process.env.DISABLE_X_MCP === 'true'
-};
+// The environment variable of each option, and the type its value is parsed as
+const ENV_OPTIONS: Array<[keyof ConfigFile, string, 'string' | 'number' | 'boolean' | 'json']> = [
+    ['spec', 'OPENAPI_SPEC_PATH', 'string'],
+    ['overlays', 'OPENAPI_OVERLAY_PATHS', 'string'],
+    ['port', 'MCP_SERVER_PORT', 'number'],
+    ['transport', 'MCP_TRANSPORT', 'string'],
+    ['targetUrl', 'TARGET_API_BASE_URL', 'string'],
+    ['whitelist', 'MCP_WHITELIST_OPERATIONS', 'string'],
+    ['blacklist', 'MCP_BLACKLIST_OPERATIONS', 'string'],
+    ['apiKey', 'API_KEY', 'string'],
+    ['securitySchemeName', 'SECURITY_SCHEME_NAME', 'string'],
+    ['securityCredentials', 'SECURITY_CREDENTIALS', 'json'],
+    ['headers', 'CUSTOM_HEADERS', 'json'],
+    ['disableXMcp', 'DISABLE_X_MCP', 'boolean'],
+    ['forwardAuthorization', 'FORWARD_AUTHORIZATION', 'boolean'],
+    ['sessionTimeout', 'MCP_SESSION_TIMEOUT', 'number'],
+    ['watch', 'MCP_WATCH', 'boolean'],
+    ['refreshInterval', 'SPEC_REFRESH_INTERVAL', 'number'],
+    ['resourceTemplates', 'MCP_RESOURCE_TEMPLATES', 'boolean'],
+    ['toolMode', 'MCP_TOOL_MODE', 'string'],
+    ['tagGroups', 'MCP_TAG_GROUPS', 'boolean'],
+    ['toolGroups', 'MCP_TOOL_GROUPS', 'json'],
+    ['disabledToolGroups', 'MCP_DISABLED_TOOL_GROUPS', 'string'],
+    ['maxBinarySize', 'MAX_BINARY_RESPONSE_SIZE', 'number'],
+    ['progressInterval', 'MCP_PROGRESS_INTERVAL', 'number'],
+    ['asyncOperations', 'MCP_ASYNC_OPERATIONS', 'string'],
+    ['asyncTimeout', 'ASYNC_JOB_TIMEOUT', 'number'],
+    ['logLevel', 'LOG_LEVEL', 'string'],
+    ['logFormat', 'LOG_FORMAT', 'string'],
+    ['redactFields', 'LOG_REDACT_FIELDS', 'string'],
+    ['plugins', 'MCP_PLUGINS', 'string'],
+];
 
-// Apply priority to key configuration values
-const specPath = getValueWithPriority(argv.spec, envValues.specPath, jsonConfig.spec, '');
-const overlays = getValueWithPriority(argv.overlays, envValues.overlays, jsonConfig.overlays, '');
-const port = getValueWithPriority(argv.port, envValues.port, jsonConfig.port, 8080);
-const targetUrl = getValueWithPriority(argv.targetUrl, envValues.targetUrl, jsonConfig.targetUrl, '');
-const whitelist = getValueWithPriority(argv.whitelist, envValues.whitelist, jsonConfig.whitelist, '');
-const blacklist = getValueWithPriority(argv.blacklist, envValues.blacklist, jsonConfig.blacklist, '');
-const apiKey = getValueWithPriority(argv.apiKey, envValues.apiKey, jsonConfig.apiKey, '');
-const securitySchemeName = getValueWithPriority(
-    argv.securitySchemeName, 
-    envValues.securitySchemeName, 
-    jsonConfig.securitySchemeName, 
-    ''
-);
-
-if (!specPath) {
-    console.error("Error: OpenAPI specification path is required. Set OPENAPI_SPEC_PATH environment variable, use --spec option, or specify in config file.");
-    process.exit(1);
+// Options whose value may be given as a JSON string
+const JSON_OPTIONS = ['securityCredentials', 'headers', 'toolGroups'];
+
+/**
+ * Reads the options set in the environment. Numbers and booleans that cannot be parsed are kept
+ * as strings, so that validation reports them; empty ones are ignored.
+ * @param env The environment variables
+ * @returns The options, keyed by option name
+ */
+function readEnvValues(env: NodeJS.ProcessEnv): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    for (const [option, name, type] of ENV_OPTIONS) {
+        const value = env[name];
+        if (value === undefined || (value === '' && type !== 'string')) continue;
+        if (type === 'number') {
+            values[option] = value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+        } else if (type === 'boolean') {
+            values[option] = value === 'true' ? true : value === 'false' ? false : value;
+        } else {
+            values[option] = value;
+        }
+    }
+    return values;
 }
 
-// Parse security credentials if present
-let securityCredentials: Record<string, string> = {};
+/**
+ * Parses the options given as JSON strings, then validates the options of one source against the config file schema
+ * @param values The options, keyed by option name; JSON strings are replaced by the parsed values
+ * @param describe Names the offending value of an issue, e.g. "MCP_SERVER_PORT" or "config.json: spec[1].name"
+ * @returns The problems found, one line each
+ */
+function validateSource(values: Record<string, unknown>, describe: (issuePath: (string | number)[]) => string): string[] {
+    const problems: string[] = [];
+    for (const option of JSON_OPTIONS) {
+        if (typeof values[option] !== 'string') continue;
+        try {
+            values[option] = JSON.parse(values[option] as string);
+        } catch (error) {
+            problems.push(`${describe([option])}: Invalid JSON: ${(error as Error).message}`);
+            delete values[option];
+        }
+    }
+    return [...problems, ...validateConfigValues(values).map(issue => `${describe(issue.path)}: ${issue.message}`)];
+}
 
-// CLI has highest priority
-if (argv.securityCredentials) {
-    try {
-        securityCredentials = JSON.parse(argv.securityCredentials);
-    } catch (e) {
-        console.error('Failed to parse security credentials JSON from CLI:', e);
+// Server options, with where each of them comes from
+export interface LoadedConfig {
+    options: OpenApiMcpServerOptions;
+    sources: Partial<Record<keyof OpenApiMcpServerOptions, string>>; // Source of each option set, e.g. "ENV (MCP_SERVER_PORT)"
+    configPath?: string; // The config file read, if any
+}
+
+/**
+ * Gathers the server options from the command line, the environment (and .env file) and the config file.
+ * A value given on the command line wins over the environment, which wins over the config file.
+ * Options set nowhere are left out, so resolveConfig applies its defaults.
+ * @param args The command-line arguments, without the node executable and script
+ * @param env The environment variables
+ * @returns The server options
+ * @throws ConfigError listing every problem if an option of any source does not match the config file schema
+ */
+export function loadConfig(args: string[] = hideBin(process.argv), env: NodeJS.ProcessEnv = process.env): OpenApiMcpServerOptions {
+    return loadConfigWithSources(args, env).options;
+}
+
+/**
+ * Gathers the server options like loadConfig, recording which source each option was taken from
+ * @param args The command-line arguments, without the node executable and script
+ * @param env The environment variables
+ * @returns The server options, their sources and the config file read
+ * @throws ConfigError listing every problem if an option of any source does not match the config file schema
+ */
+export function loadConfigWithSources(args: string[] = hideBin(process.argv), env: NodeJS.ProcessEnv = process.env): LoadedConfig {
+    dotenv.config({ processEnv: env as Record<string, string> });
+    const { argv, unknownOptions } = parseArgs(args);
+    const configFile = loadConfigFile(argv.config, env);
+
+    // Validate each source against the schema, naming the offending values as they were given
+    const cliValues: Record<string, unknown> = {};
+    for (const option of [...Object.keys(configFileSchema.shape), ...unknownOptions]) {
+        if ((argv as Record<string, unknown>)[option] !== undefined) {
+            cliValues[option] = (argv as Record<string, unknown>)[option];
+        }
     }
-} else if (envValues.securityCredentials) {
-    // Then environment variables
-    try {
-        securityCredentials = JSON.parse(envValues.securityCredentials);
-    } catch (e) {
-        console.error('Failed to parse security credentials JSON from ENV:', e);
+    const envValues = readEnvValues(env);
+    const envNames = new Map<string | number, string>(ENV_OPTIONS.map(([option, name]) => [option, name]));
+    const problems = [
+        ...validateSource(cliValues, ([option, ...rest]) => formatConfigPath([`--${option}`, ...rest])),
+        ...validateSource(envValues, ([option, ...rest]) => formatConfigPath([envNames.get(option) || option, ...rest])),
+        ...validateSource(configFile.values, issuePath => `${configFile.path}: ${formatConfigPath(issuePath)}`),
+    ];
+    if (problems.length > 0) {
+        throw new ConfigError(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`, problems);
     }
-} else if (jsonConfig.securityCredentials) {
-    // Then config file
-    if (typeof jsonConfig.securityCredentials === 'string') {
-        try {
-            securityCredentials = JSON.parse(jsonConfig.securityCredentials);
-        } catch (e) {
-            console.error('Failed to parse security credentials JSON from config file:', e);
+
+    // Once validated, the JSON strings are parsed and every value has the type of its option
+    const cli = cliValues as Partial<OpenApiMcpServerOptions>;
+    const envOptions = envValues as Partial<OpenApiMcpServerOptions>;
+    const jsonConfig = configFile.values as Partial<OpenApiMcpServerOptions>;
+
+    // The source of a value is found with the same priority order as the value itself
+    const sources: LoadedConfig['sources'] = {};
+    const option = <K extends keyof OpenApiMcpServerOptions>(key: K): OpenApiMcpServerOptions[K] | undefined => {
+        const source = getValueWithPriority(
+            cli[key] !== undefined ? `CLI (--${key})` : undefined,
+            envOptions[key] !== undefined ? `ENV (${envNames.get(key)})` : undefined,
+            jsonConfig[key] !== undefined ? `file (${configFile.path})` : undefined,
+            undefined
+        );
+        if (source) sources[key] = source;
+        return getValueWithPriority(cli[key], envOptions[key], jsonConfig[key], undefined);
+    };
+
+    // HEADER_* environment variables add headers to those of the first source setting them
+    const headers: Record<string, string> = {};
+    Object.keys(env).forEach(key => {
+        if (key.startsWith('HEADER_')) {
+            const headerName = key.substring(7); // Remove 'HEADER_' prefix
+            headers[headerName] = env[key] || '';
         }
-    } else if (typeof jsonConfig.securityCredentials === 'object') {
-        securityCredentials = jsonConfig.securityCredentials;
+    });
+    const headerVariables = Object.keys(headers).length > 0;
+    Object.assign(headers, option('headers'));
+    if (headerVariables) {
+        sources.headers = sources.headers ? `${sources.headers} + ENV (HEADER_*)` : 'ENV (HEADER_*)';
     }
+
+    const options: OpenApiMcpServerOptions = {
+        // A list of specs in the config file mounts several specs, unless a single spec is given on the command line or in the environment
+        spec: option('spec') ?? '',
+        overlays: option('overlays'),
+        targetUrl: option('targetUrl'),
+        whitelist: option('whitelist'),
+        blacklist: option('blacklist'),
+        apiKey: option('apiKey'),
+        securitySchemeName: option('securitySchemeName'),
+        securityCredentials: option('securityCredentials'),
+        headers,
+        transport: option('transport'),
+        port: option('port'),
+        forwardAuthorization: option('forwardAuthorization'),
+        sessionTimeout: option('sessionTimeout'),
+        disableXMcp: option('disableXMcp'),
+        watch: option('watch'),
+        refreshInterval: option('refreshInterval'),
+        resourceTemplates: option('resourceTemplates'),
+        toolMode: option('toolMode'),
+        tagGroups: option('tagGroups'),
+        toolGroups: option('toolGroups'),
+        disabledToolGroups: option('disabledToolGroups'),
+        maxBinarySize: option('maxBinarySize'),
+        progressInterval: option('progressInterval'),
+        asyncOperations: option('asyncOperations'),
+        asyncTimeout: option('asyncTimeout'),
+        logLevel: option('logLevel'),
+        logFormat: option('logFormat'),
+        redactFields: option('redactFields'),
+        plugins: option('plugins'),
+    };
+    return { options, sources, configPath: configFile.path };
 }
 
-// Parse custom headers with same priority
-let customHeaders: Record<string, string> = { ...customHeadersFromEnv };
+/**
+ * Resolves a local spec or overlay path against the working directory; URLs are kept as they are
+ * @param specOrOverlayPath The configured path or URL
+ * @returns The absolute path, or the URL
+ */
+function resolveSpecPath(specOrOverlayPath: string): string {
+    const trimmed = specOrOverlayPath.trim();
+    return isHttpUrl(trimmed) ? trimmed : path.resolve(trimmed);
+}
 
-// CLI has highest priority
-if (argv.headers) {
-    try {
-        const headersFromArg = JSON.parse(argv.headers);
-        customHeaders = { ...customHeaders, ...headersFromArg };
-    } catch (e) {
-        console.error('Failed to parse custom headers JSON from CLI:', e);
+/**
+ * Converts a comma-separated list, or an array from the config file, to its trimmed entries
+ * @param value The configured value
+ * @returns The entries, without empty ones
+ */
+function toList(value: unknown): string[] {
+    const items = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? value.split(',') : [];
+    return items.map(item => item.trim()).filter(item => item !== '');
+}
+
+/**
+ * Validates the entries of a `spec` list in the config file and converts them to spec sources.
+ * Each entry has its own overlays, target URL, filters and credentials; the custom headers
+ * configured globally are sent to every API, merged with the entry's own headers.
+ * @param entries The configured entries
+ * @param customHeaders The headers configured for every spec
+ * @returns One spec source per entry, namespaced by the entry name
+ * @throws ConfigError if an entry is invalid or two entries share a name
+ */
+function parseSpecEntries(entries: SpecEntryOptions[], customHeaders: Record<string, string>): SpecSource[] {
+    const sources: SpecSource[] = [];
+    if (entries.length === 0) {
+        throw new ConfigError('The "spec" list is empty.');
     }
-} else if (envValues.headers) {
-    // Then environment variables
-    try {
-        const headersFromEnv = JSON.parse(envValues.headers);
-        customHeaders = { ...customHeaders, ...headersFromEnv };
-    } catch (e) {
-        console.error('Failed to parse custom headers JSON from ENV:', e);
+
+    entries.forEach((entry: any, index) => {
+        if (!entry || typeof entry !== 'object' || typeof entry.spec !== 'string' || !entry.spec) {
+            throw new ConfigError(`Entry ${index} of the "spec" list needs a "spec" path or URL.`);
+        }
+        if (typeof entry.name !== 'string' || !/^[A-Za-z0-9_-]+$/.test(entry.name)) {
+            throw new ConfigError(`Entry ${index} of the "spec" list needs a "name" made of letters, digits, "_" and "-".`);
+        }
+        if (sources.some(source => source.namespace === entry.name)) {
+            throw new ConfigError(`The name '${entry.name}' is used by more than one entry of the "spec" list.`);
+        }
+
+        const entryWhitelist = toList(entry.whitelist);
+        sources.push({
+            namespace: entry.name,
+            toolPrefix: typeof entry.prefix === 'string' ? entry.prefix : `${entry.name}_`,
+            specPath: resolveSpecPath(entry.spec),
+            overlayPaths: toList(entry.overlays).map(resolveSpecPath),
+            targetApiBaseUrl: entry.targetUrl || undefined,
+            filter: {
+                whitelist: entryWhitelist.length > 0 ? entryWhitelist : null,
+                blacklist: toList(entry.blacklist),
+            },
+            apiKey: entry.apiKey || undefined,
+            securityCredentials: entry.securityCredentials && typeof entry.securityCredentials === 'object' ? entry.securityCredentials : {},
+            customHeaders: { ...customHeaders, ...(entry.headers && typeof entry.headers === 'object' ? entry.headers : {}) },
+        });
+    });
+    return sources;
+}
+
+/**
+ * Validates the configured tool groups. Each group is an object with the `operations` it contains
+ * (operationIds or URL paths, with the same glob patterns as the whitelist) and whether it starts
+ * `enabled`, or just the list of operations.
+ * @param value The configured groups
+ * @returns The operation patterns of each group, and the groups that start disabled
+ * @throws ConfigError if a group has no operations
+ */
+function parseToolGroups(value: unknown): { groups: Record<string, string[]>; disabled: string[] } {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new ConfigError('Tool groups must be an object mapping group names to their operations.');
     }
-} else if (jsonConfig.headers) {
-    // Then config file
-    if (typeof jsonConfig.headers === 'string') {
-        try {
-            const headersFromConfig = JSON.parse(jsonConfig.headers);
-            customHeaders = { ...customHeaders, ...headersFromConfig };
-        } catch (e) {
-            console.error('Failed to parse custom headers JSON from config file:', e);
+
+    const groups: Record<string, string[]> = {};
+    const disabled: string[] = [];
+    for (const [name, group] of Object.entries(value as Record<string, any>)) {
+        const operations = toList(group && typeof group === 'object' && !Array.isArray(group) ? group.operations : group);
+        if (operations.length === 0) {
+            throw new ConfigError(`Tool group '${name}' needs a list of operations.`);
+        }
+        groups[name] = operations;
+        if (group?.enabled === false) {
+            disabled.push(name);
         }
-    } else if (typeof jsonConfig.headers === 'object') {
-        customHeaders = { ...customHeaders, ...jsonConfig.headers };
     }
+    return { groups, disabled };
 }
 
-// Determine disableXMcp value with correct priority
-const disableXMcp = argv.disableXMcp !== undefined ? argv.disableXMcp :
-                    envValues.disableXMcp !== undefined ? envValues.disableXMcp :
-                    jsonConfig.disableXMcp !== undefined ? jsonConfig.disableXMcp : false;
-
-// Generate the final configuration object with correct priorities applied
-export const config = {
-    specPath: isHttpUrl(specPath) ? specPath : path.resolve(specPath),
-    overlayPaths: overlays
-        ? overlays.split(',').map((p: string) => isHttpUrl(p.trim()) ? p.trim() : path.resolve(p.trim()))
-        : [],
-    mcpPort: port,
-    targetApiBaseUrl: targetUrl, // Now properly respects priority
-    apiKey,
-    securitySchemeName,
-    securityCredentials,
-    customHeaders,
-    disableXMcp,
-    filter: {
-        whitelist: whitelist ? whitelist.split(',').map((pattern: string) => pattern.trim()) : null,
-        blacklist: blacklist ? blacklist.split(',').map((pattern: string) => pattern.trim()) : [],
-    },
+// The configuration used by the functions taking one when none is passed: the defaults, without any spec.
+// Servers created with createOpenApiMcpServer pass their own configuration along instead.
+export const config: ServerConfig = {
+    specPath: '',
+    overlayPaths: [],
+    specs: [],
+    mcpPort: 8080,
+    transport: 'stdio',
+    targetApiBaseUrl: '',
+    apiKey: '',
+    securitySchemeName: '',
+    securityCredentials: {},
+    customHeaders: {},
+    disableXMcp: false,
+    forwardAuthorization: false,
+    sessionTimeout: 30 * 60,
+    watch: false,
+    refreshInterval: 0,
+    resourceTemplates: false,
+    toolMode: 'tools',
+    tagGroups: false,
+    toolGroups: {},
+    disabledToolGroups: [],
+    maxBinarySize: 1024 * 1024,
+    progressInterval: 5,
+    asyncOperations: [],
+    asyncTimeout: 300,
+    logLevel: 'info',
+    logFormat: 'text',
+    redactFields: [],
+    plugins: [],
+    filter: { whitelist: null, blacklist: [] },
 };
 
-console.error('Configuration loaded:');
-console.error(`- OpenAPI Spec: ${config.specPath}`);
-if (config.overlayPaths.length > 0) {
-    console.error(`- Overlays: ${config.overlayPaths.join(', ')}`);
-}
-console.error(`- MCP Server Port: ${config.mcpPort}`);
-if (config.targetApiBaseUrl) {
-    console.error(`- Target API Base URL: ${config.targetApiBaseUrl}`);
-} else {
-    console.error(`- Target API Base URL: Will use 'servers' from OpenAPI spec.`);
-}
-if (config.filter.whitelist) {
-    console.error(`- Whitelist Patterns: ${config.filter.whitelist.join(', ')} (supports glob patterns for operationId and URL paths)`);
-} else if (config.filter.blacklist.length > 0) {
-    console.error(`- Blacklist Patterns: ${config.filter.blacklist.join(', ')} (supports glob patterns for operationId and URL paths)`);
+/**
+ * Validates server options and applies the defaults
+ * @param options The server options
+ * @returns The configuration of the server
+ * @throws ConfigError if an option is missing or invalid
+ */
+export function resolveConfig(options: OpenApiMcpServerOptions): ServerConfig {
+    const logLevel: string = options.logLevel ?? config.logLevel;
+    const logFormat: string = options.logFormat ?? config.logFormat;
+    if (!isLogLevel(logLevel)) {
+        throw new ConfigError(`Unsupported log level '${logLevel}'. Supported levels are: ${LOG_LEVELS.join(', ')}.`);
+    }
+    if (logFormat !== 'text' && logFormat !== 'json') {
+        throw new ConfigError(`Unsupported log format '${logFormat}'. Supported formats are: text, json.`);
+    }
+
+    const transport: string = options.transport ?? config.transport;
+    const supportedTransports = ['stdio', 'http', 'sse'];
+    if (!supportedTransports.includes(transport)) {
+        throw new ConfigError(`Unsupported transport '${transport}'. Supported transports are: ${supportedTransports.join(', ')}.`);
+    }
+
+    const toolMode: string = options.toolMode ?? config.toolMode;
+    if (toolMode !== 'tools' && toolMode !== 'compact') {
+        throw new ConfigError(`Unsupported tool mode '${toolMode}'. Supported modes are: tools, compact.`);
+    }
+
+    if (!options.spec) {
+        throw new ConfigError('OpenAPI specification path is required. Set OPENAPI_SPEC_PATH environment variable, use --spec option, or specify in config file.');
+    }
+
+    const specPath = Array.isArray(options.spec) ? '' : resolveSpecPath(options.spec);
+    const overlayPaths = toList(options.overlays).map(resolveSpecPath);
+    const whitelist = toList(options.whitelist);
+    const filter = {
+        whitelist: whitelist.length > 0 ? whitelist : null,
+        blacklist: toList(options.blacklist),
+    };
+    const apiKey = options.apiKey || '';
+    const securityCredentials = options.securityCredentials || {};
+    const customHeaders = options.headers || {};
+    const toolGroups = parseToolGroups(options.toolGroups ?? {});
+
+    // Plugins are given as module paths, or as plugin objects when embedding
+    const plugins = (Array.isArray(options.plugins) ? options.plugins : toList(options.plugins)).map(entry => {
+        try {
+            return loadPlugin(entry);
+        } catch (error) {
+            throw new ConfigError((error as Error).message);
+        }
+    });
+
+    const resolved: ServerConfig = {
+        specPath,
+        overlayPaths,
+        // The specs to serve: the entries of a `spec` list, or the single spec configured at the top level
+        specs: Array.isArray(options.spec)
+            ? parseSpecEntries(options.spec, customHeaders)
+            : [{ specPath, overlayPaths, targetApiBaseUrl: options.targetUrl || undefined, filter, apiKey, securityCredentials, customHeaders }],
+        mcpPort: options.port ?? config.mcpPort,
+        transport: transport as ServerConfig['transport'],
+        targetApiBaseUrl: options.targetUrl || '',
+        apiKey,
+        securitySchemeName: options.securitySchemeName || '',
+        securityCredentials,
+        customHeaders,
+        disableXMcp: options.disableXMcp ?? config.disableXMcp,
+        forwardAuthorization: options.forwardAuthorization ?? config.forwardAuthorization,
+        sessionTimeout: options.sessionTimeout ?? config.sessionTimeout,
+        watch: options.watch ?? config.watch,
+        refreshInterval: options.refreshInterval ?? config.refreshInterval,
+        resourceTemplates: options.resourceTemplates ?? config.resourceTemplates,
+        toolMode,
+        tagGroups: options.tagGroups ?? config.tagGroups,
+        toolGroups: toolGroups.groups,
+        disabledToolGroups: [...new Set([...toList(options.disabledToolGroups), ...toolGroups.disabled])],
+        maxBinarySize: options.maxBinarySize ?? config.maxBinarySize,
+        progressInterval: options.progressInterval ?? config.progressInterval,
+        asyncOperations: toList(options.asyncOperations),
+        asyncTimeout: options.asyncTimeout ?? config.asyncTimeout,
+        logLevel,
+        logFormat,
+        redactFields: toList(options.redactFields),
+        plugins,
+        filter,
+    };
+
+    // Logged like the server will log, at its level and without its credentials
+    withLogContext(createServerLogContext(resolved), () => log.info('Configuration loaded', {
+        ...(Array.isArray(options.spec)
+            ? {
+                specs: resolved.specs.map(source => ({
+                    namespace: source.namespace,
+                    toolPrefix: source.toolPrefix,
+                    specPath: source.specPath,
+                    targetApiBaseUrl: source.targetApiBaseUrl || "Will use 'servers' from OpenAPI spec",
+                })),
+            }
+            : {
+                specPath: resolved.specPath,
+                targetApiBaseUrl: resolved.targetApiBaseUrl || "Will use 'servers' from OpenAPI spec",
+            }),
+        ...(resolved.overlayPaths.length > 0 ? { overlayPaths: resolved.overlayPaths } : {}),
+        transport: resolved.transport,
+        port: resolved.mcpPort,
+        // Whitelist and blacklist entries support glob patterns for operationId and URL paths
+        ...(resolved.filter.whitelist ? { whitelist: resolved.filter.whitelist } : {}),
+        ...(!resolved.filter.whitelist && resolved.filter.blacklist.length > 0 ? { blacklist: resolved.filter.blacklist } : {}),
+        ...(Object.keys(resolved.securityCredentials).length > 0 ? { securityCredentials: Object.keys(resolved.securityCredentials) } : {}),
+        ...(resolved.apiKey ? { apiKey: '[REDACTED]' } : {}),
+        ...(Object.keys(resolved.customHeaders).length > 0 ? { customHeaders: Object.keys(resolved.customHeaders) } : {}),
+        xMcpHeader: !resolved.disableXMcp,
+        resourceTemplates: resolved.resourceTemplates,
+        toolMode: resolved.toolMode,
+        ...(resolved.tagGroups ? { tagGroups: true } : {}),
+        ...(Object.keys(resolved.toolGroups).length > 0 ? { toolGroups: Object.keys(resolved.toolGroups) } : {}),
+        ...(resolved.disabledToolGroups.length > 0 ? { disabledToolGroups: resolved.disabledToolGroups } : {}),
+        maxBinarySize: resolved.maxBinarySize,
+        ...(resolved.asyncOperations.length > 0 ? { asyncOperations: resolved.asyncOperations, asyncTimeout: resolved.asyncTimeout } : {}),
+        progressInterval: resolved.progressInterval,
+        watch: resolved.watch,
+        ...(resolved.refreshInterval > 0 ? { refreshInterval: resolved.refreshInterval } : {}),
+        ...(resolved.transport !== 'stdio' ? { forwardAuthorization: resolved.forwardAuthorization } : {}),
+        ...(resolved.transport === 'http' ? { sessionTimeout: resolved.sessionTimeout } : {}),
+        logLevel: resolved.logLevel,
+        ...(resolved.redactFields.length > 0 ? { redactFields: resolved.redactFields } : {}),
+        ...(resolved.plugins.length > 0 ? { plugins: resolved.plugins.map(plugin => plugin.name) } : {}),
+    }));
+    return resolved;
 }
-if (Object.keys(config.securityCredentials).length > 0) {
-    console.error(`- Security Credentials: ${Object.keys(config.securityCredentials).join(', ')}`);
+
+/**
+ * Creates the log context of a server: its log level and format, and rules that keep its credentials
+ * out of the logs. Custom headers may carry tokens, and the configured fields PII.
+ * @param serverConfig The configuration of the server
+ * @returns The log context
+ */
+export function createServerLogContext(serverConfig: ServerConfig): LogContext {
+    const redaction = createRedactionRules();
+    addSensitiveNames(redaction, serverConfig.redactFields);
+    for (const source of serverConfig.specs) {
+        addSensitiveNames(redaction, Object.keys(source.customHeaders));
+        addSecretValues(redaction, [source.apiKey, ...Object.values(source.securityCredentials)]);
+    }
+    return createLogContext({ level: serverConfig.logLevel, format: serverConfig.logFormat, redaction });
 }
-if (config.apiKey) {
-    console.error('- API Key: [REDACTED]');
+
+// Defaults resolveConfig applies to the options left unset, by option name
+const OPTION_DEFAULTS: Partial<Record<keyof OpenApiMcpServerOptions, unknown>> = {
+    transport: config.transport,
+    port: config.mcpPort,
+    disableXMcp: config.disableXMcp,
+    forwardAuthorization: config.forwardAuthorization,
+    sessionTimeout: config.sessionTimeout,
+    watch: config.watch,
+    refreshInterval: config.refreshInterval,
+    resourceTemplates: config.resourceTemplates,
+    toolMode: config.toolMode,
+    tagGroups: config.tagGroups,
+    maxBinarySize: config.maxBinarySize,
+    progressInterval: config.progressInterval,
+    asyncTimeout: config.asyncTimeout,
+    logLevel: config.logLevel,
+    logFormat: config.logFormat,
+};
+
+/**
+ * Masks the credentials of an option value: the API key, the values of the security credentials and
+ * headers, including those of the entries of a `spec` list, and these secrets found in other values
+ * @param key The option name
+ * @param value The option value
+ * @param secrets The credentials of the configuration
+ * @returns A masked copy of the value
+ */
+function maskOptionValue(key: string, value: unknown, secrets: RedactionRules): unknown {
+    const maskValues = (values: unknown) => values && typeof values === 'object'
+        ? Object.fromEntries(Object.keys(values).map(name => [name, REDACTED]))
+        : values;
+
+    if (key === 'apiKey') return value ? REDACTED : value;
+    if (key === 'securityCredentials' || key === 'headers') return maskValues(value);
+    if (key === 'spec' && Array.isArray(value)) {
+        return value.map((entry: SpecEntryOptions) => redact(secrets, {
+            ...entry,
+            ...(entry.apiKey ? { apiKey: REDACTED } : {}),
+            ...(entry.securityCredentials ? { securityCredentials: maskValues(entry.securityCredentials) } : {}),
+            ...(entry.headers ? { headers: maskValues(entry.headers) } : {}),
+        }));
+    }
+    return redact(secrets, value);
 }
-if (Object.keys(config.customHeaders).length > 0) {
-    console.error(`- Custom Headers: ${Object.keys(config.customHeaders).join(', ')}`);
+
+/**
+ * Lists the effective value of every option and the source it was taken from, with credentials masked.
+ * Options set nowhere are listed with their default, and left out if they have none.
+ * @param loaded The options and their sources, as gathered by loadConfigWithSources
+ * @returns One entry per option, in the order of the config file schema
+ */
+export function describeConfig(loaded: LoadedConfig): Array<{ option: string; value: unknown; source: string }> {
+    const options = loaded.options as unknown as Record<string, unknown>;
+    // Credentials may also turn up in other values, e.g. an API key in a URL
+    const secrets = createRedactionRules();
+    const specEntries = Array.isArray(loaded.options.spec) ? loaded.options.spec : [];
+    addSecretValues(secrets, [loaded.options, ...specEntries].flatMap(entry => [entry.apiKey, ...Object.values(entry.securityCredentials || {})]));
+
+    return (Object.keys(configFileSchema.shape) as Array<keyof OpenApiMcpServerOptions>).flatMap(key => {
+        const source = loaded.sources[key];
+        if (source) {
+            return [{ option: key, value: maskOptionValue(key, options[key], secrets), source }];
+        }
+        return key in OPTION_DEFAULTS ? [{ option: key, value: OPTION_DEFAULTS[key], source: 'default' }] : [];
+    });
 }
-console.error(`- X-MCP Header: ${config.disableXMcp ? 'Disabled' : 'Enabled'}`);
\ No newline at end of file
@@ -0,0 +1,168 @@
+import { z } from 'zod/v4';
+import { LOG_LEVELS } from './utils/logger';
+
+// A list, given as a comma-separated string or as an array
+const stringList = z.union([z.string(), z.array(z.string())]);
+
+// Credentials or headers keyed by name; a JSON string is also accepted, as on the command line
+const stringMap = z.union([z.record(z.string(), z.string()), z.string()]);
+
+const specEntrySchema = z.strictObject({
+    name: z.string().regex(/^[A-Za-z0-9_-]+$/, 'Invalid name: use letters, digits, "_" and "-"'),
+    spec: z.string().min(1),
+    prefix: z.string().optional(),
+    overlays: stringList.optional(),
+    targetUrl: z.string().optional(),
+    whitelist: stringList.optional(),
+    blacklist: stringList.optional(),
+    apiKey: z.string().optional(),
+    securityCredentials: z.record(z.string(), z.string()).optional(),
+    headers: z.record(z.string(), z.string()).optional(),
+});
+
+const toolGroupSchema = z.union([
+    stringList,
+    z.strictObject({ operations: stringList, enabled: z.boolean().optional() }),
+]);
+
+// Every option of the config file; environment variables and command-line options are validated against it too
+export const configFileSchema = z.strictObject({
+    spec: z.union([z.string(), z.array(specEntrySchema).min(1)]).optional(),
+    overlays: stringList.optional(),
+    transport: z.enum(['stdio', 'http', 'sse']).optional(),
+    port: z.number().int().min(0).max(65535).optional(),
+    targetUrl: z.string().optional(),
+    whitelist: stringList.optional(),
+    blacklist: stringList.optional(),
+    apiKey: z.string().optional(),
+    securitySchemeName: z.string().optional(),
+    securityCredentials: stringMap.optional(),
+    headers: stringMap.optional(),
+    disableXMcp: z.boolean().optional(),
+    forwardAuthorization: z.boolean().optional(),
+    sessionTimeout: z.number().min(0).optional(),
+    watch: z.boolean().optional(),
+    refreshInterval: z.number().min(0).optional(),
+    resourceTemplates: z.boolean().optional(),
+    toolMode: z.enum(['tools', 'compact']).optional(),
+    tagGroups: z.boolean().optional(),
+    toolGroups: z.union([z.record(z.string(), toolGroupSchema), z.string()]).optional(),
+    disabledToolGroups: stringList.optional(),
+    maxBinarySize: z.number().int().min(0).optional(),
+    progressInterval: z.number().min(0).optional(),
+    asyncOperations: stringList.optional(),
+    asyncTimeout: z.number().min(0).optional(),
+    logLevel: z.enum(LOG_LEVELS as [string, ...string[]]).optional(),
+    logFormat: z.enum(['text', 'json']).optional(),
+    redactFields: stringList.optional(),
+    plugins: stringList.optional(),
+});
+
+export type ConfigFile = z.infer<typeof configFileSchema>;
+
+// A problem found in the configuration
+export interface ConfigIssue {
+    path: (string | number)[]; // Path of the offending value, e.g. ['spec', 1, 'name']
+    message: string;
+}
+
+/**
+ * Formats the path of a value, e.g. spec[1].name
+ * @param path The path segments
+ * @returns The formatted path
+ */
+export function formatConfigPath(path: (string | number)[]): string {
+    return path.map((segment, index) => typeof segment === 'number' ? `[${segment}]` : index === 0 ? segment : `.${segment}`).join('');
+}
+
+/**
+ * Finds the option a misspelled key was probably meant to be
+ * @param key The unknown key
+ * @returns The closest option name, if any is close enough
+ */
+function suggestOption(key: string): string | undefined {
+    const distance = (a: string, b: string): number => {
+        const row = Array.from({ length: b.length + 1 }, (_, index) => index);
+        for (let i = 1; i <= a.length; i++) {
+            let previous = row[0];
+            row[0] = i;
+            for (let j = 1; j <= b.length; j++) {
+                const current = row[j];
+                row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1));
+                previous = current;
+            }
+        }
+        return row[b.length];
+    };
+    const candidates = Object.keys(configFileSchema.shape)
+        .map(option => ({ option, distance: distance(key, option) }))
+        .filter(candidate => candidate.distance <= 2)
+        .sort((a, b) => a.distance - b.distance);
+    return candidates[0]?.option;
+}
+
+/**
+ * Checks whether an issue is about the type of the value itself, e.g. a number given for a string or a list
+ * @param issue The zod issue
+ * @returns True for a wrong type, or a union none of whose alternatives matches the type
+ */
+function isTypeMismatch(issue: z.core.$ZodIssue): boolean {
+    if (issue.path.length > 0) return false;
+    if (issue.code === 'invalid_type') return true;
+    return issue.code === 'invalid_union' && issue.errors.every(branch => branch.every(isTypeMismatch));
+}
+
+/**
+ * Collects the wrong type issues of a type mismatch, from every alternative of a union
+ * @param issue The zod issue, a type mismatch
+ * @returns The wrong type issues, one per expected type
+ */
+function typeIssues(issue: z.core.$ZodIssue): z.core.$ZodIssueInvalidType[] {
+    if (issue.code === 'invalid_type') return [issue];
+    return issue.code === 'invalid_union' ? issue.errors.flatMap(branch => branch.flatMap(typeIssues)) : [];
+}
+
+/**
+ * Converts zod issues to config issues. Failed unions are reported through the alternative that got
+ * furthest, so nested problems keep their path; unknown keys are reported one by one.
+ * @param issues The zod issues
+ * @param basePath The path the issues are relative to
+ * @returns The config issues
+ */
+function toConfigIssues(issues: z.core.$ZodIssue[], basePath: (string | number)[] = []): ConfigIssue[] {
+    return issues.flatMap((issue): ConfigIssue[] => {
+        const path = [...basePath, ...issue.path.map(segment => typeof segment === 'symbol' ? String(segment) : segment)];
+
+        if (issue.code === 'unrecognized_keys') {
+            return issue.keys.map(key => {
+                const suggestion = path.length === 0 ? suggestOption(key) : undefined;
+                return { path: [...path, key], message: `Unknown option${suggestion ? ` (did you mean '${suggestion}'?)` : ''}` };
+            });
+        }
+
+        if (issue.code === 'invalid_union') {
+            const deeper = issue.errors.filter(branch => !branch.every(isTypeMismatch));
+            if (deeper.length === 1) {
+                return toConfigIssues(deeper[0], path);
+            }
+            const mismatches = typeIssues(issue);
+            if (deeper.length === 0 && mismatches.length > 0) {
+                const expected = [...new Set(mismatches.map(mismatch => mismatch.expected))];
+                const received = /received (\w+)/.exec(mismatches[0].message)?.[1];
+                return [{ path, message: `Invalid input: expected ${expected.join(' or ')}${received ? `, received ${received}` : ''}` }];
+            }
+        }
+
+        return [{ path, message: issue.message }];
+    });
+}
+
+/**
+ * Validates option values against the config file schema
+ * @param values The option values, keyed by option name
+ * @returns The problems found, none if the values are valid
+ */
+export function validateConfigValues(values: Record<string, unknown>): ConfigIssue[] {
+    const result = configFileSchema.safeParse(values);
+    return result.success ? [] : toConfigIssues(result.error.issues);
+}
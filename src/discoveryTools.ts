@@ -0,0 +1,162 @@
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { z } from 'zod/v4';
+import { getMcpToolAnnotations } from './mcpMapper';
+import { jsonSchemaToZodShape } from './utils/jsonSchemaToZod';
+import type { MappedTool } from './types';
+
+// Number of operations search_operations returns unless the client asks for a different limit
+const DEFAULT_SEARCH_LIMIT = 20;
+
+// Calls a catalog operation the way its own tool would be called
+export type InvokeMappedTool = (
+    tool: MappedTool,
+    args: Record<string, unknown>,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+) => Promise<CallToolResult>;
+
+/**
+ * Returns the first line of an operation description, for search results
+ * @param description The tool description
+ * @returns The summary line
+ */
+function summarize(description: string): string {
+    return description.split('\n')[0].trim();
+}
+
+/**
+ * Finds the operations matching a keyword query and a tag. Every word of the query must appear
+ * in the operation ID, description, method, path or tags; tags are compared case-insensitively.
+ * @param catalog The mapped operations to search
+ * @param query Space-separated keywords, or undefined to match every operation
+ * @param tag A tag the operations must have, or undefined
+ * @returns The matching operations, in catalog order
+ */
+export function searchOperations(catalog: MappedTool[], query?: string, tag?: string): MappedTool[] {
+    const words = (query || '').toLowerCase().split(/\s+/).filter(Boolean);
+    const wantedTag = tag?.toLowerCase();
+
+    return catalog.filter(tool => {
+        const { mcpToolDefinition, apiCallDetails } = tool;
+        const tags = (tool.tags || []).map(name => name.toLowerCase());
+        if (wantedTag && !tags.includes(wantedTag)) return false;
+
+        const haystack = [
+            mcpToolDefinition.name,
+            mcpToolDefinition.description,
+            apiCallDetails.method,
+            apiCallDetails.pathTemplate,
+            ...tags,
+        ].join(' ').toLowerCase();
+        return words.every(word => haystack.includes(word));
+    });
+}
+
+/**
+ * Looks up an operation of the catalog by operation ID (its tool name)
+ * @param catalog The mapped operations
+ * @param operationId The operation ID
+ * @returns The mapped operation
+ * @throws McpError if the catalog has no such operation
+ */
+function findOperation(catalog: MappedTool[], operationId: string): MappedTool {
+    const tool = catalog.find(candidate => candidate.mcpToolDefinition.name === operationId);
+    if (!tool) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown operation '${operationId}'. Use search_operations to find operation IDs.`);
+    }
+    return tool;
+}
+
+/**
+ * Wraps a JSON value as a text tool result
+ * @param value The value to return
+ * @returns The tool result
+ */
+function jsonResult(value: unknown): CallToolResult {
+    return { content: [{ type: 'text', text: JSON.stringify(value, null, 2) }] };
+}
+
+/**
+ * Registers the compact mode meta-tools, which let clients discover and call the mapped operations
+ * without one tool per operation: search_operations, describe_operation and invoke_operation
+ * @param server The MCP server to register the tools on
+ * @param getCatalog Returns the mapped operations currently served, so reloads apply without re-registering
+ * @param invoke Calls an operation with arguments already validated against its input schema
+ * @returns The registered tool handles
+ */
+export function registerDiscoveryTools(server: McpServer, getCatalog: () => MappedTool[], invoke: InvokeMappedTool): RegisteredTool[] {
+    const search = server.registerTool(
+        'search_operations',
+        {
+            description: 'Search the API operations by keyword or tag. Returns operation IDs to pass to describe_operation and invoke_operation.',
+            inputSchema: {
+                query: z.string().optional().describe('Keywords matched against operation IDs, descriptions, methods, paths and tags'),
+                tag: z.string().optional().describe('Only return operations with this OpenAPI tag'),
+                limit: z.number().int().min(1).max(100).optional().describe(`Maximum number of operations to return (default ${DEFAULT_SEARCH_LIMIT})`),
+            },
+            annotations: { readOnlyHint: true, openWorldHint: false },
+        },
+        async ({ query, tag, limit }) => {
+            const matches = searchOperations(getCatalog(), query, tag);
+            return jsonResult({
+                total: matches.length,
+                operations: matches.slice(0, limit || DEFAULT_SEARCH_LIMIT).map(tool => ({
+                    operationId: tool.mcpToolDefinition.name,
+                    method: tool.apiCallDetails.method,
+                    path: tool.apiCallDetails.pathTemplate,
+                    summary: summarize(tool.mcpToolDefinition.description),
+                    ...(tool.tags ? { tags: tool.tags } : {}),
+                })),
+            });
+        }
+    );
+
+    const describe = server.registerTool(
+        'describe_operation',
+        {
+            description: 'Describe an API operation: its input schema (the arguments of invoke_operation), output schema and behavior hints.',
+            inputSchema: {
+                operationId: z.string().describe('Operation ID returned by search_operations'),
+            },
+            annotations: { readOnlyHint: true, openWorldHint: false },
+        },
+        async ({ operationId }) => {
+            const { mcpToolDefinition, apiCallDetails, tags } = findOperation(getCatalog(), operationId);
+            return jsonResult({
+                operationId,
+                method: apiCallDetails.method,
+                path: apiCallDetails.pathTemplate,
+                description: mcpToolDefinition.description,
+                ...(tags ? { tags } : {}),
+                inputSchema: mcpToolDefinition.inputSchema,
+                ...(mcpToolDefinition.outputSchema ? { outputSchema: mcpToolDefinition.outputSchema } : {}),
+                annotations: getMcpToolAnnotations(mcpToolDefinition.annotations),
+            });
+        }
+    );
+
+    const invokeTool = server.registerTool(
+        'invoke_operation',
+        {
+            description: 'Call an API operation. The arguments are validated against the input schema returned by describe_operation.',
+            inputSchema: {
+                operationId: z.string().describe('Operation ID returned by search_operations'),
+                arguments: z.record(z.string(), z.unknown()).optional().describe('Arguments of the operation'),
+            },
+        },
+        async ({ operationId, arguments: args }, extra) => {
+            const tool = findOperation(getCatalog(), operationId);
+
+            // Validated here, since the SDK only validates the meta-tool's own arguments
+            const parsed = z.object(jsonSchemaToZodShape(tool.mcpToolDefinition.inputSchema)).safeParse(args || {});
+            if (!parsed.success) {
+                throw new McpError(ErrorCode.InvalidParams, `Input validation error: Invalid arguments for operation ${operationId}: ${z.prettifyError(parsed.error)}`);
+            }
+            return invoke(tool, parsed.data, extra);
+        }
+    );
+
+    return [search, describe, invokeTool];
+}
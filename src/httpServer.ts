@@ -0,0 +1,382 @@
+import express, { Express, Request, Response } from 'express';
+import type { Server } from 'http';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { InMemoryEventStore } from './utils/eventStore';
+import type { SessionCredentials } from './types';
+import { createLogger } from './utils/logger';
+
+const log = createLogger('httpServer');
+
+/**
+ * Factory creating a fully configured MCP server (tools registered) for a new client session.
+ * The credentials supplied by that session are bound to the server so they never leak to other sessions.
+ */
+export type McpServerFactory = (credentials?: SessionCredentials) => McpServer;
+
+/**
+ * Options shared by the HTTP-based transports
+ */
+export interface HttpServerOptions {
+    forwardAuthorization?: boolean; // Forward the session's incoming Authorization header upstream
+    sessionTimeout?: number; // Seconds a Streamable HTTP session may stay idle before it is closed; 0 or unset keeps it open
+}
+
+/**
+ * Request header carrying a JSON map of upstream credentials keyed by security scheme name
+ */
+export const CREDENTIALS_HEADER = 'x-mcp-credentials';
+
+/**
+ * Path the Streamable HTTP endpoint is served on
+ */
+export const MCP_ENDPOINT = '/mcp';
+
+/**
+ * Paths of the legacy HTTP+SSE transport: the event stream and the endpoint clients post messages to
+ */
+export const SSE_ENDPOINT = '/sse';
+export const SSE_MESSAGES_ENDPOINT = '/messages';
+
+/**
+ * Sends a JSON-RPC error response for requests that cannot be routed to a session
+ */
+function sendJsonRpcError(res: Response, status: number, message: string): void {
+    res.status(status).json({
+        jsonrpc: '2.0',
+        error: { code: -32000, message },
+        id: null,
+    });
+}
+
+/**
+ * Extracts the upstream credentials a client supplies when it starts a session
+ * @param req The request that starts the session
+ * @param options Transport options
+ * @returns The session credentials, or undefined if the client supplied none
+ * @throws Error if the credentials header is not a JSON object of strings
+ */
+export function getSessionCredentials(req: Request, options: HttpServerOptions = {}): SessionCredentials | undefined {
+    const credentials: SessionCredentials = {};
+
+    if (options.forwardAuthorization && req.headers.authorization) {
+        credentials.authorization = req.headers.authorization;
+    }
+
+    const credentialsHeader = req.headers[CREDENTIALS_HEADER];
+    if (typeof credentialsHeader === 'string' && credentialsHeader.trim() !== '') {
+        let parsed: any;
+        try {
+            parsed = JSON.parse(credentialsHeader);
+        } catch (e: any) {
+            throw new Error(`Invalid ${CREDENTIALS_HEADER} header: ${e.message}`);
+        }
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)
+            || Object.values(parsed).some(value => typeof value !== 'string')) {
+            throw new Error(`Invalid ${CREDENTIALS_HEADER} header: expected a JSON object mapping security scheme names to strings`);
+        }
+        credentials.securityCredentials = parsed;
+    }
+
+    return Object.keys(credentials).length > 0 ? credentials : undefined;
+}
+
+/**
+ * Fingerprints the credentials a request presents: its Authorization and credentials headers.
+ * A session is bound to the fingerprint of the request that started it, so that its session ID
+ * alone does not give access to the upstream credentials of the session.
+ * @param req The request
+ * @returns A SHA-256 hash of the headers
+ */
+export function getCredentialsFingerprint(req: Request): Buffer {
+    return createHash('sha256')
+        .update(JSON.stringify([req.headers.authorization ?? null, req.headers[CREDENTIALS_HEADER] ?? null]))
+        .digest();
+}
+
+/**
+ * Checks whether a request presents the credentials its session was started with
+ * @param req The request
+ * @param fingerprint The fingerprint of the request that started the session
+ * @returns True if the credentials match
+ */
+function presentsSessionCredentials(req: Request, fingerprint: Buffer): boolean {
+    return timingSafeEqual(getCredentialsFingerprint(req), fingerprint);
+}
+
+// Message of the responses to requests whose credentials differ from those their session was started with
+const SESSION_CREDENTIALS_MISMATCH = 'Forbidden: the credentials do not match those the session was started with';
+
+/**
+ * A Streamable HTTP session: the credentials it is bound to, and the requests keeping it active
+ */
+interface HttpSession {
+    fingerprint: Buffer;
+    openRequests: number;
+    idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Creates an Express app serving the MCP Streamable HTTP protocol.
+ * Each session gets its own McpServer instance (a server can only be connected to one transport),
+ * while all sessions share the tools produced by the same mapping pipeline. Follow-up requests must
+ * present the credentials their session was started with, and sessions left idle for the
+ * configured timeout are closed.
+ * @param createServer Factory building an McpServer for a new session
+ * @param options Transport options
+ * @returns The Express app and the map of active session transports
+ */
+export function createHttpApp(createServer: McpServerFactory, options: HttpServerOptions = {}) {
+    const app = express();
+    app.use(express.json({ limit: '4mb' }));
+
+    const transports: Record<string, StreamableHTTPServerTransport> = {};
+    const sessions: Record<string, HttpSession> = {};
+    const sessionTimeout = options.sessionTimeout ?? 0;
+
+    // A session is active while it has open requests (e.g. its SSE stream); the idle timeout starts when the last one ends
+    const trackRequest = (sessionId: string, res: Response) => {
+        const session = sessions[sessionId];
+        clearTimeout(session.idleTimer);
+        session.openRequests++;
+        res.on('close', () => {
+            session.openRequests--;
+            if (session.openRequests > 0 || sessionTimeout <= 0 || !transports[sessionId]) return;
+            session.idleTimer = setTimeout(() => {
+                log.info('MCP HTTP session expired', { sessionId, idleSeconds: sessionTimeout });
+                transports[sessionId]?.close().catch(error => log.error('Error closing MCP transport', { error }));
+            }, sessionTimeout * 1000);
+            session.idleTimer.unref();
+        });
+    };
+
+    app.post(MCP_ENDPOINT, async (req: Request, res: Response) => {
+        const sessionId = req.headers['mcp-session-id'] as string | undefined;
+        // The server created for an initialize request, until its session starts
+        let pendingServer: McpServer | undefined;
+
+        try {
+            let transport: StreamableHTTPServerTransport;
+
+            if (sessionId && transports[sessionId]) {
+                if (!presentsSessionCredentials(req, sessions[sessionId].fingerprint)) {
+                    log.warning('Rejected a request presenting other credentials than its session', { sessionId });
+                    sendJsonRpcError(res, 403, SESSION_CREDENTIALS_MISMATCH);
+                    return;
+                }
+                transport = transports[sessionId];
+                trackRequest(sessionId, res);
+            } else if (!sessionId && isInitializeRequest(req.body)) {
+                let credentials: SessionCredentials | undefined;
+                try {
+                    credentials = getSessionCredentials(req, options);
+                } catch (error: any) {
+                    sendJsonRpcError(res, 400, error.message);
+                    return;
+                }
+
+                const fingerprint = getCredentialsFingerprint(req);
+                const server = createServer(credentials);
+                pendingServer = server;
+                transport = new StreamableHTTPServerTransport({
+                    sessionIdGenerator: () => randomUUID(),
+                    eventStore: new InMemoryEventStore(), // Enables resumability via Last-Event-ID, within the session only
+                    onsessioninitialized: (newSessionId: string) => {
+                        log.info('MCP HTTP session initialized', { sessionId: newSessionId });
+                        pendingServer = undefined;
+                        transports[newSessionId] = transport;
+                        sessions[newSessionId] = { fingerprint, openRequests: 0 };
+                        trackRequest(newSessionId, res);
+                    },
+                });
+
+                transport.onclose = () => {
+                    const closedSessionId = transport.sessionId;
+                    if (closedSessionId && transports[closedSessionId]) {
+                        log.info('MCP HTTP session closed', { sessionId: closedSessionId });
+                        delete transports[closedSessionId];
+                        clearTimeout(sessions[closedSessionId]?.idleTimer);
+                        delete sessions[closedSessionId];
+                    }
+                    server.close().catch(error => log.error('Error closing MCP server for session', { error }));
+                };
+
+                await server.connect(transport);
+            } else if (sessionId) {
+                sendJsonRpcError(res, 404, `Session not found: ${sessionId}`);
+                return;
+            } else {
+                sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+                return;
+            }
+
+            await transport.handleRequest(req, res, req.body);
+        } catch (error) {
+            log.error('Error handling MCP HTTP request', { error });
+            // Nothing else would close a server whose session never started, and it would stay registered for reloads
+            if (pendingServer) {
+                await pendingServer.close().catch(closeError => log.error('Error closing MCP server for session', { error: closeError }));
+            }
+            if (!res.headersSent) {
+                sendJsonRpcError(res, 500, 'Internal server error');
+            }
+        }
+    });
+
+    // GET opens (or resumes) the SSE stream for server-to-client messages, DELETE terminates the session
+    const handleSessionRequest = async (req: Request, res: Response) => {
+        const sessionId = req.headers['mcp-session-id'] as string | undefined;
+        if (!sessionId || !transports[sessionId]) {
+            res.status(400).send('Invalid or missing session ID');
+            return;
+        }
+        if (!presentsSessionCredentials(req, sessions[sessionId].fingerprint)) {
+            log.warning('Rejected a request presenting other credentials than its session', { sessionId, method: req.method });
+            res.status(403).send(SESSION_CREDENTIALS_MISMATCH);
+            return;
+        }
+        trackRequest(sessionId, res);
+
+        const lastEventId = req.headers['last-event-id'];
+        if (lastEventId) {
+            log.info('Client reconnecting to session', { sessionId, lastEventId });
+        }
+
+        try {
+            await transports[sessionId].handleRequest(req, res);
+        } catch (error) {
+            log.error('Error handling MCP HTTP request', { method: req.method, error });
+            if (!res.headersSent) {
+                res.status(500).send('Internal server error');
+            }
+        }
+    };
+
+    app.get(MCP_ENDPOINT, handleSessionRequest);
+    app.delete(MCP_ENDPOINT, handleSessionRequest);
+
+    return { app, transports };
+}
+
+/**
+ * Creates an Express app serving the legacy MCP HTTP+SSE transport for older clients.
+ * `GET /sse` opens a session stream and announces the message endpoint, `POST /messages?sessionId=...`
+ * delivers client messages to that session, provided they present the credentials the stream was opened with.
+ * @param createServer Factory building an McpServer for a new session
+ * @param options Transport options
+ * @returns The Express app and the map of active session transports
+ */
+export function createSseApp(createServer: McpServerFactory, options: HttpServerOptions = {}) {
+    const app = express();
+    app.use(express.json({ limit: '4mb' }));
+
+    const transports: Record<string, SSEServerTransport> = {};
+    const fingerprints: Record<string, Buffer> = {};
+
+    app.get(SSE_ENDPOINT, async (req: Request, res: Response) => {
+        let credentials: SessionCredentials | undefined;
+        try {
+            credentials = getSessionCredentials(req, options);
+        } catch (error: any) {
+            res.status(400).send(error.message);
+            return;
+        }
+
+        const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res);
+        const sessionId = transport.sessionId;
+        transports[sessionId] = transport;
+        fingerprints[sessionId] = getCredentialsFingerprint(req);
+        log.info('MCP SSE session opened', { sessionId });
+
+        const server = createServer(credentials);
+        res.on('close', () => {
+            log.info('MCP SSE session closed', { sessionId });
+            delete transports[sessionId];
+            delete fingerprints[sessionId];
+            server.close().catch(error => log.error('Error closing MCP server for session', { error }));
+        });
+
+        try {
+            await server.connect(transport);
+        } catch (error) {
+            log.error('Error establishing MCP SSE stream', { error });
+            if (!res.headersSent) {
+                res.status(500).send('Error establishing SSE stream');
+            }
+        }
+    });
+
+    app.post(SSE_MESSAGES_ENDPOINT, async (req: Request, res: Response) => {
+        const sessionId = req.query.sessionId as string | undefined;
+        if (!sessionId || !transports[sessionId]) {
+            res.status(400).send('Invalid or missing session ID');
+            return;
+        }
+        if (!presentsSessionCredentials(req, fingerprints[sessionId])) {
+            log.warning('Rejected a message presenting other credentials than its session', { sessionId });
+            res.status(403).send(SESSION_CREDENTIALS_MISMATCH);
+            return;
+        }
+
+        try {
+            await transports[sessionId].handlePostMessage(req, res, req.body);
+        } catch (error) {
+            log.error('Error handling MCP SSE message', { error });
+            if (!res.headersSent) {
+                res.status(500).send('Internal server error');
+            }
+        }
+    });
+
+    return { app, transports };
+}
+
+/**
+ * Starts an Express app on the given port and closes all session transports when the server stops
+ */
+async function listen(app: Express, port: number, transports: Record<string, { close(): Promise<void> }>): Promise<Server> {
+    const httpServer = await new Promise<Server>((resolve, reject) => {
+        const server = app.listen(port, () => resolve(server));
+        server.on('error', reject);
+    });
+
+    // Close all open sessions before the HTTP server goes away
+    httpServer.on('close', () => {
+        for (const transport of Object.values(transports)) {
+            transport.close().catch(error => log.error('Error closing MCP transport', { error }));
+        }
+    });
+
+    return httpServer;
+}
+
+/**
+ * Starts listening for MCP Streamable HTTP connections on the given port
+ * @param createServer Factory building an McpServer for a new session
+ * @param port Port to listen on
+ * @param options Transport options
+ * @returns The underlying HTTP server once it is listening
+ */
+export async function startHttpServer(createServer: McpServerFactory, port: number, options: HttpServerOptions = {}): Promise<Server> {
+    const { app, transports } = createHttpApp(createServer, options);
+    const httpServer = await listen(app, port, transports);
+    log.info(`MCP Streamable HTTP endpoint listening on http://localhost:${port}${MCP_ENDPOINT}`);
+    return httpServer;
+}
+
+/**
+ * Starts listening for legacy MCP HTTP+SSE connections on the given port
+ * @param createServer Factory building an McpServer for a new session
+ * @param port Port to listen on
+ * @param options Transport options
+ * @returns The underlying HTTP server once it is listening
+ */
+export async function startSseServer(createServer: McpServerFactory, port: number, options: HttpServerOptions = {}): Promise<Server> {
+    const { app, transports } = createSseApp(createServer, options);
+    const httpServer = await listen(app, port, transports);
+    log.info(`MCP SSE endpoint listening on http://localhost:${port}${SSE_ENDPOINT} (messages: ${SSE_MESSAGES_ENDPOINT})`);
+    return httpServer;
+}
@@ -1,8 +1,18 @@
-#!/usr/bin/env node
-
-import { startServer } from './server';
-
-startServer().catch(error => {
-  console.error('Error starting server:', error);
-  process.exit(1);
-});
+// Library entry point: importing it has no side effects. The command-line server is src/cli.ts.
+export { createOpenApiMcpServer, createMcpServer } from './server';
+export { loadConfig, loadConfigWithSources, describeConfig, resolveConfig, ConfigError } from './config';
+export type { LoadedConfig } from './config';
+export { mapOpenApiToMcpTools } from './mcpMapper';
+export { getProcessedOpenApi } from './openapiProcessor';
+export { executeApiCall } from './apiClient';
+export type {
+    OpenApiMcpServer,
+    OpenApiMcpServerOptions,
+    OpenApiMcpPlugin,
+    SpecEntryOptions,
+    ToolGroupOptions,
+    ServerConfig,
+    MappedTool,
+    MappedPrompt,
+    SessionCredentials,
+} from './types';
@@ -1,8 +1,22 @@
 import type { JSONSchema7, JSONSchema7Definition, JSONSchema7TypeName } from 'json-schema';
 import type { OpenAPIV3 } from 'openapi-types';
-import type { ProcessedOpenAPI, MappedTool, ApiCallDetails, McpToolDefinition } from './types';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import type { ProcessedOpenAPI, MappedTool, ApiCallDetails, AsyncJobOptions, CompletionLookup, McpToolDefinition, ServerConfig, SpecSource, ToolSetDiff } from './types';
 import { config } from './config';
 import { minimatch } from 'minimatch';
+import { createLogger } from './utils/logger';
+
+const log = createLogger('mcpMapper');
+
+// Configuration options that affect how operations are mapped
+type MappingOptions = Pick<ServerConfig, 'resourceTemplates' | 'asyncOperations' | 'asyncTimeout' | 'tagGroups' | 'toolGroups'>;
+
+// Property holding non-object response bodies in structured content, see wrapOutputSchema
+export const RESULT_PROPERTY = 'result';
+const RESULT_WRAPPER_EXTENSION = 'x-mcp-result-wrapper';
+
+// Boolean MCP tool annotations, which the operation-level x-mcp extension can set
+const TOOL_ANNOTATION_HINTS = ['readOnlyHint', 'destructiveHint', 'idempotentHint', 'openWorldHint'] as const;
 
 // Enhanced mapping from OpenAPI type/format to JSON Schema type
 // Now preserves format information
@@ -24,7 +38,7 @@ function mapOpenApiTypeToJsonSchemaType(openApiSchema?: OpenAPIV3.SchemaObject):
         case 'array': jsonType = 'array'; break;
         case 'object': jsonType = 'object'; break;
         default:
-            console.error(`Unsupported OpenAPI type: ${type}. Defaulting to string.`);
+            log.warning(`Unsupported OpenAPI type: ${type}. Defaulting to string.`);
             jsonType = 'string';
     }
     
@@ -106,7 +120,7 @@ function openApiSchemaToJsonSchema(openApiSchema?: OpenAPIV3.SchemaObject): JSON
             if (isSchemaObject(propSchema)) { 
                 jsonSchema.properties[propName] = safeJsonSchema(openApiSchemaToJsonSchema(propSchema));
             } else {
-                console.error(`Skipping non-schema property or reference: ${propName}`);
+                log.debug('Skipping non-schema property or reference', { property: propName });
             }
         }
         if (openApiSchema.required) {
@@ -130,7 +144,7 @@ function openApiSchemaToJsonSchema(openApiSchema?: OpenAPIV3.SchemaObject): JSON
         if (isSchemaObject(openApiSchema.items)) { 
             jsonSchema.items = safeJsonSchema(openApiSchemaToJsonSchema(openApiSchema.items));
         } else {
-            console.error(`Skipping non-schema array item or reference.`);
+            log.debug('Skipping non-schema array item or reference');
         }
     }
 
@@ -145,58 +159,325 @@ function openApiSchemaToJsonSchema(openApiSchema?: OpenAPIV3.SchemaObject): JSON
 }
 
 /**
- * Checks if an operation matches the whitelist or blacklist patterns
+ * Checks if an operation matches any of the given glob patterns, by operationId or as METHOD:/path
+ * @param patterns The glob patterns
  * @param operationId The operation ID to check
  * @param path The URL path of the operation
  * @param method The HTTP method of the operation
- * @returns true if the operation should be included, false otherwise
+ * @returns true if any pattern matches
  */
-function shouldIncludeOperation(operationId: string | undefined, path: string, method: string): boolean {
-    // If no operationId and whitelist is enabled, use path+method as fallback for matching
-    const opId = operationId || `${method.toUpperCase()}:${path}`;
+function matchesOperationPatterns(patterns: string[], operationId: string | undefined, path: string, method: string): boolean {
     const urlPattern = `${method.toUpperCase()}:${path}`;
 
+    return patterns.some((pattern: string) => {
+        // Check if pattern matches operationId (if it exists)
+        if (operationId && minimatch(operationId, pattern)) {
+            return true;
+        }
+        // Check if pattern matches urlPattern (method:path)
+        return minimatch(urlPattern, pattern);
+    });
+}
+
+/**
+ * Checks if an operation matches the whitelist or blacklist patterns
+ * @param filter The whitelist and blacklist of the spec
+ * @param operationId The operation ID to check
+ * @param path The URL path of the operation
+ * @param method The HTTP method of the operation
+ * @returns true if the operation should be included, false otherwise
+ */
+function shouldIncludeOperation(filter: SpecSource['filter'], operationId: string | undefined, path: string, method: string): boolean {
     // If whitelist is enabled, include only operations that match a whitelist pattern
-    if (config.filter.whitelist) {
-        return config.filter.whitelist.some((pattern: string) => {
-            // Check if pattern matches operationId (if it exists)
-            if (operationId && minimatch(operationId, pattern)) {
-                return true;
-            }
-            // Check if pattern matches urlPattern (method:path)
-            return minimatch(urlPattern, pattern);
-        });
+    if (filter.whitelist) {
+        return matchesOperationPatterns(filter.whitelist, operationId, path, method);
     }
     
     // If only blacklist is enabled, exclude operations that match a blacklist pattern
-    if (config.filter.blacklist.length > 0) {
-        return !config.filter.blacklist.some((pattern: string) => {
-            // Check if pattern matches operationId (if it exists)
-            if (operationId && minimatch(operationId, pattern)) {
-                return true;
-            }
-            // Check if pattern matches urlPattern (method:path)
-            return minimatch(urlPattern, pattern);
-        });
+    if (filter.blacklist.length > 0) {
+        return !matchesOperationPatterns(filter.blacklist, operationId, path, method);
     }
     
     // If no filtering is enabled, include all operations
     return true;
 }
 
-export function mapOpenApiToMcpTools(openapi: ProcessedOpenAPI): MappedTool[] {
+/**
+ * Determines whether 202 Accepted responses of an operation are polled until the job finishes.
+ * The `async` property of the operation-level x-mcp extension wins over the `asyncOperations` config
+ * option: `true` enables polling with the defaults, `false` disables it, and an object enables it with
+ * its own `timeout`, `interval` and `maxInterval` (in seconds).
+ * @param operationId The operation ID
+ * @param path The URL path of the operation
+ * @param method The HTTP method of the operation
+ * @param operationMcpExtension The operation-level x-mcp extension, if any
+ * @param options The mapping options
+ * @returns The polling options, or undefined if 202 responses are returned as is
+ */
+function getAsyncJobOptions(
+    operationId: string | undefined,
+    path: string,
+    method: string,
+    operationMcpExtension: any,
+    options: MappingOptions
+): AsyncJobOptions | undefined {
+    const extension = operationMcpExtension?.async;
+    const enabled = extension !== undefined
+        ? extension !== false
+        : matchesOperationPatterns(options.asyncOperations || [], operationId, path, method);
+    if (!enabled) {
+        return undefined;
+    }
+
+    const overrides = extension && typeof extension === 'object' ? extension : {};
+    const numberOr = (value: unknown, fallback: number) => typeof value === 'number' && value > 0 ? value : fallback;
+    return {
+        timeout: numberOr(overrides.timeout, options.asyncTimeout ?? 300),
+        interval: numberOr(overrides.interval, 1),
+        maxInterval: numberOr(overrides.maxInterval, 30),
+    };
+}
+
+/**
+ * Determines the tool groups of an operation: its OpenAPI tags when tag groups are enabled,
+ * and every configured group with a pattern matching the operation
+ * @param operationId The operation ID
+ * @param path The URL path of the operation
+ * @param method The HTTP method of the operation
+ * @param tags The OpenAPI tags of the operation
+ * @param options The mapping options
+ * @returns The group names, without duplicates
+ */
+function getToolGroups(operationId: string | undefined, path: string, method: string, tags: string[] | undefined, options: MappingOptions): string[] {
+    const groups = new Set(options.tagGroups ? tags || [] : []);
+    for (const [name, patterns] of Object.entries(options.toolGroups || {})) {
+        if (matchesOperationPatterns(patterns, operationId, path, method)) {
+            groups.add(name);
+        }
+    }
+    return [...groups];
+}
+
+/**
+ * Validates an x-mcp-completion extension: either the operationId of a GET operation listing the values,
+ * or an object with that `operation`, the `value` property of each item and the `items` property holding the list
+ * @param extension The raw extension
+ * @param namespace Namespace of the spec defining the extension, when several specs are mounted
+ * @param location Where the extension was found, for log messages
+ * @returns The lookup, or undefined if there is no (valid) extension
+ */
+export function parseCompletionLookup(extension: unknown, namespace: string | undefined, location: string): CompletionLookup | undefined {
+    if (extension === undefined) return undefined;
+
+    const definition: any = typeof extension === 'string' ? { operation: extension } : extension;
+    if (!definition || typeof definition !== 'object' || typeof definition.operation !== 'string' || !definition.operation) {
+        log.warning('Ignoring x-mcp-completion: expected an operationId or an object with an "operation"', { location });
+        return undefined;
+    }
+
+    return {
+        operationId: definition.operation,
+        ...(namespace ? { namespace } : {}),
+        ...(typeof definition.value === 'string' ? { value: definition.value } : {}),
+        ...(typeof definition.items === 'string' ? { items: definition.items } : {}),
+    };
+}
+
+/**
+ * Wraps a non-object response schema (arrays, primitives, nullable objects) in an object with a
+ * single `result` property, since MCP requires tool output schemas and structured content to be objects
+ * @param responseSchema The JSON Schema of the response body
+ * @returns The object schema to advertise as the tool's output schema
+ */
+function wrapOutputSchema(responseSchema: JSONSchema7): JSONSchema7 {
+    const { description, ...resultSchema } = responseSchema;
+    return {
+        type: 'object',
+        ...(description ? { description } : {}),
+        properties: { [RESULT_PROPERTY]: resultSchema },
+        required: [RESULT_PROPERTY],
+        [RESULT_WRAPPER_EXTENSION]: true,
+    } as JSONSchema7;
+}
+
+/**
+ * Derives the output schema of an operation from its success responses. A schema is only derived when every
+ * 2xx response has a JSON body with the same schema, so that structured content can be returned whichever
+ * of them the API answers with; polled operations return the final resource, not the 202 job status.
+ * @param operation The OpenAPI operation
+ * @param isAsyncJob Whether 202 Accepted responses are polled until the job finishes
+ * @returns The output schema and the status codes it describes, or undefined if there is no single schema
+ */
+function getOutputSchema(
+    operation: OpenAPIV3.OperationObject,
+    isAsyncJob: boolean
+): { schema: JSONSchema7; statusCodes: string[] } | undefined {
+    const statusCodes = Object.keys(operation.responses || {})
+        .filter(code => code.startsWith('2') && !(isAsyncJob && code === '202'));
+    const schemas = statusCodes.map(code => {
+        const response = operation.responses?.[code];
+        const jsonContent = isResponseObject(response) ? response.content?.['application/json']?.schema : undefined;
+        return isSchemaObject(jsonContent) ? openApiSchemaToJsonSchema(jsonContent) as JSONSchema7 : undefined;
+    });
+    if (schemas.length === 0 || schemas.some(schema => !schema || JSON.stringify(schema) !== JSON.stringify(schemas[0]))) {
+        return undefined;
+    }
+
+    let schema = schemas[0]!;
+    const response = operation.responses?.[statusCodes[0]];
+    if (isResponseObject(response) && response.description) {
+        schema.description = response.description; // Add response description
+    }
+    if (schema.type !== 'object') {
+        schema = wrapOutputSchema(schema);
+    }
+    return { schema, statusCodes };
+}
+
+/**
+ * Checks whether an output schema was produced by wrapping a non-object response schema
+ * @param outputSchema The output schema of a tool definition
+ * @returns True if structured content must be returned as { result: <response body> }
+ */
+export function isWrappedOutputSchema(outputSchema?: JSONSchema7): boolean {
+    return (outputSchema as any)?.[RESULT_WRAPPER_EXTENSION] === true;
+}
+
+/**
+ * Derives the standard MCP tool annotations from the HTTP semantics of an operation:
+ * GET and HEAD are read-only, DELETE is destructive, PUT and DELETE are idempotent, and the
+ * title comes from the operation summary. Each of them can be overridden by the operation-level
+ * x-mcp extension (`title`, `readOnlyHint`, `destructiveHint`, `idempotentHint`, `openWorldHint`).
+ * @param method The HTTP method of the operation
+ * @param operation The operation object
+ * @param operationMcpExtension The operation-level x-mcp extension, if any
+ * @returns The annotations
+ */
+function getToolAnnotations(method: string, operation: OpenAPIV3.OperationObject, operationMcpExtension: any): Record<string, any> {
+    const upperMethod = method.toUpperCase();
+    const readOnly = upperMethod === 'GET' || upperMethod === 'HEAD';
+    const annotations: Record<string, any> = {
+        ...(operation.summary ? { title: operation.summary } : {}),
+        readOnlyHint: readOnly,
+        // The other hints are only meaningful for tools that modify their environment
+        ...(readOnly ? {} : {
+            destructiveHint: upperMethod === 'DELETE',
+            idempotentHint: upperMethod === 'PUT' || upperMethod === 'DELETE',
+        }),
+    };
+
+    if (operationMcpExtension && typeof operationMcpExtension === 'object') {
+        if (typeof operationMcpExtension.title === 'string') {
+            annotations.title = operationMcpExtension.title;
+        }
+        for (const hint of TOOL_ANNOTATION_HINTS) {
+            if (typeof operationMcpExtension[hint] === 'boolean') {
+                annotations[hint] = operationMcpExtension[hint];
+            }
+        }
+    }
+
+    return annotations;
+}
+
+/**
+ * Picks the standard MCP annotations (title and hints) out of a tool definition's annotations,
+ * leaving out OpenAPI metadata such as x-openapi-path
+ * @param annotations The annotations of a tool definition
+ * @returns The annotations to advertise in tools/list
+ */
+export function getMcpToolAnnotations(annotations: Record<string, any> = {}): ToolAnnotations {
+    const result: ToolAnnotations = {};
+    for (const key of ['title', ...TOOL_ANNOTATION_HINTS] as const) {
+        if (annotations[key] !== undefined) {
+            (result as any)[key] = annotations[key];
+        }
+    }
+    return result;
+}
+
+/**
+ * Determines whether a GET operation is also exposed as an MCP resource template, and under which URI.
+ * The `resource` flag of an operation-level x-mcp extension wins over the path-level one, which wins
+ * over the `resourceTemplates` config option. Only pure lookups qualify: GET operations with at least
+ * one path parameter, no other required parameters and no request body.
+ * @param path The URL path of the operation, e.g. /pets/{petId}
+ * @param method The HTTP method of the operation
+ * @param operation The operation object
+ * @param parameters The path- and operation-level parameters of the operation
+ * @param operationMcpExtension The operation-level x-mcp extension, if any
+ * @param pathMcpExtension The path-level x-mcp extension, if any
+ * @param namespace The namespace of the spec when several specs are mounted, e.g. api://billing/invoices/{id}
+ * @param options The mapping options
+ * @returns The URI template (e.g. api://pets/{petId}), or undefined if the operation is not exposed as a resource
+ */
+function getResourceUriTemplate(
+    path: string,
+    method: string,
+    operation: OpenAPIV3.OperationObject,
+    parameters: OpenAPIV3.ParameterObject[],
+    operationMcpExtension: any,
+    pathMcpExtension: any,
+    namespace: string | undefined,
+    options: MappingOptions
+): string | undefined {
+    let enabled = options.resourceTemplates === true;
+    if (typeof pathMcpExtension?.resource === 'boolean') {
+        enabled = pathMcpExtension.resource;
+    }
+    if (typeof operationMcpExtension?.resource === 'boolean') {
+        enabled = operationMcpExtension.resource;
+    }
+    if (!enabled) {
+        return undefined;
+    }
+
+    const label = `${method.toUpperCase()} ${path}`;
+    if (method.toLowerCase() !== 'get') {
+        log.warning(`Not exposing ${label} as a resource template: only GET operations are supported.`);
+        return undefined;
+    }
+    if (operation.requestBody) {
+        log.warning(`Not exposing ${label} as a resource template: operations with a request body are not supported.`);
+        return undefined;
+    }
+    if (!parameters.some(param => param.in === 'path')) {
+        log.warning(`Not exposing ${label} as a resource template: it has no path parameters.`);
+        return undefined;
+    }
+    const requiredNonPath = parameters.filter(param => param.required && param.in !== 'path');
+    if (requiredNonPath.length > 0) {
+        log.warning(`Not exposing ${label} as a resource template: required parameters outside the path (${requiredNonPath.map(param => param.name).join(', ')}).`);
+        return undefined;
+    }
+
+    return `api://${namespace ? `${namespace}/` : ''}${path.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Maps the operations of a spec to MCP tools, applying the spec's filters, target URL and tool prefix
+ * @param openapi The processed OpenAPI specification
+ * @param source The settings of the spec; defaults to the spec configured at the top level
+ * @param options The configuration of the server, for resource templates, asynchronous jobs and tool groups
+ * @returns The mapped tools
+ */
+export function mapOpenApiToMcpTools(
+    openapi: ProcessedOpenAPI,
+    source: Pick<SpecSource, 'filter' | 'targetApiBaseUrl' | 'namespace' | 'toolPrefix'> = config,
+    options: MappingOptions = config
+): MappedTool[] {
     const mappedTools: MappedTool[] = [];
     const globalSecurity = openapi.security || null; // Global security requirements
     const securitySchemes = openapi.components?.securitySchemes || undefined; // Security scheme definitions
 
     if (!openapi.paths) {
-        console.error("OpenAPI spec has no paths defined.");
+        log.warning('OpenAPI spec has no paths defined');
         return [];
     }
 
     // Determine the base server URL
     // Priority: Configured URL > First Server URL > Error/Default
-    let baseServerUrl = config.targetApiBaseUrl;
+    let baseServerUrl = source.targetApiBaseUrl;
     if (!baseServerUrl) {
         // Extract URL template from servers, defaulting to '/' if not found
         baseServerUrl = openapi.servers?.[0]?.url ?? '/';
@@ -220,19 +501,19 @@ export function mapOpenApiToMcpTools(openapi: ProcessedOpenAPI): MappedTool[] {
             const operationId = operation.operationId;
 
             // --- Filtering ---
-            if (!shouldIncludeOperation(operationId, path, method)) {
+            if (!shouldIncludeOperation(source.filter, operationId, path, method)) {
                 // If operationId is available, log it for better debugging
                 if (operationId) {
-                    console.error(`Skipping operation ${operationId} (${method.toUpperCase()} ${path}) due to filter rules.`);
+                    log.debug('Skipping operation due to filter rules', { operationId, method: method.toUpperCase(), path });
                 } else {
-                    console.error(`Skipping operation ${method.toUpperCase()} ${path} due to filter rules.`);
+                    log.debug('Skipping operation due to filter rules', { method: method.toUpperCase(), path });
                 }
                 continue;
             }
 
             // Skip operations without operationId as we need it for the tool name
             if (!operationId) {
-                console.error(`Skipping operation ${method.toUpperCase()} ${path} due to missing operationId.`);
+                log.warning('Skipping operation due to missing operationId', { method: method.toUpperCase(), path });
                 continue;
             }
 
@@ -240,9 +521,12 @@ export function mapOpenApiToMcpTools(openapi: ProcessedOpenAPI): MappedTool[] {
             let toolName = operationId;
             
             // Debug logging to identify what summary/description fields are available
-            console.error(`Tool: ${toolName} - Operation description: ${operation.description || 'N/A'}`);
-            console.error(`Tool: ${toolName} - Operation summary: ${operation.summary || 'N/A'}`);
-            console.error(`Tool: ${toolName} - Path summary: ${pathItem.summary || 'N/A'}`);
+            log.debug('Mapping operation', {
+                tool: toolName,
+                operationDescription: operation.description,
+                operationSummary: operation.summary,
+                pathSummary: pathItem.summary,
+            });
             
             // Check for custom MCP extensions at the operation level first, then path level
             const operationMcpExtension = (operation as any)['x-mcp'];
@@ -251,32 +535,37 @@ export function mapOpenApiToMcpTools(openapi: ProcessedOpenAPI): MappedTool[] {
             // Priority: Operation-level extension > Path-level extension > Default
             if (operationMcpExtension && typeof operationMcpExtension === 'object') {
                 if (operationMcpExtension.name && typeof operationMcpExtension.name === 'string') {
-                    console.error(`Tool: ${toolName} - Using custom name from operation-level x-mcp extension: ${operationMcpExtension.name}`);
+                    log.debug('Using custom name from operation-level x-mcp extension', { tool: toolName, name: operationMcpExtension.name });
                     toolName = operationMcpExtension.name;
                 }
             } else if (pathMcpExtension && typeof pathMcpExtension === 'object') {
                 if (pathMcpExtension.name && typeof pathMcpExtension.name === 'string') {
-                    console.error(`Tool: ${toolName} - Using custom name from path-level x-mcp extension: ${pathMcpExtension.name}`);
+                    log.debug('Using custom name from path-level x-mcp extension', { tool: toolName, name: pathMcpExtension.name });
                     toolName = pathMcpExtension.name;
                 }
             }
 
+            // Tools of mounted specs are namespaced, e.g. billing_listInvoices
+            if (source.toolPrefix) {
+                toolName = `${source.toolPrefix}${toolName}`;
+            }
+
             let toolDescription = operation.description || operation.summary || pathItem.summary || 'No description available.';
             
             // Check for custom description in MCP extension - operation level first, then path level
             if (operationMcpExtension && typeof operationMcpExtension === 'object') {
                 if (operationMcpExtension.description && typeof operationMcpExtension.description === 'string') {
-                    console.error(`Tool: ${toolName} - Using custom description from operation-level x-mcp extension: ${operationMcpExtension.description}`);
+                    log.debug('Using custom description from operation-level x-mcp extension', { tool: toolName, description: operationMcpExtension.description });
                     toolDescription = operationMcpExtension.description;
                 }
             } else if (pathMcpExtension && typeof pathMcpExtension === 'object') {
                 if (pathMcpExtension.description && typeof pathMcpExtension.description === 'string') {
-                    console.error(`Tool: ${toolName} - Using custom description from path-level x-mcp extension: ${pathMcpExtension.description}`);
+                    log.debug('Using custom description from path-level x-mcp extension', { tool: toolName, description: pathMcpExtension.description });
                     toolDescription = pathMcpExtension.description;
                 }
             }
             
-            console.error(`Tool: ${toolName} - Final description used: ${toolDescription}`);
+            log.debug('Final description used', { tool: toolName, description: toolDescription });
 
             // --- Input Schema ---
             const inputJsonSchema: JSONSchema7 = {
@@ -308,14 +597,14 @@ export function mapOpenApiToMcpTools(openapi: ProcessedOpenAPI): MappedTool[] {
                     for (const param of params) {
                         if (param.name && param.schema && inputJsonSchema.properties) {
                             // Debug log to identify potential type issues
-                            console.error(`Processing parameter ${param.name} with schema type: ${(param.schema as any).type} format: ${(param.schema as any).format}`);
+                            log.debug('Processing parameter', { parameter: param.name, type: (param.schema as any).type, format: (param.schema as any).format });
                             
                             // Convert OpenAPI schema to JSON Schema
                             const paramSchema = openApiSchemaToJsonSchema(param.schema as OpenAPIV3.SchemaObject);
                             
                             if (paramSchema) {
                                 // Debug log for converted schema
-                                console.error(`Converted schema for ${param.name}: type=${paramSchema.type}, format=${(paramSchema as any).format}`);
+                                log.debug('Converted parameter schema', { parameter: param.name, type: paramSchema.type, format: (paramSchema as any).format });
                                 
                                 // Add parameter to properties
                                 inputJsonSchema.properties[param.name] = paramSchema;
@@ -394,31 +683,21 @@ export function mapOpenApiToMcpTools(openapi: ProcessedOpenAPI): MappedTool[] {
                 delete inputJsonSchema.required;
             }
 
-            // --- Output Schema (Primary Success Response, e.g., 200) ---
-            let outputJsonSchema: JSONSchema7 | undefined = undefined;
-            const successResponseCode = Object.keys(operation.responses || {}).find(code => code.startsWith('2')); // Find first 2xx response
-            if (successResponseCode) {
-                const response = operation.responses?.[successResponseCode];
-                if (isResponseObject(response)) {
-                    const jsonContent = response.content?.['application/json']?.schema;
-                    if (isSchemaObject(jsonContent)) {
-                        const tempSchema = openApiSchemaToJsonSchema(jsonContent);
-                        outputJsonSchema = tempSchema as JSONSchema7; // Cast to JSONSchema7 since we know it's a schema
-                        if(outputJsonSchema && response.description){
-                            outputJsonSchema.description = response.description; // Add response description
-                        }
-                    }
-                }
-            }
+            // --- Async Jobs (202 Accepted polled until the job finishes) ---
+            const asyncJob = getAsyncJobOptions(operationId, path, method, operationMcpExtension, options);
+
+            // --- Output Schema (shared by every success response, e.g., 200) ---
+            const output = getOutputSchema(operation, asyncJob !== undefined);
 
             // --- Assemble MCP Tool Definition ---
             const mcpDefinition: McpToolDefinition = {
                 name: toolName,
                 description: toolDescription,
                 inputSchema: inputJsonSchema,
-                outputSchema: outputJsonSchema, // Properly include the outputSchema
+                outputSchema: output?.schema,
+                ...(output ? { outputStatusCodes: output.statusCodes } : {}),
                 annotations: {
-                    // Add any relevant annotations, e.g., from spec extensions
+                    ...getToolAnnotations(method, operation, operationMcpExtension),
                     'x-openapi-path': path,
                     'x-openapi-method': method.toUpperCase(),
                 }
@@ -433,17 +712,136 @@ export function mapOpenApiToMcpTools(openapi: ProcessedOpenAPI): MappedTool[] {
                 requestBody: isRequestBodyObject(operation.requestBody) ? operation.requestBody : undefined, // Store original body info
                 securityRequirements: operation.security !== undefined ? operation.security : globalSecurity, // Operation security overrides global
                 securitySchemes, // Include security schemes from OpenAPI components
+                ...(asyncJob ? { asyncJob } : {}),
+                ...(source.namespace ? { namespace: source.namespace } : {}),
+                ...(operationId ? { operationId } : {}),
             };
 
-            mappedTools.push({ mcpToolDefinition: mcpDefinition, apiCallDetails: apiDetails });
-            console.error(`Mapped tool: ${toolName} (${method.toUpperCase()} ${path})`);
+            const mappedTool: MappedTool = { mcpToolDefinition: mcpDefinition, apiCallDetails: apiDetails };
+            if (operation.tags && operation.tags.length > 0) {
+                mappedTool.tags = operation.tags;
+            }
+            // Parameters (or their schemas) can name a GET operation listing the values to complete them with
+            const completionLookups: Record<string, CompletionLookup> = {};
+            for (const param of allParameters) {
+                const extension = (param as any)['x-mcp-completion'] ?? (param.schema as any)?.['x-mcp-completion'];
+                const lookup = parseCompletionLookup(extension, source.namespace, `${method.toUpperCase()} ${path} ${param.name}`);
+                if (lookup) {
+                    completionLookups[param.name] = lookup;
+                }
+            }
+            if (Object.keys(completionLookups).length > 0) {
+                mappedTool.completionLookups = completionLookups;
+            }
+            const groups = getToolGroups(operationId, path, method, operation.tags, options);
+            if (groups.length > 0) {
+                mappedTool.groups = groups;
+            }
+
+            // --- Optional Resource Template ---
+            const resourceUriTemplate = getResourceUriTemplate(path, method, operation, allParameters, operationMcpExtension, pathMcpExtension, source.namespace, options);
+            if (resourceUriTemplate) {
+                mappedTool.resourceUriTemplate = resourceUriTemplate;
+                log.debug('Also exposed as resource template', { tool: toolName, uriTemplate: resourceUriTemplate });
+            }
+            if (asyncJob) {
+                log.debug('Polling 202 Accepted responses', { tool: toolName, timeout: asyncJob.timeout });
+            }
+
+            mappedTools.push(mappedTool);
+            log.debug('Mapped tool', { tool: toolName, method: method.toUpperCase(), path });
         }
     }
 
-    console.error(`Total tools mapped: ${mappedTools.length}`);
+    log.info('Mapped OpenAPI operations to tools', { count: mappedTools.length });
     return mappedTools;
 }
 
+/**
+ * Compares two mapped tool sets by tool name
+ * @param previous The tool set currently served
+ * @param next The newly mapped tool set
+ * @returns Tools that were added, removed, or changed (definition or API call details differ)
+ */
+export function diffMappedTools(previous: MappedTool[], next: MappedTool[]): ToolSetDiff {
+    const previousByName = new Map(previous.map(tool => [tool.mcpToolDefinition.name, tool]));
+    const nextNames = new Set(next.map(tool => tool.mcpToolDefinition.name));
+    const diff: ToolSetDiff = { added: [], removed: [], changed: [] };
+
+    for (const tool of next) {
+        const previousTool = previousByName.get(tool.mcpToolDefinition.name);
+        if (!previousTool) {
+            diff.added.push(tool);
+        } else if (JSON.stringify(previousTool) !== JSON.stringify(tool)) {
+            diff.changed.push(tool);
+        }
+    }
+
+    diff.removed = previous.filter(tool => !nextNames.has(tool.mcpToolDefinition.name));
+    return diff;
+}
+
+/**
+ * Finds tool names mapped from more than one mounted spec
+ * @param tools The tools mapped from every spec
+ * @returns One description per colliding name, e.g. `getStatus (billing, inventory)`
+ */
+export function findToolNameCollisions(tools: MappedTool[]): string[] {
+    const namespacesByName = new Map<string, Set<string>>();
+    for (const tool of tools) {
+        const name = tool.mcpToolDefinition.name;
+        const namespaces = namespacesByName.get(name) || new Set<string>();
+        namespaces.add(tool.apiCallDetails.namespace || '');
+        namespacesByName.set(name, namespaces);
+    }
+
+    return [...namespacesByName]
+        .filter(([, namespaces]) => namespaces.size > 1)
+        .map(([name, namespaces]) => `${name} (${[...namespaces].join(', ')})`);
+}
+
+/**
+ * Describes a tool set diff as human-readable lines, including which input parameters
+ * were added, removed or changed for each changed tool
+ * @param previous The tool set the diff was computed against
+ * @param diff The diff returned by diffMappedTools
+ * @returns One line per added, removed or changed tool
+ */
+export function describeToolSetDiff(previous: MappedTool[], diff: ToolSetDiff): string[] {
+    const lines: string[] = [];
+    const previousByName = new Map(previous.map(tool => [tool.mcpToolDefinition.name, tool]));
+
+    for (const tool of diff.added) {
+        lines.push(`+ ${tool.mcpToolDefinition.name} (${tool.apiCallDetails.method} ${tool.apiCallDetails.pathTemplate})`);
+    }
+    for (const tool of diff.removed) {
+        lines.push(`- ${tool.mcpToolDefinition.name} (${tool.apiCallDetails.method} ${tool.apiCallDetails.pathTemplate})`);
+    }
+    for (const tool of diff.changed) {
+        const name = tool.mcpToolDefinition.name;
+        const oldProperties = previousByName.get(name)?.mcpToolDefinition.inputSchema.properties || {};
+        const newProperties = tool.mcpToolDefinition.inputSchema.properties || {};
+
+        const details: string[] = [];
+        const added = Object.keys(newProperties).filter(prop => !(prop in oldProperties));
+        const removed = Object.keys(oldProperties).filter(prop => !(prop in newProperties));
+        const changed = Object.keys(newProperties).filter(prop =>
+            prop in oldProperties && JSON.stringify(oldProperties[prop]) !== JSON.stringify(newProperties[prop]));
+        const oldRequired = JSON.stringify(previousByName.get(name)?.mcpToolDefinition.inputSchema.required || []);
+        const newRequired = JSON.stringify(tool.mcpToolDefinition.inputSchema.required || []);
+
+        if (added.length > 0) details.push(`added inputs: ${added.join(', ')}`);
+        if (removed.length > 0) details.push(`removed inputs: ${removed.join(', ')}`);
+        if (changed.length > 0) details.push(`changed inputs: ${changed.join(', ')}`);
+        if (oldRequired !== newRequired) details.push(`required inputs: ${oldRequired} -> ${newRequired}`);
+        if (details.length === 0) details.push('definition changed, input schema unchanged');
+
+        lines.push(`~ ${name}: ${details.join('; ')}`);
+    }
+
+    return lines;
+}
+
 // Helper functions for type checking
 function isReferenceObject(obj: any): obj is OpenAPIV3.ReferenceObject {
     return obj && typeof obj === 'object' && '$ref' in obj;
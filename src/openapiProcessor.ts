@@ -5,8 +5,11 @@ import fs from 'fs/promises';
 import path from 'path';
 import YAML from 'js-yaml'; // npm install js-yaml @types/js-yaml
 import { config } from './config';
-import type { ProcessedOpenAPI } from './types';
-import { isHttpUrl, fetchFromUrl } from './utils/httpClient';
+import type { ProcessedOpenAPI, SpecSource } from './types';
+import { isHttpUrl, fetchFromUrl, ResponseCache } from './utils/httpClient';
+import { createLogger } from './utils/logger';
+
+const log = createLogger('openapiProcessor');
 
 /**
  * Validates an OpenAPI specification for required elements
@@ -53,19 +56,19 @@ function validateOpenApiSpec(api: any): void {
         throw new Error('No valid operations found in any path. Cannot create tools.');
     }
     
-    console.error('OpenAPI specification validation passed');
+    log.debug('OpenAPI specification validation passed');
 }
 
-async function loadSpec(filePath: string): Promise<any> {
-    console.error(`Loading OpenAPI spec from: ${filePath}`);
+async function loadSpec(filePath: string, responseCache?: ResponseCache): Promise<any> {
+    log.info('Loading OpenAPI spec', { path: filePath });
     try {
         let api;
         
         // Handle HTTP URLs
         if (isHttpUrl(filePath)) {
-            console.error(`Detected HTTP URL for spec: ${filePath}`);
+            log.debug('Detected HTTP URL for spec', { url: filePath });
             // Use our custom HTTP client instead of letting SwaggerParser handle URLs
-            const content = await fetchFromUrl(filePath);
+            const content = await fetchFromUrl(filePath, responseCache);
             // Parse the content based on file extension
             if (filePath.endsWith('.yaml') || filePath.endsWith('.yml')) {
                 api = YAML.load(content);
@@ -80,14 +83,14 @@ async function loadSpec(filePath: string): Promise<any> {
             api = await SwaggerParser.dereference(filePath);
         }
         
-        console.error(`Successfully loaded and dereferenced spec: ${api.info.title} v${api.info.version}`);
+        log.info('Loaded and dereferenced spec', { title: api.info.title, version: api.info.version });
         
         // Additional validation beyond what SwaggerParser does
         validateOpenApiSpec(api);
         
         return api;
     } catch (err: any) {
-        console.error(`Error loading/parsing OpenAPI spec: ${filePath}`, err.message);
+        log.error('Error loading/parsing OpenAPI spec', { path: filePath, error: err.message });
         throw err;
     }
 }
@@ -141,7 +144,7 @@ function validateOverlay(overlay: any): boolean {
     } else {
         // For legacy/simple overlays without the formal structure, 
         // verify that it has some properties that could modify an OpenAPI spec
-        console.error('Warning: Using legacy overlay format, not compliant with OpenAPI Overlay Specification 1.0.0');
+        log.warning('Using legacy overlay format, not compliant with OpenAPI Overlay Specification 1.0.0');
         
         const hasValidProperties = overlay.info || 
                                  overlay.paths || 
@@ -157,14 +160,14 @@ function validateOverlay(overlay: any): boolean {
     return true;
 }
 
-async function loadOverlay(filePath: string): Promise<any> {
-    console.error(`Loading overlay file: ${filePath}`);
+async function loadOverlay(filePath: string, responseCache?: ResponseCache): Promise<any> {
+    log.info('Loading overlay file', { path: filePath });
     try {
         let content: string;
         
         if (isHttpUrl(filePath)) {
             // Fetch overlay from HTTP URL
-            content = await fetchFromUrl(filePath);
+            content = await fetchFromUrl(filePath, responseCache);
         } else {
             // Load overlay from local file system
             content = await fs.readFile(filePath, 'utf-8');
@@ -186,44 +189,58 @@ async function loadOverlay(filePath: string): Promise<any> {
         
         return overlay;
     } catch (err: any) {
-        console.error(`Error loading overlay file ${filePath}:`, err.message);
+        log.error('Error loading overlay file', { path: filePath, error: err.message });
         throw err;
     }
 }
 
-export async function getProcessedOpenApi(): Promise<any> {
-    let baseApi = await loadSpec(config.specPath);
+/**
+ * Loads a spec, applies its overlays and checks that the target API URL can be determined.
+ * An overlay that cannot be loaded or applied is skipped, unless failOnOverlayError is set.
+ * @param source The spec to load; defaults to the spec configured at the top level
+ * @param options.failOnOverlayError Fail instead of skipping a broken overlay, e.g. when reloading,
+ *   where the spec without the overlay would replace tools that are working
+ * @param options.responseCache The cache remote specs and overlays are revalidated against
+ * @returns The processed spec
+ * @throws Error if the spec cannot be loaded, or an overlay cannot be applied and failOnOverlayError is set
+ */
+export async function getProcessedOpenApi(
+    source: Pick<SpecSource, 'specPath' | 'overlayPaths' | 'targetApiBaseUrl'> = config,
+    options: { failOnOverlayError?: boolean; responseCache?: ResponseCache } = {}
+): Promise<any> {
+    let baseApi = await loadSpec(source.specPath, options.responseCache);
 
-    if (config.overlayPaths.length > 0) {
-        console.error(`Applying overlays...`);
+    if (source.overlayPaths.length > 0) {
+        log.debug('Applying overlays');
         
         // Apply each overlay sequentially
-        for (const overlayPath of config.overlayPaths) {
+        for (const overlayPath of source.overlayPaths) {
             try {
                 // Load the overlay
-                const overlayJson = await loadOverlay(overlayPath);
+                const overlayJson = await loadOverlay(overlayPath, options.responseCache);
                 
                 // Apply the overlay using the OverlayApplier instance
                 const overlayApplier = new OverlayApplier();
                 baseApi = overlayApplier.apply(baseApi, overlayJson);
                 
-                console.error(`Applied overlay: ${overlayPath}`);
+                log.info('Applied overlay', { path: overlayPath });
             } catch (err) {
-                // Decide whether to continue or fail on overlay error
-                console.error(`Failed to apply overlay ${overlayPath}. Continuing without it.`, err);
-                // throw err; // Or re-throw to stop the process
+                if (options.failOnOverlayError) {
+                    throw new Error(`Failed to apply overlay ${overlayPath}: ${(err as Error).message}`);
+                }
+                log.error('Failed to apply overlay, continuing without it', { path: overlayPath, error: err });
             }
         }
-        console.error('Overlays applied successfully.');
+        log.debug('Overlays applied successfully');
     }
 
     // Ensure servers are present if needed and targetApiBaseUrl isn't set
-    if (!config.targetApiBaseUrl && (!baseApi.servers || baseApi.servers.length === 0)) {
-       console.error("Warning: No targetApiBaseUrl configured and OpenAPI spec has no servers defined.");
+    if (!source.targetApiBaseUrl && (!baseApi.servers || baseApi.servers.length === 0)) {
+       log.warning('No targetApiBaseUrl configured and OpenAPI spec has no servers defined');
        // Potentially throw an error if a base URL is absolutely required
        throw new Error("Cannot determine target API URL. Either configure targetApiBaseUrl or ensure OpenAPI spec includes servers.");
-    } else if (!config.targetApiBaseUrl) {
-         console.error(`Using server URL from OpenAPI spec: ${baseApi.servers[0].url}`);
+    } else if (!source.targetApiBaseUrl) {
+         log.info('Using server URL from OpenAPI spec', { url: baseApi.servers[0].url });
     }
 
 
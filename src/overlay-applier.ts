@@ -35,6 +35,9 @@
 import { JSONPath } from 'jsonpath-plus';
 import { load as yamlLoad, dump as yamlDump } from 'js-yaml';
 import deepmerge from 'deepmerge';
+import { createLogger } from './utils/logger';
+
+const log = createLogger('overlayApplier');
 
 /** Overlay → info object */
 export interface OverlayInfo {
@@ -234,7 +237,7 @@ export class OverlayApplier {
       }
     } catch (err) {
       // Log error but don't throw - non-fatal per spec
-      console.error(`Error applying overlay action with target ${expr}:`, err);
+      log.error('Error applying overlay action', { target: expr, error: err });
     }
     
     return doc;
@@ -0,0 +1,112 @@
+import path from 'path';
+import type { AxiosRequestConfig } from 'axios';
+import type { ApiClientResponse, MappedTool, OpenApiMcpPlugin } from './types';
+import { createLogger } from './utils/logger';
+
+const log = createLogger('plugins');
+
+const HOOKS = ['onToolsMapped', 'beforeRequest', 'afterResponse', 'onError'] as const;
+
+/**
+ * Loads a plugin module, resolved against the working directory. The module exports the plugin,
+ * as `module.exports` or as its default export.
+ * @param entry The configured path of the module, or an already loaded plugin
+ * @returns The plugin, named after the module file unless it has a name
+ * @throws Error if the module cannot be loaded or does not export a plugin
+ */
+export function loadPlugin(entry: string | OpenApiMcpPlugin): OpenApiMcpPlugin {
+    let plugin: any = entry;
+    let label = typeof entry === 'string' ? entry : entry?.name || 'plugin';
+    if (typeof entry === 'string') {
+        const modulePath = path.resolve(entry.trim());
+        let loaded: any;
+        try {
+            loaded = require(modulePath);
+        } catch (error) {
+            throw new Error(`Failed to load plugin '${entry}': ${(error as Error).message}`);
+        }
+        plugin = loaded?.default ?? loaded;
+        label = path.basename(modulePath, path.extname(modulePath));
+    }
+
+    if (!plugin || typeof plugin !== 'object') {
+        throw new Error(`Plugin '${label}' must export an object with hook functions (${HOOKS.join(', ')}).`);
+    }
+    for (const hook of HOOKS) {
+        if (plugin[hook] !== undefined && typeof plugin[hook] !== 'function') {
+            throw new Error(`Hook '${hook}' of plugin '${label}' must be a function.`);
+        }
+    }
+    if (!plugin.name) {
+        plugin.name = label;
+    }
+    return plugin;
+}
+
+/**
+ * Passes the mapped tools through the onToolsMapped hook of every plugin, in order
+ * @param plugins The plugins
+ * @param tools The mapped tools
+ * @returns The tools returned by the last hook, or the tools changed in place
+ */
+export async function runToolsMappedHooks(plugins: OpenApiMcpPlugin[], tools: MappedTool[]): Promise<MappedTool[]> {
+    let result = tools;
+    for (const plugin of plugins) {
+        if (plugin.onToolsMapped) {
+            result = (await plugin.onToolsMapped(result)) || result;
+            log.debug('Tools mapped by plugin', { plugin: plugin.name, tools: result.length });
+        }
+    }
+    return result;
+}
+
+/**
+ * Runs the beforeRequest hook of every plugin, in order, until one returns a response
+ * @param plugins The plugins
+ * @param toolName The name of the tool the call is made for
+ * @param requestConfig The request about to be sent, changed in place by the hooks
+ * @param input The tool arguments
+ * @returns The response of the hook that short-circuited the call, or undefined to send the request
+ * @throws Error if a hook rejects the call
+ */
+export async function runBeforeRequestHooks(
+    plugins: OpenApiMcpPlugin[],
+    toolName: string,
+    requestConfig: AxiosRequestConfig,
+    input: Record<string, any>
+): Promise<ApiClientResponse | undefined> {
+    for (const plugin of plugins) {
+        const response = plugin.beforeRequest ? await plugin.beforeRequest(toolName, requestConfig, input) : undefined;
+        if (response) {
+            log.info('Request answered by plugin', { plugin: plugin.name, tool: toolName });
+            return response;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Runs the afterResponse hook of every plugin on a successful result, then the onError hook of
+ * every plugin for as long as the result is a failure
+ * @param plugins The plugins
+ * @param toolName The name of the tool the call was made for
+ * @param response The result of the call
+ * @returns The result, as changed or replaced by the hooks
+ */
+export async function runResponseHooks(plugins: OpenApiMcpPlugin[], toolName: string, response: ApiClientResponse): Promise<ApiClientResponse> {
+    let result = response;
+    for (const plugin of plugins) {
+        if (result.success && plugin.afterResponse) {
+            result = (await plugin.afterResponse(toolName, result)) || result;
+        }
+    }
+    for (const plugin of plugins) {
+        if (!result.success && plugin.onError) {
+            result = (await plugin.onError(toolName, result)) || result;
+            if (result.success) {
+                log.info('Failed call recovered by plugin', { plugin: plugin.name, tool: toolName });
+            }
+        }
+    }
+    return result;
+}
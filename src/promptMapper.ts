@@ -0,0 +1,158 @@
+import { McpServer, RegisteredPrompt } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { OpenAPIV3 } from 'openapi-types';
+import { z } from 'zod/v4';
+import { parseCompletionLookup } from './mcpMapper';
+import type { MappedPrompt, ProcessedOpenAPI, PromptArgumentDefinition, PromptMessageTemplate } from './types';
+import { createLogger } from './utils/logger';
+
+const log = createLogger('promptMapper');
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * Validates one entry of an x-mcp-prompts extension and converts it to a MappedPrompt.
+ * An entry defines either a single user message via `template`, or a list of `messages`.
+ * Arguments can list completion candidates in `enum` and `examples`, or look them up with x-mcp-completion.
+ * @param definition The raw entry from the spec
+ * @param location Where the entry was found, for log messages
+ * @param namespace Namespace of the spec, which completion lookups refer to
+ * @returns The mapped prompt, or undefined if the entry is invalid
+ */
+function toMappedPrompt(definition: any, location: string, namespace?: string): MappedPrompt | undefined {
+    if (!definition || typeof definition !== 'object' || typeof definition.name !== 'string' || !definition.name) {
+        log.warning('Skipping x-mcp-prompts entry without a name', { location });
+        return undefined;
+    }
+    const name: string = definition.name;
+
+    let messages: PromptMessageTemplate[];
+    if (typeof definition.template === 'string') {
+        messages = [{ role: 'user', text: definition.template }];
+    } else if (Array.isArray(definition.messages)) {
+        const invalid = definition.messages.some((message: any) =>
+            !message || (message.role !== 'user' && message.role !== 'assistant') || typeof message.text !== 'string');
+        if (invalid) {
+            log.warning('Skipping prompt: every message needs a role (user or assistant) and a text', { prompt: name, location });
+            return undefined;
+        }
+        messages = definition.messages.map((message: any) => ({ role: message.role, text: message.text }));
+    } else {
+        log.warning('Skipping prompt: it defines neither a template nor messages', { prompt: name, location });
+        return undefined;
+    }
+
+    const args: PromptArgumentDefinition[] = [];
+    for (const argument of Array.isArray(definition.arguments) ? definition.arguments : []) {
+        if (!argument || typeof argument.name !== 'string' || !argument.name) {
+            log.warning('Skipping prompt: every argument needs a name', { prompt: name, location });
+            return undefined;
+        }
+        const values = [...(Array.isArray(argument.enum) ? argument.enum : []), ...(Array.isArray(argument.examples) ? argument.examples : [])];
+        const completion = parseCompletionLookup(argument['x-mcp-completion'], namespace, `${location} prompt ${name}`);
+        args.push({
+            name: argument.name,
+            description: typeof argument.description === 'string' ? argument.description : undefined,
+            required: argument.required === true,
+            ...(values.length > 0 ? { values: values.map(String) } : {}),
+            ...(completion ? { completion } : {}),
+        });
+    }
+
+    return {
+        name,
+        title: typeof definition.title === 'string' ? definition.title : undefined,
+        description: typeof definition.description === 'string' ? definition.description : undefined,
+        arguments: args,
+        messages,
+    };
+}
+
+/**
+ * Collects the prompt templates defined by x-mcp-prompts extensions at the document,
+ * path and operation level. Prompt names must be unique; later duplicates are skipped.
+ * @param openapi The processed OpenAPI specification (overlays already applied)
+ * @param namePrefix Prepended to every prompt name, e.g. billing_ when several specs are mounted
+ * @param namespace Namespace of the spec when several specs are mounted
+ * @returns The prompts in document order
+ */
+export function mapOpenApiToMcpPrompts(openapi: ProcessedOpenAPI, namePrefix: string = '', namespace?: string): MappedPrompt[] {
+    const prompts: MappedPrompt[] = [];
+    const names = new Set<string>();
+
+    const collect = (extension: any, location: string) => {
+        if (extension === undefined) return;
+        if (!Array.isArray(extension)) {
+            log.warning('Ignoring x-mcp-prompts: expected an array of prompt definitions', { location });
+            return;
+        }
+        for (const definition of extension) {
+            const prompt = toMappedPrompt(definition, location, namespace);
+            if (!prompt) continue;
+            prompt.name = `${namePrefix}${prompt.name}`;
+            if (names.has(prompt.name)) {
+                log.warning('Skipping duplicate prompt', { prompt: prompt.name, location });
+                continue;
+            }
+            names.add(prompt.name);
+            prompts.push(prompt);
+        }
+    };
+
+    collect(openapi['x-mcp-prompts'], 'document level');
+
+    for (const path in openapi.paths || {}) {
+        const pathItem = openapi.paths[path] as OpenAPIV3.PathItemObject;
+        if (!pathItem) continue;
+        collect((pathItem as any)['x-mcp-prompts'], path);
+
+        for (const method of Object.keys(pathItem)) {
+            if (!HTTP_METHODS.includes(method.toLowerCase())) continue;
+            const operation = pathItem[method as keyof OpenAPIV3.PathItemObject] as any;
+            if (operation && typeof operation === 'object') {
+                collect(operation['x-mcp-prompts'], `${method.toUpperCase()} ${path}`);
+            }
+        }
+    }
+
+    log.info('Mapped x-mcp-prompts to prompts', { count: prompts.length });
+    return prompts;
+}
+
+/**
+ * Substitutes {{argument}} placeholders; placeholders of omitted arguments become empty
+ * @param text The message template
+ * @param args The argument values supplied by the client
+ * @returns The rendered text
+ */
+function renderTemplate(text: string, args: Record<string, string | undefined>): string {
+    return text.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_match, name: string) => args[name] ?? '');
+}
+
+/**
+ * Registers a mapped prompt template as an MCP prompt
+ * @param server The server to register the prompt on
+ * @param prompt The mapped prompt
+ * @returns The registered prompt handle
+ */
+export function registerMappedPrompt(server: McpServer, prompt: MappedPrompt): RegisteredPrompt {
+    log.debug('Registering MCP prompt', { prompt: prompt.name });
+
+    // The raw shape of the arguments; MCP prompt arguments are always strings
+    const argsSchema: Record<string, z.ZodString | z.ZodOptional<z.ZodString>> = {};
+    for (const argument of prompt.arguments) {
+        const schema = argument.description ? z.string().describe(argument.description) : z.string();
+        argsSchema[argument.name] = argument.required ? schema : schema.optional();
+    }
+
+    return server.registerPrompt(
+        prompt.name,
+        { title: prompt.title, description: prompt.description, argsSchema },
+        args => ({
+            description: prompt.description,
+            messages: prompt.messages.map(message => ({
+                role: message.role,
+                content: { type: 'text' as const, text: renderTemplate(message.text, args || {}) },
+            })),
+        })
+    );
+}
@@ -0,0 +1,316 @@
+import { McpServer, ResourceTemplate, RegisteredResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { ReadResourceResult, Resource, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { OpenAPIV3 } from 'openapi-types';
+import type { MappedTool, ProcessedOpenAPI, ServerConfig, SessionCredentials } from './types';
+import { executeApiCall } from './apiClient';
+import { config } from './config';
+import { getMimeType } from './utils/mediaContent';
+import { createLogger } from './utils/logger';
+
+const log = createLogger('resourceMapper');
+
+// Runs the read of a resource template for a request, e.g. in the log context of the server it was sent to
+export type HandleResourceRead = (
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+    read: () => Promise<ReadResourceResult>
+) => Promise<ReadResourceResult>;
+
+// Resource URIs of a single spec; mounted specs insert their namespace, e.g. openapi://billing/spec
+export const SPEC_RESOURCE_URI = 'openapi://spec';
+export const OPERATION_RESOURCE_TEMPLATE = 'openapi://operations/{operationId}';
+export const SCHEMA_RESOURCE_TEMPLATE = 'openapi://schemas/{name}';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+// An operation of the spec together with the path and method it is defined under
+export interface LocatedOperation {
+    path: string;
+    method: string;
+    operation: OpenAPIV3.OperationObject;
+}
+
+/**
+ * Serializes part of a dereferenced spec to JSON.
+ * Dereferencing recursive schemas produces circular object graphs, so repeated ancestors
+ * are replaced by a marker instead of failing.
+ * @param value The value to serialize
+ * @returns Pretty-printed JSON
+ */
+function toJson(value: unknown): string {
+    const ancestors: object[] = [];
+    return JSON.stringify(value, function (this: any, _key: string, val: any) {
+        if (typeof val !== 'object' || val === null) {
+            return val;
+        }
+        // `this` is the object holding the current key: drop ancestors we have left
+        while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) {
+            ancestors.pop();
+        }
+        if (ancestors.includes(val)) {
+            return '[Circular]';
+        }
+        ancestors.push(val);
+        return val;
+    }, 2);
+}
+
+/**
+ * Lists every operation of the spec that has an operationId
+ * @param openapi The processed OpenAPI specification
+ * @returns The operations in document order
+ */
+export function listOperations(openapi: ProcessedOpenAPI): LocatedOperation[] {
+    const operations: LocatedOperation[] = [];
+    for (const path in openapi.paths || {}) {
+        const pathItem = openapi.paths[path] as OpenAPIV3.PathItemObject;
+        if (!pathItem) continue;
+
+        for (const method of Object.keys(pathItem)) {
+            if (!HTTP_METHODS.includes(method.toLowerCase())) continue;
+
+            const operation = pathItem[method as keyof OpenAPIV3.PathItemObject] as OpenAPIV3.OperationObject;
+            if (operation && typeof operation === 'object' && operation.operationId) {
+                operations.push({ path, method: method.toUpperCase(), operation });
+            }
+        }
+    }
+    return operations;
+}
+
+/**
+ * Finds an operation by its operationId
+ * @param openapi The processed OpenAPI specification
+ * @param operationId The operationId to look for
+ * @returns The operation, or undefined if the spec has no such operation
+ */
+export function findOperation(openapi: ProcessedOpenAPI, operationId: string): LocatedOperation | undefined {
+    return listOperations(openapi).find(located => located.operation.operationId === operationId);
+}
+
+/**
+ * Lists the operations of a spec as openapi://operations resources
+ * @param openapi The spec
+ * @param uriRoot The URI prefix of the resources of the spec
+ * @returns The listed resources
+ */
+function listOperationResources(openapi: ProcessedOpenAPI, uriRoot: string): Resource[] {
+    return listOperations(openapi).map(({ path, method, operation }) => ({
+        uri: `${uriRoot}operations/${encodeURIComponent(operation.operationId!)}`,
+        name: operation.operationId!,
+        title: `${method} ${path}`,
+        description: operation.summary || operation.description,
+        mimeType: 'application/json',
+    }));
+}
+
+/**
+ * Lists the component schemas of a spec as openapi://schemas resources
+ * @param openapi The spec
+ * @param uriRoot The URI prefix of the resources of the spec
+ * @returns The listed resources
+ */
+function listSchemaResources(openapi: ProcessedOpenAPI, uriRoot: string): Resource[] {
+    return Object.keys(openapi.components?.schemas || {}).map(name => ({
+        uri: `${uriRoot}schemas/${encodeURIComponent(name)}`,
+        name,
+        description: openapi.components.schemas[name]?.description,
+        mimeType: 'application/json',
+    }));
+}
+
+/**
+ * Describes the resources registerOpenApiResources lists for a spec, so reloads can tell whether they changed
+ * @param openapi The spec
+ * @returns A description that differs whenever the listed resources differ
+ */
+export function describeListedResources(openapi: ProcessedOpenAPI): string {
+    return JSON.stringify([...listOperationResources(openapi, ''), ...listSchemaResources(openapi, '')]);
+}
+
+/**
+ * Registers the OpenAPI document as MCP resources:
+ * - `openapi://spec`: the effective spec after overlays
+ * - `openapi://operations/{operationId}`: one operation with its path and method
+ * - `openapi://schemas/{name}`: one component schema
+ * When several specs are mounted, each spec's resources are namespaced, e.g. `openapi://billing/spec`.
+ * @param server The server to register the resources on
+ * @param getSpec Returns the spec currently served (it changes when the spec is reloaded)
+ * @param namespace The namespace of the spec, if several specs are mounted
+ */
+export function registerOpenApiResources(server: McpServer, getSpec: () => ProcessedOpenAPI, namespace?: string): void {
+    const uriRoot = namespace ? `openapi://${namespace}/` : 'openapi://';
+    const namePrefix = namespace ? `${namespace}-` : '';
+    const titleSuffix = namespace ? ` (${namespace})` : '';
+
+    server.registerResource(
+        `${namePrefix}openapi-spec`,
+        `${uriRoot}spec`,
+        {
+            title: `OpenAPI specification${titleSuffix}`,
+            description: 'The effective OpenAPI document (after overlays) the tools are generated from',
+            mimeType: 'application/json',
+        },
+        async (uri) => ({
+            contents: [{ uri: uri.href, mimeType: 'application/json', text: toJson(getSpec()) }],
+        })
+    );
+
+    server.registerResource(
+        `${namePrefix}openapi-operation`,
+        new ResourceTemplate(`${uriRoot}operations/{operationId}`, {
+            list: async () => ({ resources: listOperationResources(getSpec(), uriRoot) }),
+        }),
+        {
+            title: `OpenAPI operation${titleSuffix}`,
+            description: 'Documentation of a single API operation: path, method, parameters, request body and responses',
+            mimeType: 'application/json',
+        },
+        async (uri, { operationId }) => {
+            const located = findOperation(getSpec(), decodeURIComponent(String(operationId)));
+            if (!located) {
+                throw new McpError(ErrorCode.InvalidParams, `Operation not found: ${operationId}`);
+            }
+            return {
+                contents: [{
+                    uri: uri.href,
+                    mimeType: 'application/json',
+                    text: toJson({ path: located.path, method: located.method, ...located.operation }),
+                }],
+            };
+        }
+    );
+
+    server.registerResource(
+        `${namePrefix}openapi-schema`,
+        new ResourceTemplate(`${uriRoot}schemas/{name}`, {
+            list: async () => ({ resources: listSchemaResources(getSpec(), uriRoot) }),
+        }),
+        {
+            title: `OpenAPI component schema${titleSuffix}`,
+            description: 'A schema defined under components.schemas',
+            mimeType: 'application/json',
+        },
+        async (uri, { name }) => {
+            const schemaName = decodeURIComponent(String(name));
+            const schema = getSpec().components?.schemas?.[schemaName];
+            if (!schema) {
+                throw new McpError(ErrorCode.InvalidParams, `Schema not found: ${schemaName}`);
+            }
+            return {
+                contents: [{ uri: uri.href, mimeType: 'application/json', text: toJson(schema) }],
+            };
+        }
+    );
+}
+
+/**
+ * Converts string values to the parameter types declared in the spec
+ * @param values Values by parameter name, e.g. URI template variables or completion context arguments
+ * @param parameters Parameter definitions of the operation
+ * @returns The input object for executeApiCall
+ */
+export function toParameterInput(
+    values: Record<string, string>,
+    parameters: OpenAPIV3.ParameterObject[]
+): Record<string, any> {
+    const input: Record<string, any> = {};
+    for (const [name, value] of Object.entries(values)) {
+        const schema = parameters.find(param => param.name === name)?.schema as OpenAPIV3.SchemaObject | undefined;
+
+        switch (schema?.type) {
+            case 'integer':
+            case 'number':
+                input[name] = Number(value);
+                break;
+            case 'boolean':
+                input[name] = value === 'true';
+                break;
+            default:
+                input[name] = value;
+        }
+    }
+    return input;
+}
+
+/**
+ * Converts URI template variables to the parameter types declared in the spec,
+ * since everything extracted from a URI is a string
+ * @param variables Variables matched from the resource URI
+ * @param parameters Parameter definitions of the operation
+ * @returns The input object for executeApiCall
+ */
+function uriVariablesToInput(
+    variables: Record<string, string | string[]>,
+    parameters: OpenAPIV3.ParameterObject[]
+): Record<string, any> {
+    const values: Record<string, string> = {};
+    for (const [name, rawValue] of Object.entries(variables)) {
+        values[name] = decodeURIComponent(Array.isArray(rawValue) ? rawValue[0] : rawValue);
+    }
+    return toParameterInput(values, parameters);
+}
+
+/**
+ * Registers a mapped GET operation as a resource template whose reads call the upstream API
+ * @param server The server to register the resource template on
+ * @param tool The mapped tool; must have a resourceUriTemplate
+ * @param sessionCredentials Upstream credentials of the session the server serves (HTTP transports)
+ * @param serverConfig The configuration of the server
+ * @param handleRead Runs each read; by default reads run as they are
+ * @returns The registered resource template handle
+ */
+export function registerApiResourceTemplate(
+    server: McpServer,
+    tool: MappedTool,
+    sessionCredentials?: SessionCredentials,
+    serverConfig: ServerConfig = config,
+    handleRead: HandleResourceRead = (_extra, read) => read()
+): RegisteredResourceTemplate {
+    const { mcpToolDefinition, apiCallDetails, resourceUriTemplate } = tool;
+    log.debug('Registering MCP resource template', { uriTemplate: resourceUriTemplate, tool: mcpToolDefinition.name });
+
+    return server.registerResource(
+        mcpToolDefinition.name,
+        new ResourceTemplate(resourceUriTemplate!, { list: undefined }),
+        {
+            title: `${apiCallDetails.method} ${apiCallDetails.pathTemplate}`,
+            description: mcpToolDefinition.description,
+            mimeType: 'application/json',
+        },
+        (uri, variables, extra) => handleRead(extra, async () => {
+            const input = uriVariablesToInput(variables, apiCallDetails.parameters);
+            const result = await executeApiCall(apiCallDetails, input, sessionCredentials, { signal: extra.signal, toolName: mcpToolDefinition.name }, serverConfig);
+
+            if (!result.success) {
+                log.warning('Reading resource failed', { uri: uri.href, status: result.statusCode, error: result.error });
+                const errorCode = result.statusCode === 400 || result.statusCode === 404
+                    ? ErrorCode.InvalidParams
+                    : ErrorCode.InternalError;
+                throw new McpError(errorCode, result.error || `API Error ${result.statusCode}`, result.data);
+            }
+
+            if (Buffer.isBuffer(result.data)) {
+                if (result.data.length > serverConfig.maxBinarySize) {
+                    throw new McpError(
+                        ErrorCode.InvalidRequest,
+                        `Response of ${result.data.length} bytes exceeds the limit of ${serverConfig.maxBinarySize} bytes; fetch ${result.url} directly`
+                    );
+                }
+                return {
+                    contents: [{ uri: uri.href, mimeType: getMimeType(result.contentType), blob: result.data.toString('base64') }],
+                };
+            }
+
+            const isText = typeof result.data === 'string';
+            return {
+                contents: [{
+                    uri: uri.href,
+                    mimeType: isText ? 'text/plain' : 'application/json',
+                    text: isText ? result.data : JSON.stringify(result.data),
+                }],
+            };
+        })
+    );
+}
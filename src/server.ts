@@ -1,190 +1,768 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
-import { config } from './config';
+import { McpServer, RegisteredTool, RegisteredResourceTemplate, RegisteredPrompt } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpError, ErrorCode, SetLevelRequestSchema, CompleteRequestSchema, PromptReferenceSchema, ResourceTemplateReferenceSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { CallToolResult, CompleteResult, LoggingLevel, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { z } from 'zod/v4';
+import type { JSONSchema7 } from 'json-schema';
+import { config, createServerLogContext, resolveConfig } from './config';
 import { getProcessedOpenApi } from './openapiProcessor';
-import { mapOpenApiToMcpTools } from './mcpMapper';
-import { executeApiCall } from './apiClient';
-import type { MappedTool } from './types';
+import { runToolsMappedHooks } from './plugins';
+import { mapOpenApiToMcpTools, diffMappedTools, describeToolSetDiff, findToolNameCollisions, isWrappedOutputSchema, getMcpToolAnnotations, RESULT_PROPERTY } from './mcpMapper';
+import { executeApiCall, getApiKeyNames } from './apiClient';
+import { toToolErrorResult } from './toolErrors';
+import { registerDiscoveryTools } from './discoveryTools';
+import { registerToolGroupTools, isToolEnabled } from './toolGroups';
+import { getSchemaCompletionValues, lookupCompletionValues, toCompletionResult } from './completions';
+import { registerOpenApiResources, registerApiResourceTemplate, describeListedResources } from './resourceMapper';
+import { mapOpenApiToMcpPrompts, registerMappedPrompt } from './promptMapper';
+import type { ApiClientResponse, CompletionLookup, MappedPrompt, MappedTool, McpToolDefinition, NamespacedSpec, OpenApiMcpServer, OpenApiMcpServerOptions, ProcessedOpenAPI, ServerConfig, SessionCredentials } from './types';
+import type { Server as HttpServer } from 'http';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { z } from 'zod'; // Import zod for schema definition
+import { startHttpServer, startSseServer } from './httpServer';
+import { createResponseCache, isHttpUrl, ResponseCache } from './utils/httpClient';
+import { watchFiles } from './utils/fileWatcher';
+import { pollUrls } from './utils/urlPoller';
+import { jsonSchemaToZod, jsonSchemaToZodShape, jsonSchemaToAdvertisedZod } from './utils/jsonSchemaToZod';
+import { toMediaContent } from './utils/mediaContent';
+import { withProgressNotifications } from './utils/progress';
+import { createLogContext, createLogger, isLevelEnabled, withLogContext, withLogSink, LogContext, LogSink } from './utils/logger';
+import { addSensitiveNames } from './utils/redaction';
 
-async function startServer() {
-    console.error('Starting Dynamic OpenAPI MCP Server...');
+const log = createLogger('server');
 
-    let openapiSpec;
+// Tools, resource templates and prompts registered on one MCP server, keyed by tool or prompt name
+interface ServerRegistration {
+    server: McpServer;
+    instance: ServerInstance; // The server whose specs, tools and prompts it serves
+    openapiSpecs: NamespacedSpec[]; // Specs exposed through the openapi:// resources
+    tools: Map<string, RegisteredTool>;
+    catalog: MappedTool[]; // Every mapped operation, registered as a tool or served through the meta-tools in compact mode
+    disabledGroups: Set<string>; // Tool groups whose tools are not served to this client
+    resourceTemplates: Map<string, RegisteredResourceTemplate>; // api:// templates of GET lookups
+    prompts: Map<string, RegisteredPrompt>; // From x-mcp-prompts extensions
+    mappedPrompts: MappedPrompt[]; // Definitions of the registered prompts, for argument completions
+    sessionCredentials?: SessionCredentials;
+    clientLogLevel?: LoggingLevel; // Set by the client with logging/setLevel; no logs are forwarded before that
+}
+
+// One configured server: the specs, tools and prompts it currently serves (replaced when the specs are
+// reloaded), and every MCP server serving them
+interface ServerInstance {
+    config: ServerConfig;
+    logContext: LogContext; // Level, format and redaction rules of everything logged for this server
+    registrations: Set<ServerRegistration>; // Every MCP server created and not yet closed (one for stdio, one per session for HTTP transports)
+    specs: NamespacedSpec[];
+    tools: MappedTool[];
+    prompts: MappedPrompt[];
+    responseCache: ResponseCache; // Last fetched copies of remote specs and overlays, which polls compare with
+    reloadInProgress: Promise<boolean> | null;
+    reloadQueued: boolean;
+}
+
+/**
+ * Creates the state of a server that serves nothing yet
+ * @param serverConfig The configuration of the server
+ * @param logContext The log context of the server
+ * @returns The server state
+ */
+function createServerInstance(serverConfig: ServerConfig, logContext: LogContext): ServerInstance {
+    return {
+        config: serverConfig,
+        logContext,
+        registrations: new Set(),
+        specs: [],
+        tools: [],
+        prompts: [],
+        responseCache: createResponseCache(),
+        reloadInProgress: null,
+        reloadQueued: false,
+    };
+}
+
+// Used by createMcpServer and reloadTools when called without a server, with the default configuration
+let defaultInstance: ServerInstance | undefined;
+
+/**
+ * Gets the server used when none is given, creating it on first use rather than when the module is imported
+ * @returns The server with the default configuration
+ */
+function getDefaultInstance(): ServerInstance {
+    if (!defaultInstance) {
+        defaultInstance = createServerInstance(config, createLogContext());
+    }
+    return defaultInstance;
+}
+
+// completion/complete requests, which may also reference a tool: MCP only defines prompt and resource template references
+const CompleteArgumentRequestSchema = CompleteRequestSchema.extend({
+    params: CompleteRequestSchema.shape.params.extend({
+        ref: z.union([
+            PromptReferenceSchema,
+            ResourceTemplateReferenceSchema,
+            z.object({ type: z.literal('ref/tool'), name: z.string() }),
+        ]),
+    }),
+});
+
+/**
+ * Creates a log sink forwarding records to the client of an MCP request as notifications/message,
+ * at or above the level the client chose with logging/setLevel
+ * @param registration The registration of the server handling the request
+ * @param extra The request handler extra of the request
+ * @returns The log sink
+ */
+function forwardLogsToClient(registration: ServerRegistration, extra: RequestHandlerExtra<ServerRequest, ServerNotification>): LogSink {
+    return record => {
+        const { clientLogLevel } = registration;
+        if (!clientLogLevel || !isLevelEnabled(record.level, clientLogLevel)) return;
+
+        extra.sendNotification({
+            method: 'notifications/message',
+            params: { level: record.level, logger: record.component, data: { message: record.message, ...record.fields } },
+        }).catch(() => {
+            // The client may have disconnected; there is nowhere left to report this
+        });
+    };
+}
+
+/**
+ * Runs the handler of an MCP request in the log context of the server it was sent to, so it is logged
+ * at the level, and with the redaction rules, of that server; its records are also forwarded to the client
+ * @param registration The registration of the server handling the request
+ * @param extra The request handler extra of the request
+ * @param handler The request handler
+ * @returns The result of the handler
+ */
+function handleRequest<T>(registration: ServerRegistration, extra: RequestHandlerExtra<ServerRequest, ServerNotification>, handler: () => T): T {
+    return withLogContext(registration.instance.logContext, () => withLogSink(forwardLogsToClient(registration, extra), handler));
+}
+
+// Validators of output schemas, converted once per schema
+const outputValidators = new WeakMap<JSONSchema7, z.ZodType>();
+
+/**
+ * Builds the structured content of a successful tool call. It is only returned for JSON bodies of a status
+ * the output schema describes, and only if the body matches the schema.
+ * @param mcpToolDefinition The definition of the called tool
+ * @param result The successful API response
+ * @returns The structured content, or undefined if the response has none
+ */
+function getStructuredContent(mcpToolDefinition: McpToolDefinition, result: ApiClientResponse): Record<string, unknown> | undefined {
+    const { outputSchema, outputStatusCodes } = mcpToolDefinition;
+    if (!outputSchema || Buffer.isBuffer(result.data) || result.data === undefined || result.data === '') {
+        return undefined;
+    }
+    // Bodies that did not parse as JSON stay strings
+    if (result.contentType ? !/^application\/(.+\+)?json\b/i.test(result.contentType.trim()) : typeof result.data === 'string') {
+        return undefined;
+    }
+    const status = String(result.statusCode);
+    if (outputStatusCodes && !outputStatusCodes.some(code => code === status || code.toUpperCase() === `${status[0]}XX`)) {
+        return undefined;
+    }
+
+    const structuredContent = isWrappedOutputSchema(outputSchema) ? { [RESULT_PROPERTY]: result.data } : result.data;
+    let validator = outputValidators.get(outputSchema);
+    if (!validator) {
+        validator = jsonSchemaToZod(outputSchema);
+        outputValidators.set(outputSchema, validator);
+    }
+    if (!validator.safeParse(structuredContent).success) {
+        return undefined;
+    }
+    return structuredContent;
+}
+
+/**
+ * Calls the API operation behind a mapped tool and converts the outcome to a tool result
+ * @param registration The registration of the server handling the call
+ * @param tool The mapped tool
+ * @param toolParams The validated tool arguments
+ * @param extra The request handler extra of the tool call
+ * @returns The tool result
+ * @throws McpError if the arguments are rejected, or on unexpected failures
+ */
+async function callMappedTool(
+    registration: ServerRegistration,
+    tool: MappedTool,
+    toolParams: Record<string, any>,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<CallToolResult> {
+    const { mcpToolDefinition, apiCallDetails } = tool;
+    const serverConfig = registration.instance.config;
+    const requestId = 'req-' + Math.random().toString(36).substring(2, 9);
+    log.info('MCP tool invoked', { tool: mcpToolDefinition.name, requestId });
+    log.debug('Parameters received', { requestId, parameters: toolParams });
+    
     try {
-        openapiSpec = await getProcessedOpenApi();
-    } catch (error) {
-        console.error('Failed to initialize OpenAPI specification. Server cannot start.', error);
-        process.exit(1);
+        // Execute the API call with the provided parameters; cancelling the tool call aborts it
+        const result = await withProgressNotifications(
+            extra,
+            serverConfig.progressInterval * 1000,
+            `${apiCallDetails.method} ${apiCallDetails.pathTemplate}`,
+            reportProgress => executeApiCall(apiCallDetails, toolParams, registration.sessionCredentials, {
+                signal: extra.signal,
+                onProgress: reportProgress,
+                toolName: mcpToolDefinition.name,
+            }, serverConfig)
+        );
+        
+        if (result.success) {
+            log.info('Tool executed successfully', { tool: mcpToolDefinition.name, requestId });
+            
+            // Images, audio and other binary payloads are returned as media content instead of text;
+            // the text block is kept for clients without structured content support
+            const content = Buffer.isBuffer(result.data)
+                ? [toMediaContent(result.data, result.contentType, result.url || '', serverConfig.maxBinarySize)]
+                : [{ type: "text" as const, text: JSON.stringify(result.data) }];
+            if (!mcpToolDefinition.outputSchema) {
+                return { content };
+            }
+
+            // Clients reject results of tools with an output schema that have no structured content,
+            // so responses the schema does not describe are reported as errors
+            const structuredContent = getStructuredContent(mcpToolDefinition, result);
+            if (!structuredContent) {
+                log.warning('Response does not match the output schema', { tool: mcpToolDefinition.name, requestId, status: result.statusCode });
+                return {
+                    isError: true,
+                    content: [
+                        { type: "text" as const, text: `The API returned status ${result.statusCode}, but the response does not match the output schema of the tool. The response is included as is.` },
+                        ...content
+                    ]
+                };
+            }
+            return { content, structuredContent };
+        } else {
+            log.warning('Tool execution failed', { tool: mcpToolDefinition.name, requestId, status: result.statusCode, error: result.error });
+            
+            // Arguments rejected before any request was made are a protocol-level error;
+            // everything the API (or the network) reported is returned as a tool result
+            if (result.failure === 'validation') {
+                throw new McpError(ErrorCode.InvalidParams, `Invalid parameters: ${result.error}`);
+            }
+
+            return toToolErrorResult(result);
+        }
+    } catch (invocationError: any) {
+        log.error('Error invoking tool', { tool: mcpToolDefinition.name, requestId, error: invocationError });
+        
+        if (invocationError instanceof McpError) {
+            throw invocationError; // Re-throw known MCP errors
+        }
+        
+        throw new McpError(
+            ErrorCode.InternalError, 
+            `Internal server error: ${invocationError.message}`
+        );
     }
+}
 
-    let mappedTools: MappedTool[];
+/**
+ * Registers a single mapped OpenAPI operation as a tool on an MCP server
+ * @param registration The registration of the server to register the tool on
+ * @param tool The mapped tool
+ * @returns The registered tool handle, or undefined if registration failed
+ */
+function registerMappedTool(registration: ServerRegistration, tool: MappedTool): RegisteredTool | undefined {
+    const { server } = registration;
+    const { mcpToolDefinition } = tool;
+    log.debug('Registering MCP tool', { tool: mcpToolDefinition.name });
+    
     try {
-        mappedTools = mapOpenApiToMcpTools(openapiSpec);
-        if (mappedTools.length === 0) {
-            console.error('No tools were mapped from the OpenAPI spec based on current configuration/filtering.');
-            // Decide if the server should run with no tools or exit
+        // Convert the JSON Schema properties to a zod shape that validates (and is advertised) like the original
+        const params = jsonSchemaToZodShape(mcpToolDefinition.inputSchema || {});
+        for (const propName of Object.keys(params)) {
+            const required = mcpToolDefinition.inputSchema.required?.includes(propName) || false;
+            log.debug('Registered parameter', { tool: mcpToolDefinition.name, parameter: propName, required });
         }
-    } catch (error) {
-        console.error('Failed to map OpenAPI spec to MCP tools. Server cannot start.', error);
-        process.exit(1);
+        
+        // Register the tool using proper MCP SDK format
+        const { outputSchema } = mcpToolDefinition;
+        const registeredTool = server.registerTool(
+            mcpToolDefinition.name,
+            {
+                description: mcpToolDefinition.description,
+                inputSchema: params, // This schema will be visible in the MCP Inspector
+                outputSchema: outputSchema ? jsonSchemaToAdvertisedZod(outputSchema) : undefined,
+                annotations: getMcpToolAnnotations(mcpToolDefinition.annotations),
+            },
+            // Everything logged while handling the call is also forwarded to the calling client
+            (toolParams: any, extra) => handleRequest(registration, extra, () => callMappedTool(registration, tool, toolParams, extra))
+        );
+        
+        log.debug('Registered tool', { tool: mcpToolDefinition.name });
+        return registeredTool;
+    } catch (registerError) {
+        log.error('Failed to register tool', { tool: mcpToolDefinition.name, error: registerError });
+        return undefined;
     }
+}
 
+/**
+ * Registers the mapped operations of enabled tool groups on a server: each as a tool, and GET lookups with a
+ * resourceUriTemplate as a resource template as well. In compact mode the operations are only served through
+ * the meta-tools, so nothing is registered.
+ * @param registration The server registration to add the handles to
+ * @param mappedTools The mapped operations to register
+ */
+function registerMappedTools(registration: ServerRegistration, mappedTools: MappedTool[]): void {
+    const { server, sessionCredentials, instance } = registration;
+    if (instance.config.toolMode === 'compact') return;
 
-    // Construct the server with metadata from OpenAPI spec
-    const server = new McpServer({
-        name: openapiSpec.info?.title || "OpenAPI to MCP Generator",
-        version: openapiSpec.info?.version || "1.0.0"
-    });
+    for (const tool of mappedTools) {
+        if (!isToolEnabled(tool, registration.disabledGroups)) continue;
 
-    // Add OpenAPI metadata to server capabilities or log it
-    if (openapiSpec.info?.description) {
-        console.error(`API Description: ${openapiSpec.info.description}`);
-        // Note: description is not directly supported in McpServer constructor
-        // but we can log it or potentially use it elsewhere
+        const name = tool.mcpToolDefinition.name;
+        const registeredTool = registerMappedTool(registration, tool);
+        if (registeredTool) {
+            registration.tools.set(name, registeredTool);
+        }
+
+        if (tool.resourceUriTemplate) {
+            try {
+                registration.resourceTemplates.set(name, registerApiResourceTemplate(
+                    server, tool, sessionCredentials, instance.config, (extra, read) => handleRequest(registration, extra, read)
+                ));
+            } catch (registerError) {
+                log.error('Failed to register resource template', { uriTemplate: tool.resourceUriTemplate, error: registerError });
+            }
+        }
     }
+}
 
-    // Register each tool with the server
+/**
+ * Removes mapped operations (tools and resource templates) from a server
+ * @param registration The server registration holding the handles
+ * @param mappedTools The mapped operations to remove
+ */
+function unregisterMappedTools(registration: ServerRegistration, mappedTools: MappedTool[]): void {
     for (const tool of mappedTools) {
-        const { mcpToolDefinition, apiCallDetails } = tool;
-        console.error(`Registering MCP tool: ${mcpToolDefinition.name}`);  
-        
+        const name = tool.mcpToolDefinition.name;
+        registration.tools.get(name)?.remove();
+        registration.tools.delete(name);
+        registration.resourceTemplates.get(name)?.remove();
+        registration.resourceTemplates.delete(name);
+    }
+}
+
+/**
+ * Registers the tools (and resource templates) of enabled tool groups and removes those of disabled ones, after a client
+ * enabled or disabled a group. Registering or removing them sends notifications/tools/list_changed (and resources/list_changed).
+ * @param registration The server registration holding the handles
+ */
+function syncToolGroups(registration: ServerRegistration): void {
+    if (registration.instance.config.toolMode === 'compact') return; // The meta-tools only look up enabled operations
+
+    for (const tool of registration.catalog) {
+        const name = tool.mcpToolDefinition.name;
+        const registered = registration.tools.has(name) || registration.resourceTemplates.has(name);
+        const enabled = isToolEnabled(tool, registration.disabledGroups);
+        if (enabled && !registered) {
+            registerMappedTools(registration, [tool]);
+        } else if (!enabled && registered) {
+            unregisterMappedTools(registration, [tool]);
+        }
+    }
+}
+
+/**
+ * Completes an argument of a prompt, a resource template variable or a tool parameter, with the candidates
+ * declared in the spec (enums, examples, defaults) and those listed by its x-mcp-completion lookup operation
+ * @param registration The registration of the server handling the request
+ * @param request The completion request
+ * @param extra The request handler extra of the request
+ * @returns The candidates starting with the value typed so far
+ * @throws McpError if the prompt, resource template or tool is not served
+ */
+async function completeArgument(
+    registration: ServerRegistration,
+    request: z.infer<typeof CompleteArgumentRequestSchema>,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<CompleteResult> {
+    const { ref, argument, context } = request.params;
+    let candidates: string[];
+    let lookup: CompletionLookup | undefined;
+
+    if (ref.type === 'ref/prompt') {
+        const prompt = registration.mappedPrompts.find(candidate => candidate.name === ref.name);
+        if (!prompt) {
+            throw new McpError(ErrorCode.InvalidParams, `Prompt ${ref.name} not found`);
+        }
+        const definition = prompt.arguments.find(candidate => candidate.name === argument.name);
+        candidates = definition?.values || [];
+        lookup = definition?.completion;
+    } else {
+        // Resource template variables are the path parameters of the operation behind the template
+        const tool = ref.type === 'ref/tool'
+            ? registration.catalog.find(candidate => candidate.mcpToolDefinition.name === ref.name && registration.tools.has(ref.name))
+            : registration.catalog.find(candidate => candidate.resourceUriTemplate === ref.uri && registration.resourceTemplates.has(candidate.mcpToolDefinition.name));
+        if (!tool) {
+            throw new McpError(ErrorCode.InvalidParams, ref.type === 'ref/tool' ? `Tool ${ref.name} not found` : `Resource template ${ref.uri} not found`);
+        }
+        candidates = getSchemaCompletionValues(tool.mcpToolDefinition.inputSchema.properties?.[argument.name]);
+        lookup = tool.completionLookups?.[argument.name];
+    }
+
+    if (lookup) {
+        // The arguments the client already filled in are passed on, e.g. to list the pets of the chosen owner
+        const values = await lookupCompletionValues(
+            lookup, registration.catalog, context?.arguments || {}, registration.instance.config, registration.sessionCredentials, extra.signal
+        );
+        candidates = [...candidates, ...values];
+    }
+    return toCompletionResult(candidates, argument.value);
+}
+
+/**
+ * Replaces the prompts registered on a server
+ * @param registration The server registration holding the prompt handles
+ * @param prompts The prompts to serve from now on
+ */
+function replacePrompts(registration: ServerRegistration, prompts: MappedPrompt[]): void {
+    registration.prompts.forEach(prompt => prompt.remove());
+    registration.prompts.clear();
+    registration.mappedPrompts = prompts;
+
+    for (const prompt of prompts) {
         try {
-            // Convert JSON Schema properties to zod schema
-            const params: any = {};
-            
-            if (mcpToolDefinition.inputSchema && mcpToolDefinition.inputSchema.properties) {
-                // Loop through all properties and create appropriate Zod schemas based on data type
-                for (const [propName, propSchema] of Object.entries(mcpToolDefinition.inputSchema.properties)) {
-                    if (typeof propSchema !== 'object') continue;
-                    
-                    const description = propSchema.description as string || `Parameter: ${propName}`;
-                    const required = mcpToolDefinition.inputSchema.required?.includes(propName) || false;
-                    
-                    // Map JSON Schema types to Zod schema types
-                    let zodSchema;
-                    const schemaType = Array.isArray(propSchema.type) 
-                        ? propSchema.type[0] // If type is an array (for nullable union types), use first type
-                        : propSchema.type;
-                        
-                    // Handle different types with proper Zod schemas
-                    switch (schemaType) {
-                        case 'integer':
-                            zodSchema = z.number().int().describe(description);
-                            break;
-                        case 'number':
-                            zodSchema = z.number().describe(description);
-                            break;
-                        case 'boolean':
-                            zodSchema = z.boolean().describe(description);
-                            break;
-                        case 'object':
-                            // For objects, create a more permissive schema
-                            zodSchema = z.object({}).passthrough().describe(description);
-                            break;
-                        case 'array':
-                            // For arrays, allow any array content
-                            zodSchema = z.array(z.any()).describe(description);
-                            break;
-                        case 'string':
-                        default:
-                            zodSchema = z.string().describe(description);
-                            break;
-                    }
-                    
-                    // Make it optional if not required
-                    params[propName] = required ? zodSchema : zodSchema.optional();
-                    
-                    // Add this for debugging
-                    console.error(`Registered parameter ${propName} with type: ${schemaType}, required: ${required}`);
-                }
-            }
-            
-            // Register the tool using proper MCP SDK format
-            server.tool(
-                mcpToolDefinition.name,
-                params, // This schema will be visible in the MCP Inspector
-                async (toolParams: any) => {
-                    const requestId = 'req-' + Math.random().toString(36).substring(2, 9);
-                    console.error(`MCP Tool '${mcpToolDefinition.name}' invoked. Request ID: ${requestId}`);
-                    console.error(`Parameters received:`, toolParams);
-                    
-                    try {
-                        // Execute the API call with the provided parameters
-                        const result = await executeApiCall(apiCallDetails, toolParams);
-                        
-                        if (result.success) {
-                            console.error(`[Request ID: ${requestId}] Tool '${mcpToolDefinition.name}' executed successfully.`);
-                            
-                            // Return success response
-                            return {
-                                content: [
-                                    {
-                                        type: "text", 
-                                        text: JSON.stringify(result.data)
-                                    }
-                                ]
-                            };
-                        } else {
-                            console.error(`[Request ID: ${requestId}] Tool '${mcpToolDefinition.name}' execution failed: ${result.error}`);
-                            
-                            // Map API errors to MCP errors
-                            let errorCode = ErrorCode.InternalError;
-                            let errorMessage = result.error || `API Error ${result.statusCode}`;
-                            
-                            if (result.statusCode === 400) {
-                                errorCode = ErrorCode.InvalidParams;
-                                errorMessage = `Invalid parameters: ${result.error}`;
-                            } else if (result.statusCode === 404) {
-                                errorCode = ErrorCode.InvalidParams;
-                                errorMessage = `Resource not found: ${result.error}`;
-                            }
-                            
-                            throw new McpError(errorCode, errorMessage, result.data);
-                        }
-                    } catch (invocationError: any) {
-                        console.error(`[Request ID: ${requestId}] Error invoking tool:`, invocationError);
-                        
-                        if (invocationError instanceof McpError) {
-                            throw invocationError; // Re-throw known MCP errors
-                        }
-                        
-                        throw new McpError(
-                            ErrorCode.InternalError, 
-                            `Internal server error: ${invocationError.message}`
-                        );
-                    }
-                }
-            );
-            
-            console.error(`Registered Tool: ${mcpToolDefinition.name}`);
+            registration.prompts.set(prompt.name, registerMappedPrompt(registration.server, prompt));
         } catch (registerError) {
-            console.error(`Failed to register tool ${mcpToolDefinition.name}:`, registerError);
+            log.error('Failed to register prompt', { prompt: prompt.name, error: registerError });
         }
     }
+}
 
-    console.error('Starting MCP server...');
-    
-    // Create a server transport and connect the server
-    const transport = new StdioServerTransport();
-    
+/**
+ * Creates an MCP server exposing the mapped OpenAPI operations as tools, the spec as resources
+ * and its x-mcp-prompts templates as prompts
+ * @param openapiSpec The processed OpenAPI specification (used for server metadata, resources and prompts),
+ * or every mounted spec with its namespace
+ * @param mappedTools Tools produced by mapOpenApiToMcpTools
+ * @param sessionCredentials Upstream credentials of the session this server serves (HTTP transports)
+ * @param instance The server whose configuration applies and whose reloads update the new MCP server
+ * @returns A new McpServer instance, not yet connected to a transport
+ */
+function createMcpServer(
+    openapiSpec: ProcessedOpenAPI | NamespacedSpec[],
+    mappedTools: MappedTool[],
+    sessionCredentials?: SessionCredentials,
+    instance: ServerInstance = getDefaultInstance()
+): McpServer {
+    const serverConfig = instance.config;
+    const openapiSpecs: NamespacedSpec[] = Array.isArray(openapiSpec) ? openapiSpec : [{ openapi: openapiSpec }];
+
+    // Construct the server with metadata from the OpenAPI spec; mounted specs are listed by title
+    const info = openapiSpecs.length === 1 ? openapiSpecs[0].openapi.info : undefined;
+    const titles = openapiSpecs.map(spec => spec.openapi.info?.title).filter(Boolean);
+    const server = new McpServer({
+        name: (openapiSpecs.length === 1 ? info?.title : titles.join(', ')) || "OpenAPI to MCP Generator",
+        version: info?.version || "1.0.0"
+    }, {
+        capabilities: { logging: {}, completions: {} }
+    });
+
+    // Add OpenAPI metadata to server capabilities or log it
+    for (const spec of openapiSpecs) {
+        if (spec.openapi.info?.description) {
+            log.debug('API description', { namespace: spec.namespace, description: spec.openapi.info.description });
+            // Note: description is not directly supported in McpServer constructor
+            // but we can log it or potentially use it elsewhere
+        }
+    }
+
+    const registration: ServerRegistration = {
+        server,
+        instance,
+        openapiSpecs,
+        tools: new Map(),
+        catalog: mappedTools,
+        disabledGroups: new Set(serverConfig.disabledToolGroups || []),
+        resourceTemplates: new Map(),
+        prompts: new Map(),
+        mappedPrompts: [],
+        sessionCredentials,
+    };
+    // Replaces the SDK's handler, so the chosen level also applies to logs forwarded on request streams
+    server.server.setRequestHandler(SetLevelRequestSchema, (request, extra) => handleRequest(registration, extra, async () => {
+        registration.clientLogLevel = request.params.level;
+        log.debug('Client log level set', { level: request.params.level });
+        return {};
+    }));
+    server.server.setRequestHandler(CompleteArgumentRequestSchema, (request, extra) =>
+        handleRequest(registration, extra, () => completeArgument(registration, request, extra))
+    );
+
+    for (const { namespace } of openapiSpecs) {
+        registerOpenApiResources(server, () => registration.openapiSpecs.find(spec => spec.namespace === namespace)!.openapi, namespace);
+    }
+    if (serverConfig.toolMode === 'compact') {
+        // The catalog is read on every call, so reloads only need to replace it
+        const getEnabledOperations = () => registration.catalog.filter(tool => isToolEnabled(tool, registration.disabledGroups));
+        registerDiscoveryTools(server, getEnabledOperations, (tool, args, extra) =>
+            handleRequest(registration, extra, () => callMappedTool(registration, tool, args, extra))
+        );
+    }
+    if (serverConfig.tagGroups || Object.keys(serverConfig.toolGroups || {}).length > 0) {
+        // Each client enables and disables groups for itself, starting from the configured state
+        registerToolGroupTools(server, () => registration.catalog, registration.disabledGroups, () =>
+            withLogContext(instance.logContext, () => syncToolGroups(registration))
+        );
+    }
+    registerMappedTools(registration, mappedTools);
+    replacePrompts(registration, openapiSpecs.flatMap(spec => mapOpenApiToMcpPrompts(spec.openapi, spec.toolPrefix, spec.namespace)));
+
+    // Track the server so reloads can update its tools in place until its transport closes
+    instance.registrations.add(registration);
+    server.server.onclose = () => {
+        instance.registrations.delete(registration);
+    };
+
+    return server;
+}
+
+/**
+ * Runs the load → overlay → map pipeline for every configured spec. The API keys the specs declare
+ * are added to the redaction rules of the server, before anything that could carry them is logged.
+ * @param instance The server to load the specs of
+ * @param options.failOnOverlayError Fail instead of skipping a broken overlay
+ * @returns The processed specs, with the tools and prompts mapped from all of them
+ * @throws Error if a spec cannot be loaded or mapped, or if tool names collide across specs
+ */
+async function loadSpecs(instance: ServerInstance, options: { failOnOverlayError?: boolean } = {}): Promise<{ specs: NamespacedSpec[]; tools: MappedTool[]; prompts: MappedPrompt[] }> {
+    const specs: NamespacedSpec[] = [];
+    let tools: MappedTool[] = [];
+    const prompts: MappedPrompt[] = [];
+
+    const serverConfig = instance.config;
+    for (const source of serverConfig.specs) {
+        const openapi = await getProcessedOpenApi(source, { ...options, responseCache: instance.responseCache });
+        addSensitiveNames(instance.logContext.redaction, getApiKeyNames(openapi.components?.securitySchemes));
+        specs.push({ namespace: source.namespace, toolPrefix: source.toolPrefix, openapi });
+        tools.push(...mapOpenApiToMcpTools(openapi, source, serverConfig));
+        prompts.push(...mapOpenApiToMcpPrompts(openapi, source.toolPrefix, source.namespace));
+    }
+
+    // Plugins may add, remove or change tools, e.g. to resolve name collisions
+    tools = await runToolsMappedHooks(serverConfig.plugins || [], tools);
+
+    const collisions = findToolNameCollisions(tools);
+    if (collisions.length > 0) {
+        throw new Error(`Tool names collide across specs: ${collisions.join(', ')}. Give the specs distinct prefixes.`);
+    }
+    return { specs, tools, prompts };
+}
+
+/**
+ * Re-runs the load → overlay → map pipeline and updates the tools (and resource templates) of every active server in place.
+ * Registering, updating or removing tools on a connected server sends notifications/tools/list_changed.
+ * If the new spec cannot be loaded or mapped, or one of its overlays cannot be applied, the previous tool set is kept.
+ * @param instance The server to reload
+ * @returns True if the new tool set was applied
+ */
+async function reloadTools(instance: ServerInstance = getDefaultInstance()): Promise<boolean> {
+    log.info('Reloading OpenAPI specification');
+
+    let loaded: Awaited<ReturnType<typeof loadSpecs>>;
     try {
-        // Connect the server using the transport instead of listen()
-        await server.connect(transport);
-        console.error(`MCP Server started and ready for connections`);
+        // A broken overlay fails the reload: the spec without it would expose renamed or hidden operations
+        loaded = await loadSpecs(instance, { failOnOverlayError: true });
     } catch (error) {
-        console.error('Error starting MCP server:', error);
-        process.exit(1);
+        log.error('Failed to reload OpenAPI specification. Keeping the previous tool set.', { error });
+        return false;
+    }
+    const { tools: nextTools, prompts: nextPrompts } = loaded;
+
+    const { registrations } = instance;
+    const describeResources = (specs: NamespacedSpec[]) => specs.map(spec => `${spec.namespace}:${describeListedResources(spec.openapi)}`).join('\n');
+    const resourcesChanged = describeResources(loaded.specs) !== describeResources(instance.specs);
+    instance.specs = loaded.specs;
+
+    // Resources and the compact mode catalog are read on demand, so pointing them at the new specs is enough.
+    // Resource templates of API operations are re-registered with their tools below, which notifies clients itself.
+    for (const registration of registrations) {
+        registration.openapiSpecs = loaded.specs;
+        registration.catalog = nextTools;
+        if (resourcesChanged) {
+            registration.server.sendResourceListChanged();
+        }
+    }
+
+    // Prompts are few and cheap to register, so they are replaced wholesale when any changed
+    if (JSON.stringify(nextPrompts) !== JSON.stringify(instance.prompts)) {
+        log.info('Prompts changed', { prompts: nextPrompts.map(prompt => prompt.name) });
+        registrations.forEach(registration => replacePrompts(registration, nextPrompts));
+        instance.prompts = nextPrompts;
     }
+
+    const diff = diffMappedTools(instance.tools, nextTools);
+    if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) {
+        log.info('Reload complete: tool set unchanged');
+        instance.tools = nextTools;
+        return true;
+    }
+
+    log.info('Tool set changes', { changes: describeToolSetDiff(instance.tools, diff) });
+
+    for (const registration of registrations) {
+        unregisterMappedTools(registration, [...diff.removed, ...diff.changed]);
+        registerMappedTools(registration, [...diff.changed, ...diff.added]);
+    }
+
+    instance.tools = nextTools;
+    log.info('Reload complete', { added: diff.added.length, updated: diff.changed.length, removed: diff.removed.length });
+    return true;
+}
+
+/**
+ * Closes an HTTP server, ending the open connections and sessions
+ * @param httpServer The HTTP server
+ */
+function closeHttpServer(httpServer: HttpServer): Promise<void> {
+    httpServer.closeAllConnections();
+    return new Promise(resolve => httpServer.close(() => resolve()));
+}
+
+/**
+ * Serves a server on its configured transport, and reloads its tools when its specs change
+ * @param instance The server to serve
+ * @param server The MCP server to connect to stdio
+ * @returns Stops serving, watching and polling
+ */
+async function startServing(instance: ServerInstance, server: McpServer): Promise<() => Promise<void>> {
+    const serverConfig = instance.config;
+    const stops: Array<() => void | Promise<void>> = [];
+    log.debug('Starting MCP server');
+
+    switch (serverConfig.transport) {
+        case 'http': {
+            // Every HTTP session gets its own server instance serving the current spec and tools
+            const httpServer = await startHttpServer(
+                credentials => createMcpServer(instance.specs, instance.tools, credentials, instance),
+                serverConfig.mcpPort,
+                { forwardAuthorization: serverConfig.forwardAuthorization, sessionTimeout: serverConfig.sessionTimeout }
+            );
+            stops.push(() => closeHttpServer(httpServer));
+            break;
+        }
+        case 'sse': {
+            // Legacy HTTP+SSE transport for older MCP clients, also one server per session
+            const httpServer = await startSseServer(
+                credentials => createMcpServer(instance.specs, instance.tools, credentials, instance),
+                serverConfig.mcpPort,
+                { forwardAuthorization: serverConfig.forwardAuthorization }
+            );
+            stops.push(() => closeHttpServer(httpServer));
+            break;
+        }
+        case 'stdio':
+        default:
+            // Connect the server using the transport instead of listen()
+            await server.connect(new StdioServerTransport());
+            break;
+    }
+    log.info('MCP Server started and ready for connections', { transport: serverConfig.transport });
+
+    const specPaths = serverConfig.specs.flatMap(source => [source.specPath, ...source.overlayPaths]);
+
+    if (serverConfig.watch) {
+        // Remote specs and overlays are not watched, only local files
+        const localPaths = specPaths.filter(filePath => !isHttpUrl(filePath));
+        if (localPaths.length > 0) {
+            stops.push(watchFiles(localPaths, changedPaths => {
+                log.info('Detected changes', { paths: changedPaths });
+                scheduleReload(instance);
+            }));
+        }
+    }
+
+    if (serverConfig.refreshInterval > 0) {
+        const remoteUrls = specPaths.filter(filePath => isHttpUrl(filePath));
+        if (remoteUrls.length > 0) {
+            stops.push(pollUrls(remoteUrls, serverConfig.refreshInterval * 1000, changedUrls => {
+                log.info('Detected new content', { urls: changedUrls });
+                scheduleReload(instance);
+            }, instance.responseCache));
+        }
+    }
+
+    return async () => {
+        for (const stop of stops) {
+            await stop();
+        }
+    };
+}
+
+/**
+ * Runs reloadTools, making sure reloads of a server never overlap. A change arriving while a reload
+ * is running triggers exactly one more reload once it completes.
+ * @param instance The server to reload
+ */
+function scheduleReload(instance: ServerInstance): void {
+    if (instance.reloadInProgress) {
+        instance.reloadQueued = true;
+        return;
+    }
+
+    instance.reloadInProgress = reloadTools(instance).finally(() => {
+        instance.reloadInProgress = null;
+        if (instance.reloadQueued) {
+            instance.reloadQueued = false;
+            scheduleReload(instance);
+        }
+    });
 }
 
-export { startServer };
+/**
+ * Creates a server for one or more OpenAPI specs: validates the options, runs the load → overlay → map
+ * pipeline and creates the MCP server serving the result. Nothing is served until start() is called or
+ * the MCP server is connected to a transport, so several servers can live in one process.
+ * @param options The server options
+ * @returns The server
+ * @throws ConfigError if an option is missing or invalid
+ * @throws Error if a spec cannot be loaded or mapped, or if tool names collide across specs
+ */
+async function createOpenApiMcpServer(options: OpenApiMcpServerOptions): Promise<OpenApiMcpServer> {
+    const serverConfig = resolveConfig(options);
+    const instance = createServerInstance(serverConfig, createServerLogContext(serverConfig));
+    // Everything logged for this server, from loading its specs to serving and reloading them, uses its own log context
+    const inLogContext = <T>(fn: () => T): T => withLogContext(instance.logContext, fn);
 
-// Only auto-start if this is the main module
-if (require.main === module) {
-    startServer().catch(error => {
-        console.error('Unhandled error during server startup:', error);
-        process.exit(1);
+    const server = await inLogContext(async () => {
+        const loaded = await loadSpecs(instance);
+        instance.specs = loaded.specs;
+        instance.tools = loaded.tools;
+        instance.prompts = loaded.prompts;
+        if (instance.tools.length === 0) {
+            log.warning('No tools were mapped from the OpenAPI spec based on current configuration/filtering');
+        }
+        return createMcpServer(instance.specs, instance.tools, undefined, instance);
     });
-}
\ No newline at end of file
+    let stopServing: (() => Promise<void>) | undefined;
+
+    return {
+        server,
+        config: instance.config,
+        get tools() {
+            return instance.tools;
+        },
+        get prompts() {
+            return instance.prompts;
+        },
+        createServer: sessionCredentials => inLogContext(() => createMcpServer(instance.specs, instance.tools, sessionCredentials, instance)),
+        reload: () => inLogContext(() => reloadTools(instance)),
+        start: () => inLogContext(async () => {
+            if (stopServing) {
+                throw new Error('The server is already started');
+            }
+            stopServing = await startServing(instance, server);
+        }),
+        close: () => inLogContext(async () => {
+            await stopServing?.();
+            stopServing = undefined;
+            await Promise.all([...instance.registrations].map(registration => registration.server.close()));
+        }),
+    };
+}
+
+export { createOpenApiMcpServer, createMcpServer, reloadTools };
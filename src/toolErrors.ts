@@ -0,0 +1,110 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ApiCallFailure, ApiClientResponse } from './types';
+
+// Details returned with every failed tool call, so clients can decide whether and when to retry
+export interface ToolErrorDetails {
+    status: number; // HTTP status of the upstream response, or the status assigned to local failures
+    failure: ApiCallFailure; // What failed, see ApiCallFailure
+    body?: any; // The parsed error body returned by the API
+    retryable: boolean; // Whether retrying the same call may succeed
+    retryAfterSeconds?: number; // Delay requested by the API through the Retry-After header
+    guidance: string; // What the caller should do next
+}
+
+/**
+ * Parses a Retry-After header, given either as a number of seconds or as an HTTP date
+ * @param value The header value
+ * @param now The current time, in milliseconds since the epoch
+ * @returns The delay in seconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+    if (!value) return undefined;
+
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) {
+        return parseInt(trimmed, 10);
+    }
+
+    const date = Date.parse(trimmed);
+    if (isNaN(date)) return undefined;
+    return Math.max(0, Math.ceil((date - now) / 1000));
+}
+
+/**
+ * Chooses the retry guidance for a failed API call
+ * @param result The failed API call
+ * @param retryAfterSeconds The delay requested by the API, if any
+ * @returns Whether a retry may succeed, and what the caller should do next
+ */
+function getGuidance(result: ApiClientResponse, retryAfterSeconds: number | undefined): { retryable: boolean; guidance: string } {
+    const status = result.statusCode;
+    const waitHint = retryAfterSeconds !== undefined
+        ? `wait ${retryAfterSeconds} seconds (as requested by Retry-After)`
+        : 'wait a few seconds';
+
+    if (result.failure === 'security') {
+        return { retryable: false, guidance: 'Credentials for this operation are missing or invalid in the server configuration. Retrying will not help until the configuration is fixed.' };
+    }
+    if (result.failure === 'cancelled') {
+        return { retryable: false, guidance: 'The call was cancelled before the API answered. Operations that are not idempotent may already have been applied.' };
+    }
+    if (result.failure === 'job') {
+        return { retryable: false, guidance: 'The API accepted the request, but the asynchronous job failed. Check the error body for the cause before submitting it again.' };
+    }
+    if (result.failure === 'timeout') {
+        return { retryable: false, guidance: 'The asynchronous job did not finish in time and may still be running. Do not submit it again; check the status URL in the error body later.' };
+    }
+    if (result.failure === 'network') {
+        return { retryable: true, guidance: `The API could not be reached. This is usually transient: ${waitHint} and retry. Operations that are not idempotent may already have been applied.` };
+    }
+
+    switch (status) {
+        case 400:
+            return { retryable: false, guidance: 'The API rejected the request as malformed. Check the arguments against the tool input schema and the error body before retrying.' };
+        case 401:
+            return { retryable: false, guidance: 'The API did not accept the credentials. Supply valid credentials (API key, token or session credentials) before retrying.' };
+        case 403:
+            return { retryable: false, guidance: 'The credentials are valid but not allowed to perform this operation. Do not retry; ask the user for access or use a different operation.' };
+        case 404:
+            return { retryable: false, guidance: 'The requested resource does not exist. Check identifiers, e.g. by listing the resources first.' };
+        case 409:
+            return { retryable: false, guidance: 'The request conflicts with the current state of the resource. Fetch the latest state, resolve the conflict and retry.' };
+        case 422:
+            return { retryable: false, guidance: 'The API understood the request but rejected some values. Fix the fields reported in the error body and retry.' };
+        case 429:
+            return { retryable: true, guidance: `Too many requests: ${waitHint} before retrying, and reduce the request rate.` };
+    }
+
+    if (status >= 500) {
+        return { retryable: true, guidance: `The API failed with a server error. This may be transient: ${waitHint} and retry. Operations that are not idempotent may already have been applied.` };
+    }
+    return { retryable: false, guidance: 'The API rejected the request. Check the error body and adjust the arguments before retrying.' };
+}
+
+/**
+ * Converts a failed API call to a tool result with isError set: a summary with retry guidance
+ * for the model, followed by the details (status, parsed error body, retryability) as JSON
+ * @param result The failed API call
+ * @returns The tool result
+ */
+export function toToolErrorResult(result: ApiClientResponse): CallToolResult {
+    const retryAfterSeconds = parseRetryAfter(result.headers?.['retry-after']);
+    const { retryable, guidance } = getGuidance(result, retryAfterSeconds);
+
+    const details: ToolErrorDetails = {
+        status: result.statusCode,
+        failure: result.failure || 'http',
+        ...(result.data !== undefined && !Buffer.isBuffer(result.data) ? { body: result.data } : {}),
+        retryable,
+        ...(retryAfterSeconds !== undefined ? { retryAfterSeconds } : {}),
+        guidance,
+    };
+
+    return {
+        isError: true,
+        content: [
+            { type: 'text', text: `${result.error || `API Error ${result.statusCode}`}\n${guidance}` },
+            { type: 'text', text: JSON.stringify(details) },
+        ],
+    };
+}
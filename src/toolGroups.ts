@@ -0,0 +1,113 @@
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod/v4';
+import type { MappedTool } from './types';
+
+// A tool group as reported to clients
+export interface ToolGroupState {
+    name: string;
+    enabled: boolean;
+    tools: string[]; // Names of the tools in the group
+}
+
+/**
+ * Checks whether a tool is served, given the groups disabled on a server. Tools outside
+ * any group are always served; tools in several groups as long as one of them is enabled.
+ * @param tool The mapped tool
+ * @param disabledGroups The groups disabled on the server
+ * @returns True if the tool is served
+ */
+export function isToolEnabled(tool: MappedTool, disabledGroups: Set<string>): boolean {
+    return !tool.groups || tool.groups.some(group => !disabledGroups.has(group));
+}
+
+/**
+ * Collects the tool groups of the mapped tools
+ * @param catalog The mapped tools
+ * @param disabledGroups The groups disabled on the server
+ * @returns The groups, in the order they first appear
+ */
+export function listToolGroups(catalog: MappedTool[], disabledGroups: Set<string>): ToolGroupState[] {
+    const groups = new Map<string, ToolGroupState>();
+    for (const tool of catalog) {
+        for (const name of tool.groups || []) {
+            if (!groups.has(name)) {
+                groups.set(name, { name, enabled: !disabledGroups.has(name), tools: [] });
+            }
+            groups.get(name)!.tools.push(tool.mcpToolDefinition.name);
+        }
+    }
+    return [...groups.values()];
+}
+
+/**
+ * Registers the tools that let clients list tool groups and enable or disable them at runtime:
+ * list_tool_groups, enable_tool_group and disable_tool_group
+ * @param server The MCP server to register the tools on
+ * @param getCatalog Returns the mapped tools currently served, enabled or not
+ * @param disabledGroups The groups disabled on this server, updated in place
+ * @param onChange Called after a group was enabled or disabled, to register or remove its tools
+ * @returns The registered tool handles
+ */
+export function registerToolGroupTools(
+    server: McpServer,
+    getCatalog: () => MappedTool[],
+    disabledGroups: Set<string>,
+    onChange: () => void
+): RegisteredTool[] {
+    const findGroup = (name: string): ToolGroupState => {
+        const groups = listToolGroups(getCatalog(), disabledGroups);
+        const group = groups.find(candidate => candidate.name === name);
+        if (!group) {
+            throw new McpError(ErrorCode.InvalidParams, `Unknown tool group '${name}'. Available groups: ${groups.map(candidate => candidate.name).join(', ')}`);
+        }
+        return group;
+    };
+
+    const setEnabled = (name: string, enabled: boolean): CallToolResult => {
+        const group = findGroup(name);
+        if (enabled) {
+            disabledGroups.delete(name);
+        } else {
+            disabledGroups.add(name);
+        }
+        onChange();
+        return { content: [{ type: 'text', text: `Tool group '${name}' ${enabled ? 'enabled' : 'disabled'}: ${group.tools.join(', ')}` }] };
+    };
+
+    const list = server.registerTool(
+        'list_tool_groups',
+        {
+            description: 'List the tool groups, whether each is enabled, and the tools it contains. Disabled groups are not listed as tools until enabled.',
+            annotations: { readOnlyHint: true, openWorldHint: false },
+        },
+        async () => ({
+            content: [{ type: 'text', text: JSON.stringify(listToolGroups(getCatalog(), disabledGroups), null, 2) }],
+        })
+    );
+
+    const groupInput = { group: z.string().describe('Name of the tool group, as returned by list_tool_groups') };
+
+    const enable = server.registerTool(
+        'enable_tool_group',
+        {
+            description: 'Enable a tool group, making its tools available. The tool list changes accordingly.',
+            inputSchema: groupInput,
+            annotations: { idempotentHint: true, openWorldHint: false },
+        },
+        async ({ group }) => setEnabled(group, true)
+    );
+
+    const disable = server.registerTool(
+        'disable_tool_group',
+        {
+            description: 'Disable a tool group, removing its tools (unless they also belong to an enabled group). The tool list changes accordingly.',
+            inputSchema: groupInput,
+            annotations: { idempotentHint: true, openWorldHint: false },
+        },
+        async ({ group }) => setEnabled(group, false)
+    );
+
+    return [list, enable, disable];
+}
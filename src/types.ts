@@ -1,10 +1,26 @@
 import type { JSONSchema7 } from 'json-schema'; // npm install --save-dev @types/json-schema
 import type { OpenAPIV3 } from 'openapi-types'; // Already installed
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { AxiosRequestConfig } from 'axios';
+import type { LogFormat } from './utils/logger';
 
 // Structure to hold processed info for one API operation -> MCP tool
 export interface MappedTool {
     mcpToolDefinition: McpToolDefinition;
     apiCallDetails: ApiCallDetails;
+    resourceUriTemplate?: string; // e.g. api://pets/{petId}, set when the operation is also exposed as a resource template
+    tags?: string[]; // OpenAPI tags of the operation, when it has any
+    groups?: string[]; // Tool groups the operation belongs to (tags or configured groups), when it has any
+    completionLookups?: Record<string, CompletionLookup>; // Live completions of input properties, by property name
+}
+
+// Operation looked up to complete an argument, from an x-mcp-completion extension
+export interface CompletionLookup {
+    operationId: string; // GET operation whose response lists the candidate values
+    namespace?: string; // Namespace of the spec defining the operation, when several specs are mounted
+    value?: string; // Property of each listed item holding the value, e.g. id
+    items?: string; // Property of the response holding the list, when the response is not an array
 }
 
 // Based on MCP SDK structure (simplified for definition)
@@ -13,6 +29,7 @@ export interface McpToolDefinition {
     description: string;
     inputSchema: JSONSchema7;
     outputSchema?: JSONSchema7; // Optional but recommended
+    outputStatusCodes?: string[]; // Success status codes whose response body the output schema describes, e.g. ['200', '2XX']
     annotations?: Record<string, any>;
 }
 
@@ -25,6 +42,170 @@ export interface ApiCallDetails {
     requestBody?: OpenAPIV3.RequestBodyObject; // To help map MCP input back
     securityRequirements: OpenAPIV3.SecurityRequirementObject[] | null; // From operation or global spec
     securitySchemes?: Record<string, OpenAPIV3.SecuritySchemeObject>; // Security scheme definitions from OpenAPI components
+    asyncJob?: AsyncJobOptions; // Set when 202 Accepted responses are polled until the job finishes
+    namespace?: string; // Namespace of the spec the operation comes from, when several specs are mounted
+    operationId?: string; // The operationId in the spec, when the operation has one
+}
+
+// Polling of an operation that answers 202 Accepted with a job status URL
+export interface AsyncJobOptions {
+    timeout: number; // Seconds to wait for the job to finish
+    interval: number; // Seconds before the first poll, doubled after each poll
+    maxInterval: number; // Longest wait between polls, in seconds
+}
+
+// Prompt template defined by an x-mcp-prompts extension (document, path or operation level)
+export interface MappedPrompt {
+    name: string;
+    title?: string;
+    description?: string;
+    arguments: PromptArgumentDefinition[];
+    messages: PromptMessageTemplate[]; // {{argument}} placeholders are substituted when the prompt is requested
+}
+
+// Argument of an x-mcp-prompts template; MCP prompt arguments are always strings
+export interface PromptArgumentDefinition {
+    name: string;
+    description?: string;
+    required?: boolean;
+    values?: string[]; // Completion candidates, from `enum` and `examples`
+    completion?: CompletionLookup; // Live completions, from an x-mcp-completion extension
+}
+
+// One message of an x-mcp-prompts template
+export interface PromptMessageTemplate {
+    role: 'user' | 'assistant';
+    text: string;
+}
+
+// Result of comparing two mapped tool sets by tool name
+export interface ToolSetDiff {
+    added: MappedTool[];
+    removed: MappedTool[];
+    changed: MappedTool[]; // New versions of tools whose definition or API call details differ
+}
+
+// One OpenAPI spec served by the server, with the settings of the API behind it.
+// The top-level configuration describes the only spec unless several specs are mounted.
+export interface SpecSource {
+    namespace?: string; // Set when several specs are mounted, e.g. billing; namespaces their resource URIs
+    toolPrefix?: string; // Prepended to every tool and prompt name of the spec, e.g. billing_
+    specPath: string;
+    overlayPaths: string[];
+    targetApiBaseUrl?: string; // Overrides the servers of the spec
+    filter: {
+        whitelist: string[] | null;
+        blacklist: string[];
+    };
+    apiKey?: string;
+    securityCredentials: Record<string, string>; // Credentials keyed by security scheme name
+    customHeaders: Record<string, string>; // Headers added to every request to the API
+}
+
+// Options of a server, as accepted by createOpenApiMcpServer and produced by loadConfig from the
+// command line, the environment and the config file. Lists may be given as comma-separated strings.
+export interface OpenApiMcpServerOptions {
+    spec: string | SpecEntryOptions[]; // Path or URL of the spec, or several specs to mount under their names
+    overlays?: string | string[];
+    targetUrl?: string; // Overrides the servers of the spec
+    whitelist?: string | string[]; // operationIds or URL paths to include (glob patterns)
+    blacklist?: string | string[]; // operationIds or URL paths to exclude, ignored if a whitelist is set
+    apiKey?: string;
+    securitySchemeName?: string;
+    securityCredentials?: Record<string, string>; // Credentials keyed by security scheme name
+    headers?: Record<string, string>; // Headers added to every request to the API
+    transport?: 'stdio' | 'http' | 'sse';
+    port?: number;
+    forwardAuthorization?: boolean;
+    sessionTimeout?: number; // Seconds an HTTP session may stay idle
+    disableXMcp?: boolean;
+    watch?: boolean;
+    refreshInterval?: number; // Seconds
+    resourceTemplates?: boolean;
+    toolMode?: 'tools' | 'compact';
+    tagGroups?: boolean;
+    toolGroups?: Record<string, string | string[] | ToolGroupOptions>;
+    disabledToolGroups?: string | string[];
+    maxBinarySize?: number; // Bytes
+    progressInterval?: number; // Seconds
+    asyncOperations?: string | string[];
+    asyncTimeout?: number; // Seconds
+    logLevel?: LoggingLevel;
+    logFormat?: LogFormat;
+    redactFields?: string | string[];
+    plugins?: string | Array<string | OpenApiMcpPlugin>; // Paths of plugin modules, or plugins
+}
+
+// One entry of a list of specs mounted side by side
+export interface SpecEntryOptions {
+    name: string; // Namespace of the spec's resource URIs, made of letters, digits, _ and -
+    spec: string;
+    prefix?: string; // Prepended to the spec's tool and prompt names; defaults to the name followed by _
+    overlays?: string | string[];
+    targetUrl?: string;
+    whitelist?: string | string[];
+    blacklist?: string | string[];
+    apiKey?: string;
+    securityCredentials?: Record<string, string>;
+    headers?: Record<string, string>; // Merged over the headers configured for every spec
+}
+
+// A configured tool group: the operations it contains and whether it starts enabled
+export interface ToolGroupOptions {
+    operations: string | string[];
+    enabled?: boolean;
+}
+
+// The validated configuration of a server, with defaults applied. Its top-level spec settings
+// describe the only spec unless several specs are mounted.
+export interface ServerConfig extends SpecSource {
+    specs: SpecSource[]; // Every spec served
+    mcpPort: number;
+    transport: 'stdio' | 'http' | 'sse';
+    securitySchemeName: string;
+    disableXMcp: boolean;
+    forwardAuthorization: boolean;
+    sessionTimeout: number; // Seconds an HTTP session may stay idle before it is closed; 0 keeps it open
+    watch: boolean;
+    refreshInterval: number;
+    resourceTemplates: boolean;
+    toolMode: 'tools' | 'compact';
+    tagGroups: boolean;
+    toolGroups: Record<string, string[]>; // Operation patterns of each configured group
+    disabledToolGroups: string[];
+    maxBinarySize: number;
+    progressInterval: number;
+    asyncOperations: string[];
+    asyncTimeout: number;
+    logLevel: LoggingLevel;
+    logFormat: LogFormat;
+    redactFields: string[];
+    plugins: OpenApiMcpPlugin[]; // Loaded plugins, in the configured order
+}
+
+// A server created with createOpenApiMcpServer
+export interface OpenApiMcpServer {
+    server: McpServer; // Serves the mapped tools, resources and prompts; connected to stdio by start(), or to any transport
+    config: ServerConfig;
+    readonly tools: MappedTool[]; // The mapped operations currently served
+    readonly prompts: MappedPrompt[]; // The prompts currently served
+    createServer(sessionCredentials?: SessionCredentials): McpServer; // Another MCP server over the same tools, e.g. one per HTTP session
+    reload(): Promise<boolean>; // Reloads the specs, updating every MCP server in place; false if the previous tools were kept
+    start(): Promise<void>; // Serves the configured transport, watching and polling the specs as configured
+    close(): Promise<void>; // Stops serving and closes the MCP servers
+}
+
+// A processed spec and the namespace it is mounted under (none when it is the only spec)
+export interface NamespacedSpec {
+    namespace?: string;
+    toolPrefix?: string; // Also prepended to the names of the spec's prompts
+    openapi: ProcessedOpenAPI;
+}
+
+// Upstream credentials supplied by a single MCP session (HTTP transports only)
+export interface SessionCredentials {
+    authorization?: string; // Incoming Authorization header, forwarded as-is to the upstream API
+    securityCredentials?: Record<string, string>; // Credentials keyed by security scheme name
 }
 
 // Representing the parsed and processed OpenAPI spec
@@ -36,6 +217,42 @@ export type ProcessedOpenAPI = any; // Using 'any' from swagger-parser for simpl
 export interface ApiClientResponse {
     success: boolean;
     statusCode: number;
-    data?: any;
+    data?: any; // Parsed JSON, text, or a Buffer for binary bodies (images, audio, PDFs...)
     error?: string;
+    contentType?: string; // Content-Type header of the response
+    url?: string; // Full URL of the upstream request, including the query string without credentials
+    headers?: Record<string, string>; // Response headers, with lower-case names
+    failure?: ApiCallFailure; // Why the call failed, set when success is false
+}
+
+// Kinds of API call failures:
+// - validation: the input was rejected before any request was made
+// - security: credentials could not be applied to the request
+// - network: no HTTP response was received (DNS, connection, timeout...)
+// - http: the API answered with a non-2xx status
+// - cancelled: the MCP client cancelled the request before the API answered
+// - job: an asynchronous job (202 Accepted) reported that it failed
+// - timeout: an asynchronous job did not finish within its timeout
+export type ApiCallFailure = 'validation' | 'security' | 'network' | 'http' | 'cancelled' | 'job' | 'timeout';
+
+// Per-call options of executeApiCall
+export interface ApiCallOptions {
+    signal?: AbortSignal; // Aborts the upstream request, e.g. when the MCP client cancels the tool call
+    onProgress?: (message: string) => void; // Receives status updates while an asynchronous job is polled
+    toolName?: string; // Name of the tool the call is made for, passed to plugin hooks
+}
+
+// Hooks a plugin module exports to customize the mapping and the API calls. Every hook is optional and
+// may be async; a hook may change what it receives in place, or return a replacement.
+export interface OpenApiMcpPlugin {
+    name?: string; // Used in logs and errors; defaults to the module file name
+    // Receives the tools mapped from every spec, on startup and on each reload; may return another list
+    onToolsMapped?(tools: MappedTool[]): MappedTool[] | void | Promise<MappedTool[] | void>;
+    // Runs before a request is sent, with credentials applied; returning a response skips the request,
+    // and throwing rejects the arguments
+    beforeRequest?(toolName: string, requestConfig: AxiosRequestConfig, input: Record<string, any>): ApiClientResponse | void | Promise<ApiClientResponse | void>;
+    // Runs after a successful call; may return a replacement response
+    afterResponse?(toolName: string, response: ApiClientResponse): ApiClientResponse | void | Promise<ApiClientResponse | void>;
+    // Runs after a failed call (rejected arguments, network error, error status...); may return a replacement response
+    onError?(toolName: string, response: ApiClientResponse): ApiClientResponse | void | Promise<ApiClientResponse | void>;
 }
\ No newline at end of file
@@ -0,0 +1,73 @@
+import type { EventStore, EventId, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+interface StoredEvent {
+  streamId: StreamId;
+  message: JSONRPCMessage;
+}
+
+/**
+ * In-memory event store used by the Streamable HTTP transport to make SSE streams resumable.
+ * Clients reconnecting with a `Last-Event-ID` header get every event they missed replayed.
+ */
+export class InMemoryEventStore implements EventStore {
+  private events = new Map<EventId, StoredEvent>();
+  private counter = 0;
+
+  /**
+   * @param maxEvents Maximum number of events kept before the oldest ones are evicted
+   */
+  constructor(private readonly maxEvents: number = 1000) {}
+
+  /**
+   * Stores an event and returns its ID. IDs embed the stream ID and a sequence number
+   * so they sort chronologically and can be mapped back to their stream.
+   */
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${String(++this.counter).padStart(12, '0')}`;
+    this.events.set(eventId, { streamId, message });
+
+    // Map iteration order is insertion order, so the first key is the oldest event
+    if (this.events.size > this.maxEvents) {
+      const oldest = this.events.keys().next().value;
+      if (oldest !== undefined) {
+        this.events.delete(oldest);
+      }
+    }
+
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.events.get(eventId)?.streamId;
+  }
+
+  /**
+   * Replays all events of the same stream that were stored after the given event ID
+   */
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const lastEvent = this.events.get(lastEventId);
+    if (!lastEvent) {
+      return '';
+    }
+
+    let foundLastEvent = false;
+    for (const [eventId, { streamId, message }] of this.events) {
+      if (streamId !== lastEvent.streamId) continue;
+
+      if (eventId === lastEventId) {
+        foundLastEvent = true;
+        continue;
+      }
+
+      if (foundLastEvent) {
+        await send(eventId, message);
+      }
+    }
+
+    return lastEvent.streamId;
+  }
+}
@@ -0,0 +1,55 @@
+import fs from 'fs';
+import path from 'path';
+import { createLogger } from './logger';
+
+const log = createLogger('fileWatcher');
+
+/**
+ * Watches local files for changes and invokes a callback once the changes settle.
+ * The parent directories are watched rather than the files themselves, so editors that
+ * save by replacing the file (rename) keep triggering change events.
+ * @param filePaths Absolute paths of the files to watch
+ * @param onChange Callback invoked with the paths that changed
+ * @param debounceMs Quiet period to wait for before invoking the callback
+ * @returns A function that stops watching
+ */
+export function watchFiles(
+  filePaths: string[],
+  onChange: (changedPaths: string[]) => void,
+  debounceMs: number = 300
+): () => void {
+  const watchedFiles = new Set(filePaths.map(filePath => path.resolve(filePath)));
+  const directories = new Set([...watchedFiles].map(filePath => path.dirname(filePath)));
+  const pendingChanges = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+
+  const watchers = [...directories].map(directory => {
+    const watcher = fs.watch(directory, (_eventType, filename) => {
+      if (!filename) return;
+
+      const changedPath = path.resolve(directory, filename.toString());
+      if (!watchedFiles.has(changedPath)) return;
+
+      pendingChanges.add(changedPath);
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        const changedPaths = [...pendingChanges];
+        pendingChanges.clear();
+        onChange(changedPaths);
+      }, debounceMs);
+    });
+
+    watcher.on('error', (error) => {
+      log.error('Error watching directory', { directory, error: error.message });
+    });
+
+    return watcher;
+  });
+
+  log.info('Watching for changes', { files: [...watchedFiles] });
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    watchers.forEach(watcher => watcher.close());
+  };
+}
@@ -1,28 +1,107 @@
 import fetch from 'node-fetch';
+import { createLogger } from './logger';
+
+const log = createLogger('httpClient');
+
+// Last successful response of a URL, with the validators needed for conditional requests
+export interface CachedResponse {
+  content: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+// Cached responses by URL; each server keeps its own, so servers polling the same URL all see its changes
+export type ResponseCache = Map<string, CachedResponse>;
+
+/**
+ * Creates an empty response cache
+ * @returns The cache
+ */
+export function createResponseCache(): ResponseCache {
+  return new Map();
+}
+
+/**
+ * Builds the conditional request headers (If-None-Match / If-Modified-Since) for a cached URL
+ * @param url The URL to build the headers for
+ * @param responseCache The cache to look the URL up in
+ * @returns The headers, empty if the URL has not been fetched before
+ */
+function getConditionalHeaders(url: string, responseCache: ResponseCache): Record<string, string> {
+  const cached = responseCache.get(url);
+  const headers: Record<string, string> = {};
+  if (cached?.etag) {
+    headers['If-None-Match'] = cached.etag;
+  }
+  if (cached?.lastModified) {
+    headers['If-Modified-Since'] = cached.lastModified;
+  }
+  return headers;
+}
+
+/**
+ * Fetches a URL, revalidating the cached copy if there is one
+ * @param url The URL to fetch
+ * @param responseCache The cache holding the last fetched copy, updated with the response
+ * @returns The content and whether it differs from the cached copy
+ */
+async function fetchWithCache(url: string, responseCache: ResponseCache): Promise<{ content: string; modified: boolean }> {
+  const response = await fetch(url, { headers: getConditionalHeaders(url, responseCache) });
+  const cached = responseCache.get(url);
+
+  if (response.status === 304 && cached) {
+    return { content: cached.content, modified: false };
+  }
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status} - ${response.statusText}`);
+  }
+
+  const content = await response.text();
+  responseCache.set(url, {
+    content,
+    etag: response.headers.get('etag') || undefined,
+    lastModified: response.headers.get('last-modified') || undefined,
+  });
+
+  // Servers without validators always answer 200, so compare the content as well
+  return { content, modified: !cached || cached.content !== content };
+}
 
 /**
  * Fetches content from an HTTP URL
  * @param url The URL to fetch content from
+ * @param responseCache The cache to revalidate against and update; without one, the URL is always fetched in full
  * @returns The content as a string
  */
-export async function fetchFromUrl(url: string): Promise<string> {
+export async function fetchFromUrl(url: string, responseCache: ResponseCache = createResponseCache()): Promise<string> {
   try {
-    console.error(`Fetching from URL: ${url}`);
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status} - ${response.statusText}`);
+    log.debug('Fetching from URL', { url });
+    const { content, modified } = await fetchWithCache(url, responseCache);
+
+    if (modified) {
+      log.debug('Fetched URL', { url, bytes: content.length });
+    } else {
+      log.debug('Content not modified, using cached copy', { url });
     }
-    
-    const content = await response.text();
-    console.error(`Successfully fetched ${content.length} bytes from ${url}`);
     return content;
   } catch (error: any) {
-    console.error(`Error fetching from URL ${url}: ${error.message}`);
+    log.error('Error fetching from URL', { url, error: error.message });
     throw error;
   }
 }
 
+/**
+ * Re-fetches a URL with If-None-Match / If-Modified-Since and reports whether it changed
+ * @param url The URL to check
+ * @param responseCache The cache holding the last fetched copy, updated with the response
+ * @returns True if the content differs from the last fetched copy
+ */
+export async function hasUrlChanged(url: string, responseCache: ResponseCache): Promise<boolean> {
+  const { modified } = await fetchWithCache(url, responseCache);
+  return modified;
+}
+
 /**
  * Checks if a string is an HTTP or HTTPS URL
  * @param urlOrPath String to check
@@ -0,0 +1,193 @@
+import { z } from 'zod/v4';
+import type { JSONSchema7, JSONSchema7Definition, JSONSchema7TypeName } from 'json-schema';
+
+// Keywords the Zod → JSON Schema conversion can emit on its own. When advertising a schema,
+// any of them missing from the original is explicitly unset (see advertisedMetadata).
+const GENERATED_KEYWORDS = [
+  'type', 'anyOf', 'oneOf', 'allOf', 'not', 'enum', 'const', 'format', 'pattern', 'minLength', 'maxLength',
+  'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf', 'items', 'prefixItems',
+  'minItems', 'maxItems', 'uniqueItems', 'properties', 'required', 'additionalProperties', 'default',
+  'examples', 'description', 'title', 'contentEncoding',
+];
+
+type Primitive = string | number | boolean | null;
+
+/**
+ * Checks whether a value can be used as a Zod literal
+ * @param value The value to check
+ * @returns True for strings, numbers, booleans and null
+ */
+function isPrimitive(value: unknown): value is Primitive {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+/**
+ * Builds a union, since Zod unions need at least two members
+ * @param options The member schemas
+ * @returns The union, the single member, or z.never() for no members
+ */
+function unionOf(options: z.ZodType[]): z.ZodType {
+  if (options.length === 0) return z.never();
+  if (options.length === 1) return options[0];
+  return z.union(options as [z.ZodType, z.ZodType, ...z.ZodType[]]);
+}
+
+/**
+ * Converts an enum keyword to literals; non-primitive members are compared structurally
+ * @param values The allowed values
+ * @returns A schema accepting exactly the allowed values
+ */
+function enumToZod(values: unknown[]): z.ZodType {
+  if (values.length > 0 && values.every(value => typeof value === 'string')) {
+    return z.enum(values as [string, ...string[]]);
+  }
+  if (values.every(isPrimitive)) {
+    return unionOf(values.map(value => z.literal(value as Primitive)));
+  }
+  return z.unknown().refine(
+    input => values.some(value => JSON.stringify(value) === JSON.stringify(input)),
+    { message: `Expected one of ${JSON.stringify(values)}` }
+  );
+}
+
+/**
+ * Converts a schema restricted to a single JSON type
+ * @param schema The schema whose keywords apply
+ * @param type The JSON type to convert for
+ * @returns The Zod schema for that type
+ */
+function typedSchemaToZod(schema: JSONSchema7, type: JSONSchema7TypeName): z.ZodType {
+  switch (type) {
+    case 'string': {
+      // Formats are advertised but not enforced: upstream APIs are often more lenient than the strict validators
+      let result = z.string();
+      if (typeof schema.minLength === 'number') result = result.min(schema.minLength);
+      if (typeof schema.maxLength === 'number') result = result.max(schema.maxLength);
+      if (schema.pattern) result = result.regex(new RegExp(schema.pattern));
+      return result;
+    }
+    case 'integer':
+    case 'number': {
+      let result = type === 'integer' ? z.number().int() : z.number();
+      if (typeof schema.minimum === 'number') result = result.min(schema.minimum);
+      if (typeof schema.maximum === 'number') result = result.max(schema.maximum);
+      if (typeof schema.exclusiveMinimum === 'number') result = result.gt(schema.exclusiveMinimum);
+      if (typeof schema.exclusiveMaximum === 'number') result = result.lt(schema.exclusiveMaximum);
+      if (typeof schema.multipleOf === 'number') result = result.multipleOf(schema.multipleOf);
+      return result;
+    }
+    case 'boolean':
+      return z.boolean();
+    case 'null':
+      return z.null();
+    case 'array': {
+      const items = schema.items === undefined || Array.isArray(schema.items)
+        ? z.unknown()
+        : jsonSchemaToZod(schema.items);
+      let result: z.ZodType = z.array(items);
+      if (typeof schema.minItems === 'number') result = (result as z.ZodArray<z.ZodType>).min(schema.minItems);
+      if (typeof schema.maxItems === 'number') result = (result as z.ZodArray<z.ZodType>).max(schema.maxItems);
+      if (schema.uniqueItems === true) {
+        result = result.refine(
+          (values: unknown) => new Set((values as unknown[]).map(value => JSON.stringify(value))).size === (values as unknown[]).length,
+          { message: 'Array items must be unique' }
+        );
+      }
+      return result;
+    }
+    case 'object': {
+      const shape: Record<string, z.ZodType> = {};
+      for (const [name, propertySchema] of Object.entries(schema.properties || {})) {
+        const property = jsonSchemaToZod(propertySchema);
+        shape[name] = schema.required?.includes(name) ? property : property.optional();
+      }
+
+      const { additionalProperties } = schema;
+      if (additionalProperties === false) return z.strictObject(shape);
+      if (additionalProperties && typeof additionalProperties === 'object') {
+        return z.object(shape).catchall(jsonSchemaToZod(additionalProperties));
+      }
+      return z.looseObject(shape);
+    }
+    default:
+      return z.unknown();
+  }
+}
+
+/**
+ * Recursively converts a JSON Schema (as produced by mapOpenApiToMcpTools) to a Zod schema that
+ * validates the same values: nested objects and required fields, arrays, enums, string, number and
+ * array constraints, nullable type unions and anyOf/oneOf/allOf compositions.
+ * @param schema The JSON Schema to convert
+ * @returns The equivalent Zod schema
+ */
+export function jsonSchemaToZod(schema: JSONSchema7Definition): z.ZodType {
+  if (schema === true) return z.unknown();
+  if (schema === false) return z.never();
+
+  let result: z.ZodType;
+  if (schema.const !== undefined) {
+    result = enumToZod([schema.const]);
+  } else if (Array.isArray(schema.enum)) {
+    result = enumToZod(schema.enum);
+  } else if (Array.isArray(schema.type)) {
+    // e.g. ["string", "null"] for nullable values
+    result = unionOf(schema.type.map(type => typedSchemaToZod(schema, type)));
+  } else if (schema.type) {
+    result = typedSchemaToZod(schema, schema.type);
+  } else if (schema.properties) {
+    result = typedSchemaToZod(schema, 'object');
+  } else {
+    result = z.unknown();
+  }
+
+  if (schema.allOf) {
+    result = schema.allOf.reduce<z.ZodType>((combined, part) => z.intersection(combined, jsonSchemaToZod(part)), result);
+  }
+  const alternatives = schema.anyOf || schema.oneOf;
+  if (alternatives) {
+    result = z.intersection(result, unionOf(alternatives.map(jsonSchemaToZod)));
+  }
+
+  return result;
+}
+
+/**
+ * Builds the metadata that makes the Zod → JSON Schema conversion (used by the MCP SDK for
+ * tools/list) reproduce a schema exactly: metadata takes precedence over the generated JSON Schema,
+ * and generated keywords the original does not have are unset.
+ * @param schema The original JSON Schema
+ * @returns Metadata to attach with .meta()
+ */
+function advertisedMetadata(schema: JSONSchema7): Record<string, unknown> {
+  const metadata: Record<string, unknown> = {};
+  GENERATED_KEYWORDS.forEach(keyword => { metadata[keyword] = undefined; });
+  return { ...metadata, ...schema };
+}
+
+/**
+ * Converts a JSON Schema like jsonSchemaToZod, and makes the result convert back to the original exactly
+ * @param schema The JSON Schema to convert
+ * @returns A Zod schema that validates like the original and is advertised as the original
+ */
+export function jsonSchemaToAdvertisedZod(schema: JSONSchema7): z.ZodType {
+  return jsonSchemaToZod(schema).meta(advertisedMetadata(schema));
+}
+
+/**
+ * Converts the properties of an object schema to a Zod raw shape for tool registration.
+ * Each property validates and is advertised like jsonSchemaToAdvertisedZod.
+ * @param schema An object JSON Schema, e.g. McpToolDefinition.inputSchema
+ * @returns The raw shape, with properties not listed in `required` made optional
+ */
+export function jsonSchemaToZodShape(schema: JSONSchema7): Record<string, z.ZodType> {
+  const shape: Record<string, z.ZodType> = {};
+
+  for (const [name, propertySchema] of Object.entries(schema.properties || {})) {
+    const property = jsonSchemaToZod(propertySchema);
+    const field = schema.required?.includes(name) ? property : property.optional();
+    shape[name] = typeof propertySchema === 'object' ? field.meta(advertisedMetadata(propertySchema)) : field;
+  }
+
+  return shape;
+}
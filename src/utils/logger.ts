@@ -0,0 +1,177 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import { createRedactionRules, redact, redactString, RedactionRules } from './redaction';
+
+// MCP (syslog) log levels, from least to most severe
+export const LOG_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+export type LogFormat = 'text' | 'json';
+export type LogFields = Record<string, unknown>;
+
+// One log entry, as written to stderr and passed to log sinks
+export interface LogRecord {
+  time: string;
+  level: LoggingLevel;
+  component: string; // The module that logged, e.g. apiClient
+  message: string;
+  fields?: LogFields; // Structured details, e.g. status codes or URLs
+}
+
+// Receives the log records emitted while handling one MCP request, see withLogSink
+export type LogSink = (record: LogRecord) => void;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  notice(message: string, fields?: LogFields): void;
+  warning(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+// How records are written to stderr and what is redacted from them. Each server has its own,
+// so servers created in the same process keep their own log level, format and credentials.
+export interface LogContext {
+  level: LoggingLevel; // The lowest level written to stderr
+  format: LogFormat;
+  redaction: RedactionRules;
+}
+
+const requestSinks = new AsyncLocalStorage<LogSink>();
+const contexts = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Checks whether a value is an MCP log level
+ * @param value The value to check
+ * @returns True for debug, info, notice, warning, error, critical, alert and emergency
+ */
+export function isLogLevel(value: unknown): value is LoggingLevel {
+  return LOG_LEVELS.includes(value as LoggingLevel);
+}
+
+/**
+ * Compares log levels by severity
+ * @param level The level of a record
+ * @param threshold The lowest level to keep
+ * @returns True if records of the given level pass the threshold
+ */
+export function isLevelEnabled(level: LoggingLevel, threshold: LoggingLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+/**
+ * Creates a log context
+ * @param options The level and format to use (info and text by default), and the redaction rules
+ * @returns The log context
+ */
+export function createLogContext(options: { level?: LoggingLevel; format?: LogFormat; redaction?: RedactionRules } = {}): LogContext {
+  return { level: options.level || 'info', format: options.format || 'text', redaction: options.redaction || createRedactionRules() };
+}
+
+// Applies to records logged outside of any server, e.g. while the command line is parsed
+const defaultContext = createLogContext();
+
+/**
+ * Runs a function in a log context: every record logged during it, including from asynchronous
+ * work it starts, is written and redacted as the context says
+ * @param context The log context
+ * @param fn The function to run
+ * @returns The result of the function
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return contexts.run(context, fn);
+}
+
+/**
+ * Gets the log context records are currently logged in
+ * @returns The context of the running server, or the default context outside of any
+ */
+export function getLogContext(): LogContext {
+  return contexts.getStore() || defaultContext;
+}
+
+/**
+ * Runs a function with a sink that receives every record logged during it, including from
+ * asynchronous work it starts. Used to forward the logs of an MCP request to the client that sent it.
+ * @param sink The sink for the records
+ * @param fn The function to run
+ * @returns The result of the function
+ */
+export function withLogSink<T>(sink: LogSink, fn: () => T): T {
+  return requestSinks.run(sink, fn);
+}
+
+/**
+ * Makes field values serializable and safe to log: errors become their name and message,
+ * and credentials are redacted (see redaction.ts)
+ * @param fields The fields of a record
+ * @param rules The redaction rules to apply
+ * @returns The serializable, redacted fields
+ */
+function serializeFields(fields: LogFields, rules: RedactionRules): LogFields {
+  const serialized: LogFields = {};
+  for (const [key, value] of Object.entries(fields)) {
+    serialized[key] = value instanceof Error ? { name: value.name, message: value.message } : value;
+  }
+  return redact(rules, serialized) as LogFields;
+}
+
+/**
+ * Formats a record as one line of text or JSON
+ * @param record The record to format
+ * @param format The format to use
+ * @returns The formatted line
+ */
+function formatRecord(record: LogRecord, format: LogFormat): string {
+  if (format === 'json') {
+    return JSON.stringify({ time: record.time, level: record.level, component: record.component, message: record.message, ...record.fields });
+  }
+  const fields = record.fields && Object.keys(record.fields).length > 0 ? ` ${JSON.stringify(record.fields)}` : '';
+  return `[${record.level}] ${record.component}: ${record.message}${fields}`;
+}
+
+/**
+ * Writes a record to stderr (stdout carries the stdio transport) if its level is enabled,
+ * and passes it to the sink of the current request, if any
+ * @param record The record to write
+ * @param context The log context to write the record in
+ */
+function write(record: LogRecord, context: LogContext): void {
+  if (isLevelEnabled(record.level, context.level)) {
+    console.error(formatRecord(record, context.format));
+  }
+
+  const sink = requestSinks.getStore();
+  if (sink) {
+    try {
+      sink(record);
+    } catch {
+      // A failing sink must not break the code that logged
+    }
+  }
+}
+
+/**
+ * Creates a logger for a module
+ * @param component The module name, included in every record
+ * @returns The logger
+ */
+export function createLogger(component: string): Logger {
+  const log = (level: LoggingLevel) => (message: string, fields?: LogFields) => {
+    const context = getLogContext();
+    write({
+      time: new Date().toISOString(),
+      level,
+      component,
+      message: redactString(context.redaction, message),
+      ...(fields ? { fields: serializeFields(fields, context.redaction) } : {}),
+    }, context);
+  };
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    notice: log('notice'),
+    warning: log('warning'),
+    error: log('error'),
+  };
+}
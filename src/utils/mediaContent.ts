@@ -0,0 +1,49 @@
+import type { ContentBlock } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from './logger';
+
+const log = createLogger('mediaContent');
+
+const DEFAULT_BINARY_MIME_TYPE = 'application/octet-stream';
+
+/**
+ * Extracts the MIME type from a Content-Type header, dropping parameters such as charset
+ * @param contentType The Content-Type header value
+ * @returns The lower-case MIME type, or application/octet-stream if none is given
+ */
+export function getMimeType(contentType: string | undefined): string {
+  return contentType?.split(';')[0].trim().toLowerCase() || DEFAULT_BINARY_MIME_TYPE;
+}
+
+/**
+ * Converts a binary response body to an MCP content block:
+ * images and audio become image/audio blocks, anything else (PDFs, archives...) an embedded resource.
+ * Bodies larger than maxSize are not inlined; a resource link to the upstream URL is returned instead.
+ * @param body The raw response body
+ * @param contentType The Content-Type header of the response
+ * @param url The upstream URL the body was fetched from
+ * @param maxSize The largest body (in bytes) to inline as base64
+ * @returns The content block
+ */
+export function toMediaContent(body: Buffer, contentType: string | undefined, url: string, maxSize: number): ContentBlock {
+  const mimeType = getMimeType(contentType);
+
+  if (body.length > maxSize) {
+    log.info('Binary response exceeds the inline size limit, returning a resource link', { url, bytes: body.length, maxSize });
+    return {
+      type: 'resource_link',
+      uri: url,
+      name: url.split('?')[0].split('/').pop() || url,
+      mimeType,
+      description: `${mimeType} response of ${body.length} bytes, larger than the ${maxSize} bytes returned inline`,
+    };
+  }
+
+  const data = body.toString('base64');
+  if (mimeType.startsWith('image/')) {
+    return { type: 'image', data, mimeType };
+  }
+  if (mimeType.startsWith('audio/')) {
+    return { type: 'audio', data, mimeType };
+  }
+  return { type: 'resource', resource: { uri: url, mimeType, blob: data } };
+}
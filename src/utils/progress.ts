@@ -0,0 +1,48 @@
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from './logger';
+
+const log = createLogger('progress');
+
+/**
+ * Runs a task, sending `notifications/progress` for the request every intervalMs while it is pending,
+ * and whenever the task reports a status update. Notifications are only sent when the request carries
+ * a progress token, and the first periodic one only after a full interval, so fast calls send none.
+ * Progress is the elapsed time in seconds, since upstream APIs do not report how much work remains.
+ * @param extra The request handler extra of the MCP request
+ * @param intervalMs Time between periodic notifications; 0 disables them
+ * @param label What the request is waiting for, used in the periodic notification message
+ * @param task Starts the work, given a function that reports status updates
+ * @returns The result of the task
+ */
+export async function withProgressNotifications<T>(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification> | undefined,
+  intervalMs: number,
+  label: string,
+  task: (reportProgress: (message: string) => void) => Promise<T>
+): Promise<T> {
+  const progressToken = extra?._meta?.progressToken;
+  if (!extra || progressToken === undefined) {
+    return task(() => {});
+  }
+
+  const startedAt = Date.now();
+  const reportProgress = (message: string) => {
+    extra.sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken, progress: (Date.now() - startedAt) / 1000, message },
+    }).catch(error => log.warning('Failed to send progress notification', { error: error.message }));
+  };
+
+  const timer = intervalMs > 0
+    ? setInterval(() => {
+        reportProgress(`Waiting for ${label} (${Math.round((Date.now() - startedAt) / 1000)}s elapsed)`);
+      }, intervalMs)
+    : undefined;
+
+  try {
+    return await task(reportProgress);
+  } finally {
+    if (timer) clearInterval(timer);
+  }
+}
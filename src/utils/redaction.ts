@@ -0,0 +1,131 @@
+// Replaces every redacted value in log records
+export const REDACTED = '[REDACTED]';
+
+// Header, parameter, cookie and body field names that always carry credentials
+const DEFAULT_SENSITIVE_NAMES = [
+  'authorization', 'proxy-authorization', 'cookie', 'set-cookie',
+  'x-api-key', 'api-key', 'api_key', 'apikey', 'x-auth-token', 'x-access-token',
+  'password', 'passwd', 'secret', 'client_secret', 'token', 'access_token', 'refresh_token', 'id_token',
+];
+
+// Credential values shorter than this are not masked inside strings, since they would match ordinary text
+const MIN_SECRET_LENGTH = 4;
+
+// The names and values redacted from log records. Each server has its own (see LogContext), so the
+// credentials of one server are not added to the rules of another.
+export interface RedactionRules {
+  sensitiveNames: Set<string>; // Lower-case header, parameter, cookie and field names
+  secretValues: Set<string>;
+  namePattern?: RegExp; // Cached by getNamePattern until the names change
+}
+
+/**
+ * Creates redaction rules with the default sensitive names and no secret values
+ * @returns The rules
+ */
+export function createRedactionRules(): RedactionRules {
+  return { sensitiveNames: new Set(DEFAULT_SENSITIVE_NAMES), secretValues: new Set() };
+}
+
+/**
+ * Marks header, query parameter, cookie or body field names as sensitive: their values are
+ * redacted wherever they appear in log records, as object keys or as `name=value` pairs
+ * @param rules The rules to add the names to
+ * @param names The names, compared case-insensitively
+ */
+export function addSensitiveNames(rules: RedactionRules, names: Iterable<string>): void {
+  for (const name of names) {
+    const normalized = name.trim().toLowerCase();
+    if (normalized && !rules.sensitiveNames.has(normalized)) {
+      rules.sensitiveNames.add(normalized);
+      rules.namePattern = undefined;
+    }
+  }
+}
+
+/**
+ * Marks credential values as secret: they are masked wherever they appear in log records,
+ * e.g. inside URLs or error messages
+ * @param rules The rules to add the values to
+ * @param values The values; empty and very short ones are ignored
+ */
+export function addSecretValues(rules: RedactionRules, values: Iterable<string | undefined>): void {
+  for (const value of values) {
+    if (typeof value === 'string' && value.length >= MIN_SECRET_LENGTH) {
+      rules.secretValues.add(value);
+    }
+  }
+}
+
+/**
+ * Checks whether a header, parameter, cookie or field name is sensitive
+ * @param rules The rules to check against
+ * @param name The name to check
+ * @returns True if values under this name are redacted
+ */
+export function isSensitiveName(rules: RedactionRules, name: string): boolean {
+  return rules.sensitiveNames.has(name.toLowerCase());
+}
+
+/**
+ * Builds the pattern matching `name=value` pairs of sensitive names, as found in query strings and cookies
+ * @param rules The rules whose names to match
+ * @returns The pattern, cached until the names change
+ */
+function getNamePattern(rules: RedactionRules): RegExp {
+  if (!rules.namePattern) {
+    const names = [...rules.sensitiveNames].map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    rules.namePattern = new RegExp(`(^|[?&;\\s])(${names.join('|')})=([^&;\\s]*)`, 'gi');
+  }
+  return rules.namePattern;
+}
+
+/**
+ * Masks secret values and the values of sensitive `name=value` pairs in a string
+ * @param rules The rules to apply
+ * @param text The string to redact
+ * @returns The redacted string
+ */
+export function redactString(rules: RedactionRules, text: string): string {
+  let redacted = text;
+  for (const secret of rules.secretValues) {
+    if (redacted.includes(secret)) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+  }
+  return redacted.replace(getNamePattern(rules), (_match, prefix, name) => `${prefix}${name}=${REDACTED}`);
+}
+
+/**
+ * Redacts a value for logging: values under sensitive keys are replaced, and strings are
+ * masked with redactString, recursively through arrays and plain objects
+ * @param rules The rules to apply
+ * @param value The value to redact
+ * @param seen The objects being redacted, so circular references terminate
+ * @returns A redacted copy; the value itself is not modified
+ */
+export function redact(rules: RedactionRules, value: unknown, seen: WeakSet<object> = new WeakSet()): unknown {
+  if (typeof value === 'string') {
+    return redactString(rules, value);
+  }
+  if (!value || typeof value !== 'object' || Buffer.isBuffer(value)) {
+    return value;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  if (!Array.isArray(value) && prototype !== Object.prototype && prototype !== null) {
+    return value; // Dates, URLs and other class instances are logged as they serialize
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+
+  seen.add(value);
+  let redacted: unknown;
+  if (Array.isArray(value)) {
+    redacted = value.map(item => redact(rules, item, seen));
+  } else {
+    redacted = Object.fromEntries(Object.entries(value).map(([key, item]) => [key, isSensitiveName(rules, key) ? REDACTED : redact(rules, item, seen)]));
+  }
+  seen.delete(value);
+  return redacted;
+}
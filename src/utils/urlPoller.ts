@@ -0,0 +1,54 @@
+import { hasUrlChanged, ResponseCache } from './httpClient';
+import { createLogger } from './logger';
+
+const log = createLogger('urlPoller');
+
+/**
+ * Periodically re-fetches remote files with conditional requests and invokes a callback when any changed.
+ * Polls never overlap: the next one is scheduled only after the previous one finished.
+ * @param urls HTTP(S) URLs to poll
+ * @param intervalMs Time between polls
+ * @param onChange Callback invoked with the URLs whose content changed
+ * @param responseCache The cache holding the copies the URLs are compared with, e.g. the one the specs were loaded with
+ * @returns A function that stops polling
+ */
+export function pollUrls(
+  urls: string[],
+  intervalMs: number,
+  onChange: (changedUrls: string[]) => void,
+  responseCache: ResponseCache
+): () => void {
+  let timer: NodeJS.Timeout | undefined;
+  let stopped = false;
+
+  const poll = async () => {
+    const changedUrls: string[] = [];
+
+    for (const url of urls) {
+      try {
+        if (await hasUrlChanged(url, responseCache)) {
+          changedUrls.push(url);
+        }
+      } catch (error: any) {
+        // Keep polling: the upstream may be temporarily unavailable
+        log.error('Error polling URL', { url, error: error.message });
+      }
+    }
+
+    if (changedUrls.length > 0 && !stopped) {
+      onChange(changedUrls);
+    }
+
+    if (!stopped) {
+      timer = setTimeout(poll, intervalMs);
+    }
+  };
+
+  timer = setTimeout(poll, intervalMs);
+  log.info('Polling for changes', { urls, intervalSeconds: intervalMs / 1000 });
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+}
@@ -0,0 +1,10 @@
+// Plugin module used by the plugin tests: signs every request for a tenant
+import type { OpenApiMcpPlugin } from '../../../src/types';
+
+const plugin: OpenApiMcpPlugin = {
+  beforeRequest(toolName, requestConfig) {
+    requestConfig.headers = { ...requestConfig.headers, 'X-Tenant-Signature': `signed:${toolName}` };
+  }
+};
+
+export default plugin;
@@ -1,4 +1,6 @@
 // Test configuration file
+import path from 'path';
+
 export const testConfig = {
   openApiFile: 'test/fixtures/petstore-openapi.json',
   baseUrl: 'http://localhost:3000/api',
@@ -28,3 +30,9 @@ export const testConfig = {
     createPet: { id: 3, name: 'Fluffy', tag: 'rabbit' },
   },
 };
+
+// The petstore spec as a spec source, for getProcessedOpenApi
+export const testSpecSource = {
+  specPath: path.resolve(process.cwd(), testConfig.openApiFile),
+  overlayPaths: [],
+};
@@ -4,6 +4,7 @@
  */
 
 import http from 'http';
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
 import { URL } from 'url';
@@ -22,6 +23,8 @@ export class TestHttpServer {
   private server: http.Server | null = null;
   private config: ServerConfig;
   private fixturesPath: string;
+  /** Status codes of the responses sent, in order */
+  public responseStatuses: number[] = [];
 
   /**
    * Create a new test HTTP server
@@ -78,7 +81,19 @@ export class TestHttpServer {
 
           // Read the file synchronously to avoid issues with streaming
           const fileContent = fs.readFileSync(filePath, 'utf-8');
+
+          // Support conditional requests so clients can revalidate cached copies
+          const etag = `"${crypto.createHash('md5').update(fileContent).digest('hex')}"`;
+          res.setHeader('ETag', etag);
+          if (req.headers['if-none-match'] === etag) {
+            res.statusCode = 304;
+            this.responseStatuses.push(304);
+            res.end();
+            return;
+          }
+
           res.statusCode = 200;
+          this.responseStatuses.push(200);
           res.end(fileContent);
         } catch (error) {
           console.error('Error handling request:', error);
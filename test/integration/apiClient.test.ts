@@ -278,4 +278,78 @@ describe('API Client Integration Tests', () => {
     // Restore the original config
     Object.defineProperty(config, 'disableXMcp', { get: () => originalConfig.disableXMcp });
   });
+
+  describe('session credentials', () => {
+    const securedCallDetails = (schemes: Record<string, any>) => createTestApiCallDetails({
+      method: 'GET',
+      pathTemplate: '/pets',
+      serverUrl: testConfig.baseUrl,
+      operationId: 'listPets',
+      securityRequirements: [Object.fromEntries(Object.keys(schemes).map(name => [name, []]))],
+      securitySchemes: schemes
+    });
+
+    beforeEach(() => {
+      (axios as jest.MockedFunction<typeof axios>).mockResolvedValue({
+        status: 200,
+        data: testConfig.mockResponses.listPets,
+        headers: { 'content-type': 'application/json' }
+      } as AxiosResponse);
+    });
+
+    it('should prefer the session credential over the global API key', async () => {
+      const apiCallDetails = securedCallDetails({
+        ApiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+      });
+
+      await executeApiCall(apiCallDetails, {}, { securityCredentials: { ApiKeyAuth: 'session-key' } });
+
+      expect(axios).toHaveBeenCalledWith(
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'X-API-Key': 'session-key' })
+        })
+      );
+    });
+
+    it('should fall back to the global credentials when the session has none for the scheme', async () => {
+      const apiCallDetails = securedCallDetails({
+        ApiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+      });
+
+      await executeApiCall(apiCallDetails, {}, { securityCredentials: { OtherScheme: 'other' } });
+
+      expect(axios).toHaveBeenCalledWith(
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'X-API-Key': 'test-api-key' })
+        })
+      );
+    });
+
+    it('should forward the session Authorization header for bearer schemes', async () => {
+      const apiCallDetails = securedCallDetails({
+        BearerAuth: { type: 'http', scheme: 'bearer' }
+      });
+
+      await executeApiCall(apiCallDetails, {}, { authorization: 'Bearer user-token' });
+
+      expect(axios).toHaveBeenCalledWith(
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'Authorization': 'Bearer user-token' })
+        })
+      );
+    });
+
+    it('should keep credentials of different sessions isolated', async () => {
+      const apiCallDetails = securedCallDetails({
+        BearerAuth: { type: 'http', scheme: 'bearer' }
+      });
+
+      await executeApiCall(apiCallDetails, {}, { securityCredentials: { BearerAuth: 'alice-token' } });
+      await executeApiCall(apiCallDetails, {}, { securityCredentials: { BearerAuth: 'bob-token' } });
+
+      const calls = (axios as jest.MockedFunction<typeof axios>).mock.calls;
+      expect((calls[0][0] as any).headers['Authorization']).toBe('Bearer alice-token');
+      expect((calls[1][0] as any).headers['Authorization']).toBe('Bearer bob-token');
+    });
+  });
 });
@@ -0,0 +1,199 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import axios, { AxiosResponse } from 'axios';
+import { createMcpServer } from '../../src/server';
+import { mapOpenApiToMcpTools } from '../../src/mcpMapper';
+import { executeApiCall } from '../../src/apiClient';
+import { createTestApiCallDetails } from '../utils/testTypes';
+
+jest.mock('axios');
+jest.mock('../../src/config', () => ({
+  config: {
+    targetApiBaseUrl: 'http://localhost:3000/api',
+    filter: { whitelist: null, blacklist: [] },
+    securityCredentials: {},
+    customHeaders: { 'X-Tenant': 'acme' },
+    disableXMcp: false,
+    progressInterval: 0,
+    asyncOperations: ['start*'],
+    asyncTimeout: 300
+  }
+}));
+
+const mockedAxios = axios as jest.MockedFunction<typeof axios>;
+
+const reportSchema = { type: 'object', properties: { id: { type: 'string' }, rows: { type: 'integer' } } };
+const jobSchema = { type: 'object', properties: { status: { type: 'string' } } };
+const fastPolling = { interval: 0.01, maxInterval: 0.02, timeout: 0.2 };
+
+const spec: any = {
+  openapi: '3.0.0',
+  info: { title: 'Reports API', version: '1.0.0' },
+  paths: {
+    '/exports': {
+      post: {
+        operationId: 'startExport',
+        'x-mcp': { async: fastPolling },
+        responses: {
+          '200': { description: 'The report', content: { 'application/json': { schema: reportSchema } } },
+          '202': { description: 'Job accepted', content: { 'application/json': { schema: jobSchema } } }
+        }
+      }
+    },
+    '/imports': {
+      post: {
+        operationId: 'startImport',
+        'x-mcp': { async: false },
+        responses: { '202': { description: 'Job accepted' } }
+      }
+    },
+    '/reindex': {
+      post: { operationId: 'startReindex', responses: { '202': { description: 'Job accepted' } } }
+    }
+  }
+};
+
+// Mocks the next upstream response with a JSON body, as received with responseType 'arraybuffer'
+function respondWith(status: number, body: any, headers: Record<string, string> = {}): void {
+  mockedAxios.mockResolvedValueOnce({
+    status,
+    data: Buffer.from(JSON.stringify(body)),
+    headers: { 'content-type': 'application/json', ...headers }
+  } as AxiosResponse);
+}
+
+describe('Async job polling', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    const server = createMcpServer(spec, mapOpenApiToMcpTools(spec));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    jest.clearAllMocks();
+    await client.close();
+  });
+
+  it('should poll the Location URL until the job finishes and return the created resource', async () => {
+    const report = { id: 'r1', rows: 42 };
+    respondWith(202, { status: 'queued' }, { location: '/api/jobs/7' });
+    respondWith(202, { status: 'running' });
+    respondWith(200, { status: 'succeeded', resultUrl: 'http://localhost:3000/api/reports/r1' });
+    respondWith(200, report);
+    const onprogress = jest.fn();
+
+    const result = await client.callTool({ name: 'startExport', arguments: {} }, undefined, { onprogress });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toEqual(report);
+    const urls = mockedAxios.mock.calls.map(([requestConfig]: any) => `${requestConfig.method} ${requestConfig.url}`);
+    expect(urls).toEqual([
+      'POST http://localhost:3000/api/exports',
+      'GET http://localhost:3000/api/jobs/7',
+      'GET http://localhost:3000/api/jobs/7',
+      'GET http://localhost:3000/api/reports/r1'
+    ]);
+    expect(onprogress.mock.calls.map(([progress]) => progress.message)).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^Job running/),
+      'Job finished, fetching the result'
+    ]));
+  });
+
+  it('should return a final response without a status field as the result', async () => {
+    respondWith(202, {}, { location: 'http://localhost:3000/api/jobs/8' });
+    respondWith(200, { id: 'r2', rows: 1 });
+
+    const result = await client.callTool({ name: 'startExport', arguments: {} });
+
+    expect(result.structuredContent).toEqual({ id: 'r2', rows: 1 });
+  });
+
+  it('should report failed jobs as isError results', async () => {
+    respondWith(202, {}, { location: '/api/jobs/9' });
+    respondWith(200, { status: 'failed', reason: 'disk full' });
+
+    const result: any = await client.callTool({ name: 'startExport', arguments: {} });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[1].text)).toMatchObject({ failure: 'job', body: { reason: 'disk full' }, retryable: false });
+  });
+
+  it('should give up after the timeout and return the status URL', async () => {
+    respondWith(202, {}, { location: '/api/jobs/10' });
+    mockedAxios.mockResolvedValue({
+      status: 202, data: Buffer.from('{"status":"running"}'), headers: { 'content-type': 'application/json' }
+    } as AxiosResponse);
+
+    const result: any = await client.callTool({ name: 'startExport', arguments: {} });
+    mockedAxios.mockReset();
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[1].text)).toMatchObject({
+      status: 504, failure: 'timeout', body: { statusUrl: 'http://localhost:3000/api/jobs/10', lastStatus: { status: 'running' } }
+    });
+  });
+
+  it('should only send the original headers to the same origin', async () => {
+    respondWith(202, {}, { location: '/api/jobs/11' });
+    respondWith(200, { status: 'completed' }, { location: 'https://storage.example.com/r3?signature=abc' });
+    respondWith(200, { id: 'r3', rows: 3 });
+
+    await client.callTool({ name: 'startExport', arguments: {} });
+
+    const [, [statusRequest], [resultRequest]] = mockedAxios.mock.calls as any[];
+    expect(statusRequest.headers).toMatchObject({ 'X-Tenant': 'acme' });
+    expect(resultRequest.url).toBe('https://storage.example.com/r3?signature=abc');
+    expect(resultRequest.headers).toEqual({});
+  });
+
+  it('should send the credential query parameters to the same origin and run the plugins on every poll', async () => {
+    respondWith(202, {}, { location: '/api/jobs/13' });
+    respondWith(200, { status: 'completed' }, { location: 'https://storage.example.com/r4?signature=abc' });
+    respondWith(200, { id: 'r4', rows: 4 });
+    const beforeRequest = jest.fn((_toolName: string, requestConfig: any) => {
+      requestConfig.headers = { ...requestConfig.headers, 'X-Trace': 'on' };
+    });
+    const details = createTestApiCallDetails({
+      method: 'POST',
+      pathTemplate: '/exports',
+      serverUrl: 'http://localhost:3000/api',
+      securityRequirements: [{ ApiKey: [] }],
+      securitySchemes: { ApiKey: { type: 'apiKey', in: 'query', name: 'api_key' } },
+      asyncJob: fastPolling
+    });
+
+    const result = await executeApiCall(details, {}, undefined, { toolName: 'startExport' }, {
+      securityCredentials: { ApiKey: 'key-123' }, customHeaders: {}, specs: [], disableXMcp: true, plugins: [{ name: 'trace', beforeRequest }]
+    });
+
+    expect(result).toMatchObject({ success: true, data: { id: 'r4', rows: 4 }, url: 'https://storage.example.com/r4?signature=abc' });
+    const [, [statusRequest], [resultRequest]] = mockedAxios.mock.calls as any[];
+    expect(statusRequest).toMatchObject({ url: 'http://localhost:3000/api/jobs/13', params: { api_key: 'key-123' }, headers: { 'X-Trace': 'on' } });
+    expect(resultRequest.params).toBeUndefined();
+    expect(beforeRequest).toHaveBeenCalledTimes(3);
+  });
+
+  it('should return 202 responses as is for operations without polling', async () => {
+    respondWith(202, { status: 'queued' }, { location: '/api/jobs/12' });
+
+    const result = await client.callTool({ name: 'startImport', arguments: {} });
+
+    expect(result.content).toEqual([{ type: 'text', text: '{"status":"queued"}' }]);
+    expect(mockedAxios).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Async job mapping', () => {
+  it('should enable polling from config patterns and x-mcp, and advertise the final response schema', () => {
+    const tools = mapOpenApiToMcpTools(spec);
+    const byName = (name: string) => tools.find(tool => tool.mcpToolDefinition.name === name)!;
+
+    expect(byName('startExport').apiCallDetails.asyncJob).toEqual(fastPolling);
+    expect(byName('startExport').mcpToolDefinition.outputSchema).toMatchObject({ description: 'The report' });
+    expect(byName('startReindex').apiCallDetails.asyncJob).toEqual({ timeout: 300, interval: 1, maxInterval: 30 });
+    expect(byName('startImport').apiCallDetails.asyncJob).toBeUndefined();
+  });
+});
@@ -0,0 +1,168 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CompleteResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import axios, { AxiosResponse } from 'axios';
+import { createMcpServer } from '../../src/server';
+import { mapOpenApiToMcpTools } from '../../src/mcpMapper';
+import { extractCompletionValues, getSchemaCompletionValues } from '../../src/completions';
+
+jest.mock('axios');
+jest.mock('../../src/config', () => ({
+  config: {
+    targetApiBaseUrl: 'http://localhost:3000/api',
+    filter: { whitelist: null, blacklist: [] },
+    securityCredentials: {},
+    customHeaders: {},
+    disableXMcp: true,
+    progressInterval: 0,
+    resourceTemplates: true
+  }
+}));
+
+const mockedAxios = axios as jest.MockedFunction<typeof axios>;
+
+const spec: any = {
+  openapi: '3.0.0',
+  info: { title: 'Pets API', version: '1.0.0' },
+  'x-mcp-prompts': [
+    {
+      name: 'adopt',
+      template: 'Adopt {{petId}} as a {{kind}}',
+      arguments: [
+        { name: 'kind', enum: ['dog', 'cat', 'dragon'] },
+        { name: 'petId', 'x-mcp-completion': { operation: 'listPets', items: 'pets', value: 'id' } }
+      ]
+    }
+  ],
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'listPets',
+        parameters: [
+          { name: 'status', in: 'query', schema: { type: 'string', enum: ['available', 'pending', 'sold'], default: 'available' } },
+          { name: 'owner', in: 'query', schema: { type: 'string' }, example: 'ann' },
+          { name: 'ownerId', in: 'query', schema: { type: 'integer' } }
+        ],
+        responses: { '200': { description: 'The pets' } }
+      }
+    },
+    '/pets/{petId}': {
+      get: {
+        operationId: 'getPetById',
+        parameters: [
+          { name: 'petId', in: 'path', required: true, schema: { type: 'string' }, 'x-mcp-completion': { operation: 'listPets', items: 'pets', value: 'id' } }
+        ],
+        responses: { '200': { description: 'The pet' } }
+      }
+    }
+  }
+};
+
+describe('Argument completions', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    const server = createMcpServer(spec, mapOpenApiToMcpTools(spec));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    mockedAxios.mockReset();
+    await client.close();
+  });
+
+  function completeTool(name: string, argument: string, value: string) {
+    return client.request(
+      { method: 'completion/complete', params: { ref: { type: 'ref/tool', name } as any, argument: { name: argument, value } } },
+      CompleteResultSchema
+    );
+  }
+
+  function mockPets() {
+    mockedAxios.mockResolvedValueOnce({
+      status: 200,
+      data: Buffer.from(JSON.stringify({ pets: [{ id: 'p-1', name: 'Rex' }, { id: 'p-2', name: 'Tom' }, { id: 'x-9', name: 'Nessie' }] })),
+      headers: { 'content-type': 'application/json' }
+    } as AxiosResponse);
+  }
+
+  it('should advertise the completions capability', () => {
+    expect(client.getServerCapabilities()?.completions).toEqual({});
+  });
+
+  it('should complete tool parameters from enums and defaults', async () => {
+    const { completion } = await completeTool('listPets', 'status', 'p');
+
+    expect(completion).toEqual({ values: ['pending'], total: 1, hasMore: false });
+    expect((await completeTool('listPets', 'owner', '')).completion.values).toEqual(['ann']);
+    expect(mockedAxios).not.toHaveBeenCalled();
+  });
+
+  it('should look up resource template variables with the x-mcp-completion operation', async () => {
+    mockPets();
+
+    const { completion } = await client.complete({
+      ref: { type: 'ref/resource', uri: 'api://pets/{petId}' },
+      argument: { name: 'petId', value: 'P-' },
+      context: { arguments: { status: 'sold' } }
+    });
+
+    expect(completion.values).toEqual(['p-1', 'p-2']);
+    expect(mockedAxios).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'GET', url: 'http://localhost:3000/api/pets', params: { status: 'sold' }
+    }));
+  });
+
+  it('should convert the context arguments to the parameter types of the lookup operation', async () => {
+    mockPets();
+
+    const { completion } = await client.complete({
+      ref: { type: 'ref/resource', uri: 'api://pets/{petId}' },
+      argument: { name: 'petId', value: '' },
+      context: { arguments: { ownerId: '42', petId: 'p-1', color: 'brown' } }
+    });
+
+    expect(completion.values).toEqual(['p-1', 'p-2', 'x-9']);
+    expect(mockedAxios).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'GET', url: 'http://localhost:3000/api/pets', params: { ownerId: 42 }
+    }));
+  });
+
+  it('should complete prompt arguments from enums and lookups', async () => {
+    const kinds = await client.complete({ ref: { type: 'ref/prompt', name: 'adopt' }, argument: { name: 'kind', value: 'd' } });
+    mockPets();
+    const petIds = await client.complete({ ref: { type: 'ref/prompt', name: 'adopt' }, argument: { name: 'petId', value: '' } });
+
+    expect(kinds.completion.values).toEqual(['dog', 'dragon']);
+    expect(petIds.completion.values).toEqual(['p-1', 'p-2', 'x-9']);
+  });
+
+  it('should return no candidates when the lookup fails', async () => {
+    mockedAxios.mockResolvedValueOnce({ status: 503, data: Buffer.from('{}'), headers: { 'content-type': 'application/json' } } as AxiosResponse);
+
+    const { completion } = await completeTool('getPetById', 'petId', '');
+
+    expect(completion.values).toEqual([]);
+  });
+
+  it('should reject references to unknown prompts and tools', async () => {
+    await expect(client.complete({ ref: { type: 'ref/prompt', name: 'rehome' }, argument: { name: 'kind', value: '' } }))
+      .rejects.toThrow('Prompt rehome not found');
+    await expect(completeTool('deletePet', 'petId', '')).rejects.toThrow('Tool deletePet not found');
+  });
+});
+
+describe('Completion candidates', () => {
+  it('should collect enums, examples and defaults, including those of array items', () => {
+    expect(getSchemaCompletionValues({ type: 'integer', enum: [1, 2], default: 2, examples: [3] } as any)).toEqual(['1', '2', '3']);
+    expect(getSchemaCompletionValues({ type: 'array', items: { type: 'string', enum: ['a', 'b'] } })).toEqual(['a', 'b']);
+  });
+
+  it('should extract values from lists, list properties and item objects', () => {
+    expect(extractCompletionValues(['a', 'b'], { operationId: 'list' })).toEqual(['a', 'b']);
+    expect(extractCompletionValues({ total: 2, data: [{ id: 1 }, { name: 'two' }] }, { operationId: 'list' })).toEqual(['1', 'two']);
+    expect(extractCompletionValues({ results: [{ code: 'DE' }] }, { operationId: 'list', items: 'results', value: 'code' })).toEqual(['DE']);
+  });
+});
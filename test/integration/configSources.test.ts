@@ -0,0 +1,93 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigError, describeConfig, loadConfig, loadConfigWithSources } from '../../src/config';
+
+describe('Config sources', () => {
+  let dir: string;
+
+  function writeFile(name: string, content: string): string {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-sources-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should load YAML config files given by --config or CONFIG_FILE', () => {
+    const yamlPath = writeFile('config.yaml', [
+      '# The pet store',
+      'spec: specs/petstore-openapi.json',
+      'whitelist:',
+      '  - listPets',
+      'toolGroups:',
+      '  reads:',
+      '    operations: "GET:*"',
+      '    enabled: false'
+    ].join('\n'));
+    const ymlPath = writeFile('config.yml', 'spec: other.yaml\nport: 9000\n');
+
+    expect(loadConfig([], { CONFIG_FILE: yamlPath })).toEqual(expect.objectContaining({
+      spec: 'specs/petstore-openapi.json',
+      whitelist: ['listPets'],
+      toolGroups: { reads: { operations: 'GET:*', enabled: false } }
+    }));
+    expect(loadConfig([`--config=${ymlPath}`], { CONFIG_FILE: yamlPath })).toEqual(expect.objectContaining({ spec: 'other.yaml', port: 9000 }));
+  });
+
+  it('should report invalid YAML and validate YAML options like JSON ones', () => {
+    const invalidPath = writeFile('invalid.yml', 'spec: [pets.yaml\n');
+    const wrongTypePath = writeFile('wrong.yaml', 'spec: pets.yaml\nport: eighty\n');
+
+    expect(() => loadConfig([], { CONFIG_FILE: invalidPath })).toThrow(`Failed to load config file ${invalidPath}`);
+    expect(() => loadConfig([], { CONFIG_FILE: wrongTypePath })).toThrow(`${wrongTypePath}: port: Invalid input: expected number, received string`);
+    expect(() => loadConfig(['--config', path.join(dir, 'missing.yaml')], {})).toThrow(ConfigError);
+  });
+
+  it('should record which source each option was taken from', () => {
+    const configPath = writeFile('config.yaml', 'spec: pets.yaml\nport: 9000\ntransport: http\nwatch: true\n');
+
+    const loaded = loadConfigWithSources(['--transport=sse'], { CONFIG_FILE: configPath, MCP_SERVER_PORT: '9100', MCP_TRANSPORT: 'stdio' });
+
+    expect(loaded.configPath).toBe(configPath);
+    expect(loaded.options).toEqual(expect.objectContaining({ spec: 'pets.yaml', port: 9100, transport: 'sse', watch: true }));
+    expect(loaded.sources).toEqual({
+      spec: `file (${configPath})`,
+      port: 'ENV (MCP_SERVER_PORT)',
+      transport: 'CLI (--transport)',
+      watch: `file (${configPath})`
+    });
+  });
+
+  it('should describe the effective configuration with defaults and masked credentials', () => {
+    const configPath = writeFile('config.yaml', [
+      'spec:',
+      '  - name: pets',
+      '    spec: pets.yaml',
+      '    apiKey: pets-key',
+      'headers:',
+      '  X-Tenant: acme',
+      'securityCredentials:',
+      '  petstore_auth: oauth-token'
+    ].join('\n'));
+
+    const loaded = loadConfigWithSources(['--apiKey=cli-key'], { CONFIG_FILE: configPath, HEADER_X_TRACE: 'on' });
+    const entries = describeConfig(loaded);
+
+    expect(entries).toEqual(expect.arrayContaining([
+      { option: 'spec', value: [{ name: 'pets', spec: 'pets.yaml', apiKey: '[REDACTED]' }], source: `file (${configPath})` },
+      { option: 'apiKey', value: '[REDACTED]', source: 'CLI (--apiKey)' },
+      { option: 'securityCredentials', value: { petstore_auth: '[REDACTED]' }, source: `file (${configPath})` },
+      { option: 'headers', value: { X_TRACE: '[REDACTED]', 'X-Tenant': '[REDACTED]' }, source: `file (${configPath}) + ENV (HEADER_*)` },
+      { option: 'port', value: 8080, source: 'default' }
+    ]));
+    expect(entries.map(entry => entry.option)).not.toContain('whitelist');
+    expect(JSON.stringify(entries)).not.toMatch(/cli-key|pets-key|oauth-token|acme/);
+  });
+});
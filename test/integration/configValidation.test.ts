@@ -0,0 +1,111 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigError, loadConfig } from '../../src/config';
+import { validateConfigValues } from '../../src/configSchema';
+
+describe('Config validation', () => {
+  let dir: string;
+
+  function writeConfig(content: unknown): string {
+    const configPath = path.join(dir, 'config.json');
+    fs.writeFileSync(configPath, typeof content === 'string' ? content : JSON.stringify(content));
+    return configPath;
+  }
+
+  function loadIssues(args: string[], env: NodeJS.ProcessEnv): string[] {
+    try {
+      loadConfig(args, env);
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigError);
+      return (error as ConfigError).issues;
+    }
+    throw new Error('Expected the configuration to be invalid');
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-validation-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should load a valid config file, skipping comment keys', () => {
+    const configPath = writeConfig({ '// Filters': '', spec: 'specs/petstore-openapi.json', port: 9090, whitelist: ['listPets'] });
+
+    const options = loadConfig([], { CONFIG_FILE: configPath });
+
+    expect(options).toEqual(expect.objectContaining({ spec: 'specs/petstore-openapi.json', port: 9090, whitelist: ['listPets'] }));
+  });
+
+  it('should report unknown options and wrong types with their path', () => {
+    const configPath = writeConfig({
+      spec: [{ name: 'pets', spec: 'pets.yaml', targetUrl: 42 }],
+      whitelsit: 'listPets',
+      port: '8080',
+      toolGroups: { billing: { operations: 5 } }
+    });
+
+    expect(loadIssues([], { CONFIG_FILE: configPath })).toEqual([
+      `${configPath}: spec[0].targetUrl: Invalid input: expected string, received number`,
+      `${configPath}: port: Invalid input: expected number, received string`,
+      `${configPath}: toolGroups.billing.operations: Invalid input: expected string or array, received number`,
+      `${configPath}: whitelsit: Unknown option (did you mean 'whitelist'?)`
+    ]);
+  });
+
+  it('should report environment variables and command-line options by name', () => {
+    const issues = loadIssues(['--port=abc'], {
+      CONFIG_FILE: writeConfig({}),
+      MCP_SERVER_PORT: '80 80',
+      MCP_WATCH: 'yes',
+      LOG_LEVEL: 'verbose',
+      SECURITY_CREDENTIALS: '{"petstore_auth":'
+    });
+
+    expect(issues).toEqual([
+      '--port: Invalid input: expected number, received NaN',
+      expect.stringMatching(/^SECURITY_CREDENTIALS: Invalid JSON: /),
+      'MCP_SERVER_PORT: Invalid input: expected number, received string',
+      'MCP_WATCH: Invalid input: expected boolean, received string',
+      expect.stringMatching(/^LOG_LEVEL: Invalid option: expected one of/)
+    ]);
+  });
+
+  it('should report unknown command-line options, accepting aliases and kebab-case names', () => {
+    const args = ['--whitelsit=listPets', '--log-levle', 'debug', '--no-wacth', '-s', 'pets.yaml', '--log-level=debug', '--no-watch'];
+
+    expect(loadIssues(args, { CONFIG_FILE: writeConfig({}) })).toEqual([
+      "--whitelsit: Unknown option (did you mean 'whitelist'?)",
+      "--logLevle: Unknown option (did you mean 'logLevel'?)",
+      "--wacth: Unknown option (did you mean 'watch'?)"
+    ]);
+    expect(loadConfig(args.slice(4), { CONFIG_FILE: writeConfig({}) })).toEqual(expect.objectContaining({ spec: 'pets.yaml', logLevel: 'debug', watch: false }));
+  });
+
+  it('should parse numbers, booleans and JSON from the environment', () => {
+    const options = loadConfig([], {
+      CONFIG_FILE: writeConfig({}),
+      OPENAPI_SPEC_PATH: 'pets.yaml',
+      MCP_SERVER_PORT: '9090',
+      MCP_WATCH: 'false',
+      MCP_TOOL_GROUPS: '{"billing":["*Invoice*"]}'
+    });
+
+    expect(options).toEqual(expect.objectContaining({ port: 9090, watch: false, toolGroups: { billing: ['*Invoice*'] } }));
+    expect(options.disableXMcp).toBeUndefined();
+  });
+
+  it('should fail on a config file that is missing or not valid JSON', () => {
+    expect(() => loadConfig([], { CONFIG_FILE: path.join(dir, 'missing.json') })).toThrow('does not exist');
+    expect(() => loadConfig([], { CONFIG_FILE: writeConfig('{"spec": ') })).toThrow(`Failed to load config file ${dir}`);
+  });
+
+  it('should accept the example config file', () => {
+    const example = JSON.parse(fs.readFileSync(path.resolve('config.example.json'), 'utf8'));
+    const options = Object.fromEntries(Object.entries(example).filter(([key]) => !key.startsWith('//')));
+
+    expect(validateConfigValues(options)).toEqual([]);
+  });
+});
@@ -0,0 +1,159 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import axios, { AxiosResponse } from 'axios';
+import { createMcpServer } from '../../src/server';
+import { mapOpenApiToMcpTools } from '../../src/mcpMapper';
+import { searchOperations } from '../../src/discoveryTools';
+
+jest.mock('axios');
+jest.mock('../../src/config', () => ({
+  config: {
+    targetApiBaseUrl: 'http://localhost:3000/api',
+    filter: { whitelist: null, blacklist: [] },
+    securityCredentials: {},
+    customHeaders: {},
+    disableXMcp: true,
+    progressInterval: 0,
+    toolMode: 'compact'
+  }
+}));
+
+const mockedAxios = axios as jest.MockedFunction<typeof axios>;
+
+const spec: any = {
+  openapi: '3.0.0',
+  info: { title: 'Store API', version: '1.0.0' },
+  paths: {
+    '/pets': {
+      get: { operationId: 'listPets', summary: 'List all pets', tags: ['pets'], responses: { '200': { description: 'The pets' } } },
+      post: {
+        operationId: 'createPet',
+        summary: 'Create a pet',
+        tags: ['pets'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { type: 'object', required: ['name'], properties: { name: { type: 'string' }, age: { type: 'integer', minimum: 0 } } }
+            }
+          }
+        },
+        responses: { '201': { description: 'Created' } }
+      }
+    },
+    '/orders/{orderId}': {
+      get: {
+        operationId: 'getOrder',
+        summary: 'Find an order by ID',
+        tags: ['store'],
+        'x-mcp': { resource: true },
+        parameters: [{ name: 'orderId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          '200': {
+            description: 'The order',
+            content: { 'application/json': { schema: { type: 'object', properties: { id: { type: 'string' } } } } }
+          }
+        }
+      }
+    }
+  }
+};
+
+function parseText(result: any): any {
+  return JSON.parse(result.content[0].text);
+}
+
+describe('Compact tool mode', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    const server = createMcpServer(spec, mapOpenApiToMcpTools(spec));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    mockedAxios.mockReset();
+    await client.close();
+  });
+
+  it('should list only the three meta-tools', async () => {
+    const { tools } = await client.listTools();
+
+    expect(tools.map(tool => tool.name)).toEqual(['search_operations', 'describe_operation', 'invoke_operation']);
+  });
+
+  it('should not register resource templates for the operations', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(resourceTemplates.map(template => template.uriTemplate)).not.toContain('api://orders/{orderId}');
+  });
+
+  it('should search operations by keyword and tag', async () => {
+    const byKeyword = parseText(await client.callTool({ name: 'search_operations', arguments: { query: 'order' } }));
+    const byTag = parseText(await client.callTool({ name: 'search_operations', arguments: { tag: 'Pets', limit: 1 } }));
+
+    expect(byKeyword).toEqual({
+      total: 1,
+      operations: [{ operationId: 'getOrder', method: 'GET', path: '/orders/{orderId}', summary: 'Find an order by ID', tags: ['store'] }]
+    });
+    expect(byTag.total).toBe(2);
+    expect(byTag.operations.map((operation: any) => operation.operationId)).toEqual(['listPets']);
+  });
+
+  it('should describe the mapped input and output schemas of an operation', async () => {
+    const [, , getOrder] = mapOpenApiToMcpTools(spec);
+
+    const description = parseText(await client.callTool({ name: 'describe_operation', arguments: { operationId: 'getOrder' } }));
+
+    expect(description).toMatchObject({
+      operationId: 'getOrder',
+      method: 'GET',
+      path: '/orders/{orderId}',
+      inputSchema: getOrder.mcpToolDefinition.inputSchema,
+      outputSchema: getOrder.mcpToolDefinition.outputSchema,
+      annotations: { readOnlyHint: true }
+    });
+  });
+
+  it('should invoke an operation by operation ID', async () => {
+    mockedAxios.mockResolvedValueOnce({
+      status: 200, data: Buffer.from('{"id":"42"}'), headers: { 'content-type': 'application/json' }
+    } as AxiosResponse);
+
+    const result: any = await client.callTool({ name: 'invoke_operation', arguments: { operationId: 'getOrder', arguments: { orderId: '42' } } });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toEqual({ id: '42' });
+    expect(mockedAxios).toHaveBeenCalledWith(expect.objectContaining({ method: 'GET', url: 'http://localhost:3000/api/orders/42' }));
+  });
+
+  it('should reject arguments that violate the operation schema before calling the API', async () => {
+    const result: any = await client.callTool({
+      name: 'invoke_operation',
+      arguments: { operationId: 'createPet', arguments: { requestBody: { age: -1 } } }
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Invalid arguments for operation createPet');
+    expect(mockedAxios).not.toHaveBeenCalled();
+  });
+
+  it('should report unknown operation IDs', async () => {
+    const result: any = await client.callTool({ name: 'describe_operation', arguments: { operationId: 'deletePet' } });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("Unknown operation 'deletePet'");
+  });
+});
+
+describe('searchOperations', () => {
+  it('should require every keyword to match', () => {
+    const catalog = mapOpenApiToMcpTools(spec);
+
+    expect(searchOperations(catalog, 'pet create').map(tool => tool.mcpToolDefinition.name)).toEqual(['createPet']);
+    expect(searchOperations(catalog, 'post /pets').map(tool => tool.mcpToolDefinition.name)).toEqual(['createPet']);
+    expect(searchOperations(catalog)).toHaveLength(3);
+  });
+});
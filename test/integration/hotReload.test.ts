@@ -0,0 +1,153 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceListChangedNotificationSchema, ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createMcpServer, reloadTools } from '../../src/server';
+import { getProcessedOpenApi } from '../../src/openapiProcessor';
+import { mapOpenApiToMcpTools, diffMappedTools, describeToolSetDiff } from '../../src/mcpMapper';
+import petstoreSpec from '../fixtures/petstore-openapi.json';
+
+jest.mock('../../src/config', () => ({
+  config: {
+    targetApiBaseUrl: 'http://localhost:3000/api',
+    filter: { whitelist: null, blacklist: [] },
+    securityCredentials: {},
+    customHeaders: {},
+    disableXMcp: false,
+    specs: [{
+      specPath: 'petstore-openapi.json',
+      overlayPaths: [],
+      targetApiBaseUrl: 'http://localhost:3000/api',
+      filter: { whitelist: null, blacklist: [] },
+      securityCredentials: {},
+      customHeaders: {}
+    }]
+  }
+}));
+
+jest.mock('../../src/openapiProcessor', () => ({
+  getProcessedOpenApi: jest.fn()
+}));
+
+const mockedGetProcessedOpenApi = getProcessedOpenApi as jest.MockedFunction<typeof getProcessedOpenApi>;
+
+// Returns a copy of the petstore fixture that can be modified freely
+function cloneSpec(): any {
+  return JSON.parse(JSON.stringify(petstoreSpec));
+}
+
+describe('Hot reload of the tool set', () => {
+  let client: Client;
+  let listChangedCount: number;
+  let resourceListChangedCount: number;
+
+  beforeEach(async () => {
+    const spec = cloneSpec();
+    mockedGetProcessedOpenApi.mockResolvedValue(spec);
+
+    // Prime the current tool set, as startServer does
+    await reloadTools();
+    const server = createMcpServer(spec, mapOpenApiToMcpTools(spec));
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    listChangedCount = 0;
+    resourceListChangedCount = 0;
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      listChangedCount++;
+    });
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+      resourceListChangedCount++;
+    });
+
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should add, update and remove tools on connected servers', async () => {
+    const spec = cloneSpec();
+    delete spec.paths['/pets'].post;
+    spec.paths['/pets/{petId}'].get.parameters.push({
+      name: 'includeOwner', in: 'query', required: false, schema: { type: 'boolean' }
+    });
+    spec.paths['/pets/{petId}'].delete = {
+      operationId: 'deletePet',
+      summary: 'Delete a pet',
+      parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'integer' } }],
+      responses: { '204': { description: 'Deleted' } }
+    };
+    mockedGetProcessedOpenApi.mockResolvedValue(spec);
+
+    const applied = await reloadTools();
+    expect(applied).toBe(true);
+
+    const { tools } = await client.listTools();
+    const toolNames = tools.map(tool => tool.name).sort();
+    expect(toolNames).toEqual(['deletePet', 'getPetById', 'listPets']);
+    expect(tools.find(tool => tool.name === 'getPetById')?.inputSchema.properties).toHaveProperty('includeOwner');
+    expect(listChangedCount).toBeGreaterThan(0);
+    // The operations listed as openapi://operations resources changed as well
+    expect(resourceListChangedCount).toBeGreaterThan(0);
+  });
+
+  it('should keep the previous tool set when the new spec fails to load', async () => {
+    mockedGetProcessedOpenApi.mockRejectedValue(new Error('Missing info section in OpenAPI spec'));
+
+    const applied = await reloadTools();
+    expect(applied).toBe(false);
+
+    const { tools } = await client.listTools();
+    expect(tools.map(tool => tool.name).sort()).toEqual(['createPet', 'getPetById', 'listPets']);
+    expect(listChangedCount).toBe(0);
+  });
+
+  it('should not notify clients when the tool set is unchanged', async () => {
+    mockedGetProcessedOpenApi.mockResolvedValue(cloneSpec());
+
+    await reloadTools();
+    await client.ping();
+
+    expect(listChangedCount).toBe(0);
+    expect(resourceListChangedCount).toBe(0);
+  });
+});
+
+describe('diffMappedTools', () => {
+  it('should report added, removed and changed tools by name', () => {
+    const previous = mapOpenApiToMcpTools(cloneSpec());
+
+    const spec = cloneSpec();
+    delete spec.paths['/pets'].get;
+    spec.paths['/pets'].post.summary = 'Create a pet (v2)';
+    spec.paths['/pets'].post.description = 'Create a pet (v2)';
+    spec.paths['/owners'] = {
+      get: { operationId: 'listOwners', responses: { '200': { description: 'OK' } } }
+    };
+    const next = mapOpenApiToMcpTools(spec);
+
+    const diff = diffMappedTools(previous, next);
+    expect(diff.added.map(tool => tool.mcpToolDefinition.name)).toEqual(['listOwners']);
+    expect(diff.removed.map(tool => tool.mcpToolDefinition.name)).toEqual(['listPets']);
+    expect(diff.changed.map(tool => tool.mcpToolDefinition.name)).toEqual(['createPet']);
+  });
+
+  it('should describe input schema changes of changed tools', () => {
+    const previous = mapOpenApiToMcpTools(cloneSpec());
+
+    const spec = cloneSpec();
+    spec.paths['/pets'].get.parameters = [
+      { name: 'limit', in: 'query', required: true, schema: { type: 'integer', maximum: 100 } },
+      { name: 'tag', in: 'query', schema: { type: 'string' } }
+    ];
+    delete spec.paths['/pets'].post;
+    const next = mapOpenApiToMcpTools(spec);
+
+    const lines = describeToolSetDiff(previous, diffMappedTools(previous, next));
+    expect(lines).toEqual([
+      '- createPet (POST /pets)',
+      '~ listPets: added inputs: tag; changed inputs: limit; required inputs: [] -> ["limit"]'
+    ]);
+  });
+});
@@ -6,7 +6,9 @@ import { jest } from '@jest/globals';
 import { getProcessedOpenApi } from '../../src/openapiProcessor';
 import { TestHttpServer } from '../helpers/http-server';
 import path from 'path';
+import os from 'os';
 import fs from 'fs/promises';
+import { createResponseCache, fetchFromUrl, hasUrlChanged } from '../../src/utils/httpClient';
 
 describe('HTTP Fetching Tests', () => {
   // Define test server properties
@@ -159,4 +161,49 @@ describe('HTTP Fetching Tests', () => {
     expect(openApiSpec.paths["/pets"]).toBeDefined();
     expect(openApiSpec.paths["/pets"].get.summary).toBe('List all pets with overlay');
   });
+
+  describe('conditional re-fetching', () => {
+    let tmpDir: string;
+    let remoteServer: TestHttpServer;
+
+    beforeAll(async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'api-to-mcp-'));
+      await fs.writeFile(path.join(tmpDir, 'spec.json'), '{"version": 1}');
+      remoteServer = new TestHttpServer(tmpDir, { port: testPort + 1 });
+      await remoteServer.start();
+    });
+
+    afterAll(async () => {
+      await remoteServer.stop();
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should revalidate with If-None-Match and report changes', async () => {
+      const url = remoteServer.getFileUrl('spec.json');
+      const cache = createResponseCache();
+
+      expect(await fetchFromUrl(url, cache)).toBe('{"version": 1}');
+      expect(await hasUrlChanged(url, cache)).toBe(false);
+
+      await fs.writeFile(path.join(tmpDir, 'spec.json'), '{"version": 2}');
+      expect(await hasUrlChanged(url, cache)).toBe(true);
+
+      // The poller already fetched the new content, so the reload revalidates with a 304
+      expect(await fetchFromUrl(url, cache)).toBe('{"version": 2}');
+      expect(remoteServer.responseStatuses).toEqual([200, 304, 200, 304]);
+    });
+
+    it('should report a change to every server polling the URL', async () => {
+      const url = remoteServer.getFileUrl('spec.json');
+      const firstServer = createResponseCache();
+      const secondServer = createResponseCache();
+      await fetchFromUrl(url, firstServer);
+      await fetchFromUrl(url, secondServer);
+
+      await fs.writeFile(path.join(tmpDir, 'spec.json'), '{"version": 3}');
+
+      expect(await hasUrlChanged(url, firstServer)).toBe(true);
+      expect(await hasUrlChanged(url, secondServer)).toBe(true);
+    });
+  });
 });
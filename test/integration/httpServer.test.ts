@@ -0,0 +1,345 @@
+import request from 'supertest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import {
+  createHttpApp,
+  createSseApp,
+  CREDENTIALS_HEADER,
+  MCP_ENDPOINT,
+  SSE_ENDPOINT,
+  SSE_MESSAGES_ENDPOINT
+} from '../../src/httpServer';
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' }
+  }
+};
+
+// Parses the JSON-RPC payload out of an SSE response body
+function parseSseMessage(text: string): any {
+  const dataLine = text.split('\n').find(line => line.startsWith('data: '));
+  return dataLine ? JSON.parse(dataLine.substring(6)) : undefined;
+}
+
+const createServer = jest.fn(() => {
+  const server = new McpServer({ name: 'Test HTTP Server', version: '1.0.0' });
+  server.tool('ping', 'Replies with pong', async () => ({
+    content: [{ type: 'text' as const, text: 'pong' }]
+  }));
+  return server;
+});
+
+describe('Streamable HTTP transport', () => {
+  beforeEach(() => {
+    createServer.mockClear();
+  });
+
+  it('should create a session with its own server on initialize', async () => {
+    const { app, transports } = createHttpApp(createServer);
+
+    const response = await request(app)
+      .post(MCP_ENDPOINT)
+      .set('Accept', 'application/json, text/event-stream')
+      .send(initializeRequest);
+
+    expect(response.status).toBe(200);
+    const sessionId = response.headers['mcp-session-id'];
+    expect(sessionId).toBeDefined();
+    expect(transports[sessionId]).toBeDefined();
+    expect(createServer).toHaveBeenCalledTimes(1);
+
+    const message = parseSseMessage(response.text);
+    expect(message.result.serverInfo.name).toBe('Test HTTP Server');
+  });
+
+  it('should route follow-up requests to the existing session', async () => {
+    const { app } = createHttpApp(createServer);
+
+    const initResponse = await request(app)
+      .post(MCP_ENDPOINT)
+      .set('Accept', 'application/json, text/event-stream')
+      .send(initializeRequest);
+    const sessionId = initResponse.headers['mcp-session-id'];
+
+    await request(app)
+      .post(MCP_ENDPOINT)
+      .set('Accept', 'application/json, text/event-stream')
+      .set('mcp-session-id', sessionId)
+      .send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+
+    const listResponse = await request(app)
+      .post(MCP_ENDPOINT)
+      .set('Accept', 'application/json, text/event-stream')
+      .set('mcp-session-id', sessionId)
+      .set('mcp-protocol-version', '2025-03-26')
+      .send({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} });
+
+    expect(listResponse.status).toBe(200);
+    const message = parseSseMessage(listResponse.text);
+    expect(message.result.tools.map((tool: any) => tool.name)).toEqual(['ping']);
+    expect(createServer).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject non-initialize requests without a session', async () => {
+    const { app } = createHttpApp(createServer);
+
+    const response = await request(app)
+      .post(MCP_ENDPOINT)
+      .set('Accept', 'application/json, text/event-stream')
+      .send({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.message).toContain('No valid session ID');
+    expect(createServer).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for unknown sessions', async () => {
+    const { app } = createHttpApp(createServer);
+
+    const response = await request(app)
+      .post(MCP_ENDPOINT)
+      .set('Accept', 'application/json, text/event-stream')
+      .set('mcp-session-id', 'does-not-exist')
+      .send({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should terminate a session on DELETE', async () => {
+    const { app, transports } = createHttpApp(createServer);
+
+    const initResponse = await request(app)
+      .post(MCP_ENDPOINT)
+      .set('Accept', 'application/json, text/event-stream')
+      .send(initializeRequest);
+    const sessionId = initResponse.headers['mcp-session-id'];
+
+    const response = await request(app)
+      .delete(MCP_ENDPOINT)
+      .set('mcp-session-id', sessionId)
+      .set('mcp-protocol-version', '2025-03-26');
+
+    expect(response.status).toBe(200);
+    expect(transports[sessionId]).toBeUndefined();
+  });
+
+  it('should bind the credentials supplied at initialize to the new session', async () => {
+    const { app } = createHttpApp(createServer, { forwardAuthorization: true });
+
+    await request(app)
+      .post(MCP_ENDPOINT)
+      .set('Accept', 'application/json, text/event-stream')
+      .set('Authorization', 'Bearer alice-token')
+      .set(CREDENTIALS_HEADER, JSON.stringify({ ApiKeyAuth: 'alice-key' }))
+      .send(initializeRequest);
+
+    await request(app)
+      .post(MCP_ENDPOINT)
+      .set('Accept', 'application/json, text/event-stream')
+      .set('Authorization', 'Bearer bob-token')
+      .send(initializeRequest);
+
+    expect(createServer).toHaveBeenNthCalledWith(1, {
+      authorization: 'Bearer alice-token',
+      securityCredentials: { ApiKeyAuth: 'alice-key' }
+    });
+    expect(createServer).toHaveBeenNthCalledWith(2, { authorization: 'Bearer bob-token' });
+  });
+
+  it('should reject follow-up requests presenting other credentials than the session', async () => {
+    const { app } = createHttpApp(createServer, { forwardAuthorization: true });
+    const initResponse = await request(app)
+      .post(MCP_ENDPOINT)
+      .set('Accept', 'application/json, text/event-stream')
+      .set('Authorization', 'Bearer alice-token')
+      .send(initializeRequest);
+    const sessionId = initResponse.headers['mcp-session-id'];
+
+    const listTools = (authorization?: string) => {
+      const req = request(app)
+        .post(MCP_ENDPOINT)
+        .set('Accept', 'application/json, text/event-stream')
+        .set('mcp-session-id', sessionId)
+        .set('mcp-protocol-version', '2025-03-26');
+      return (authorization ? req.set('Authorization', authorization) : req).send({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} });
+    };
+
+    const hijacked = await listTools('Bearer bob-token');
+    const anonymous = await listTools();
+    const deletion = await request(app)
+      .delete(MCP_ENDPOINT)
+      .set('mcp-session-id', sessionId)
+      .set('mcp-protocol-version', '2025-03-26');
+    const owner = await listTools('Bearer alice-token');
+
+    expect(hijacked.status).toBe(403);
+    expect(hijacked.body.error.message).toContain('credentials do not match');
+    expect(anonymous.status).toBe(403);
+    expect(deletion.status).toBe(403);
+    expect(owner.status).toBe(200);
+  });
+
+  it('should close sessions left idle for the session timeout', async () => {
+    const { app, transports } = createHttpApp(createServer, { sessionTimeout: 0.05 });
+    const initResponse = await request(app)
+      .post(MCP_ENDPOINT)
+      .set('Accept', 'application/json, text/event-stream')
+      .send(initializeRequest);
+    const sessionId = initResponse.headers['mcp-session-id'];
+
+    expect(transports[sessionId]).toBeDefined();
+    await new Promise(resolve => setTimeout(resolve, 150));
+
+    expect(transports[sessionId]).toBeUndefined();
+  });
+
+  it('should not forward the Authorization header unless enabled', async () => {
+    const { app } = createHttpApp(createServer);
+
+    await request(app)
+      .post(MCP_ENDPOINT)
+      .set('Accept', 'application/json, text/event-stream')
+      .set('Authorization', 'Bearer alice-token')
+      .send(initializeRequest);
+
+    expect(createServer).toHaveBeenCalledWith(undefined);
+  });
+
+  it('should reject a malformed credentials header', async () => {
+    const { app } = createHttpApp(createServer);
+
+    const response = await request(app)
+      .post(MCP_ENDPOINT)
+      .set('Accept', 'application/json, text/event-stream')
+      .set(CREDENTIALS_HEADER, '["not", "a", "map"]')
+      .send(initializeRequest);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.message).toContain(CREDENTIALS_HEADER);
+    expect(createServer).not.toHaveBeenCalled();
+  });
+
+  it('should close the server of an initialize request that fails before its session starts', async () => {
+    const { app, transports } = createHttpApp(createServer);
+    const handleRequest = jest.spyOn(StreamableHTTPServerTransport.prototype, 'handleRequest')
+      .mockRejectedValueOnce(new Error('stream reset'));
+
+    try {
+      const response = await request(app)
+        .post(MCP_ENDPOINT)
+        .set('Accept', 'application/json, text/event-stream')
+        .send(initializeRequest);
+
+      expect(response.status).toBe(500);
+      const server = createServer.mock.results[0].value;
+      expect(server.isConnected()).toBe(false);
+      expect(Object.keys(transports)).toHaveLength(0);
+    } finally {
+      handleRequest.mockRestore();
+    }
+  });
+});
+
+describe('Legacy HTTP+SSE transport', () => {
+  let httpServer: http.Server;
+  let baseUrl: string;
+  let transports: Record<string, unknown>;
+
+  beforeEach(async () => {
+    createServer.mockClear();
+    const sseApp = createSseApp(createServer);
+    transports = sseApp.transports;
+    httpServer = await new Promise<http.Server>(resolve => {
+      const server = sseApp.app.listen(0, () => resolve(server));
+    });
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    httpServer.closeAllConnections();
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  // Opens the SSE stream and resolves each event as it arrives
+  function openStream(): Promise<{ nextEvent: () => Promise<{ event: string; data: string }>; close: () => void }> {
+    return new Promise((resolve, reject) => {
+      const req = http.get(`${baseUrl}${SSE_ENDPOINT}`, res => {
+        const events: { event: string; data: string }[] = [];
+        const waiters: ((event: { event: string; data: string }) => void)[] = [];
+        let buffer = '';
+
+        res.setEncoding('utf8');
+        res.on('data', chunk => {
+          buffer += chunk;
+          let separator;
+          while ((separator = buffer.indexOf('\n\n')) !== -1) {
+            const raw = buffer.substring(0, separator);
+            buffer = buffer.substring(separator + 2);
+            const event = raw.match(/^event: (.*)$/m)?.[1] || 'message';
+            const data = raw.match(/^data: (.*)$/m)?.[1] || '';
+            const waiter = waiters.shift();
+            if (waiter) waiter({ event, data });
+            else events.push({ event, data });
+          }
+        });
+
+        resolve({
+          nextEvent: () => {
+            const queued = events.shift();
+            return queued ? Promise.resolve(queued) : new Promise(r => waiters.push(r));
+          },
+          close: () => req.destroy()
+        });
+      });
+      req.on('error', reject);
+    });
+  }
+
+  it('should announce the message endpoint and answer posted requests on the stream', async () => {
+    const stream = await openStream();
+
+    const endpointEvent = await stream.nextEvent();
+    expect(endpointEvent.event).toBe('endpoint');
+    expect(endpointEvent.data).toContain(`${SSE_MESSAGES_ENDPOINT}?sessionId=`);
+    expect(Object.keys(transports)).toHaveLength(1);
+    expect(createServer).toHaveBeenCalledTimes(1);
+
+    const postResponse = await request(baseUrl).post(endpointEvent.data).send(initializeRequest);
+    expect(postResponse.status).toBe(202);
+
+    const message = JSON.parse((await stream.nextEvent()).data);
+    expect(message.id).toBe(1);
+    expect(message.result.serverInfo.name).toBe('Test HTTP Server');
+
+    stream.close();
+  });
+
+  it('should reject messages presenting other credentials than the stream', async () => {
+    const stream = await openStream();
+    const endpointEvent = await stream.nextEvent();
+
+    const response = await request(baseUrl)
+      .post(endpointEvent.data)
+      .set('Authorization', 'Bearer bob-token')
+      .send(initializeRequest);
+
+    expect(response.status).toBe(403);
+    stream.close();
+  });
+
+  it('should reject messages for unknown sessions', async () => {
+    const response = await request(baseUrl)
+      .post(`${SSE_MESSAGES_ENDPOINT}?sessionId=does-not-exist`)
+      .send(initializeRequest);
+
+    expect(response.status).toBe(400);
+  });
+});
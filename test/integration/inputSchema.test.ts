@@ -0,0 +1,147 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import axios, { AxiosResponse } from 'axios';
+import { createMcpServer } from '../../src/server';
+import { mapOpenApiToMcpTools } from '../../src/mcpMapper';
+import { jsonSchemaToZod } from '../../src/utils/jsonSchemaToZod';
+
+jest.mock('axios');
+jest.mock('../../src/config', () => ({
+  config: {
+    targetApiBaseUrl: 'http://localhost:3000/api',
+    filter: { whitelist: null, blacklist: [] },
+    securityCredentials: {},
+    customHeaders: {},
+    disableXMcp: false
+  }
+}));
+
+const mockedAxios = axios as jest.MockedFunction<typeof axios>;
+
+// A dereferenced spec with nested objects, arrays of objects, enums, nullable values and constraints
+const ordersSpec: any = {
+  openapi: '3.0.0',
+  info: { title: 'Orders API', version: '1.0.0' },
+  paths: {
+    '/orders/{orderId}': {
+      put: {
+        operationId: 'updateOrder',
+        parameters: [
+          { name: 'orderId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          { name: 'dryRun', in: 'query', schema: { type: 'boolean', default: false } },
+          { name: 'X-Priority', in: 'header', schema: { type: 'integer', minimum: 1, maximum: 5 } }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['status', 'items'],
+                properties: {
+                  status: { type: 'string', enum: ['pending', 'shipped', 'cancelled'] },
+                  note: { type: 'string', nullable: true, maxLength: 200 },
+                  items: {
+                    type: 'array',
+                    minItems: 1,
+                    items: {
+                      type: 'object',
+                      required: ['sku', 'quantity'],
+                      properties: {
+                        sku: { type: 'string', pattern: '^[A-Z]{3}-\\d+$' },
+                        quantity: { type: 'integer', minimum: 1 },
+                        price: { type: 'number', multipleOf: 0.01 }
+                      }
+                    }
+                  },
+                  shipping: {
+                    type: 'object',
+                    additionalProperties: false,
+                    properties: {
+                      address: { type: 'string' },
+                      expressDelivery: { type: 'boolean' }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        },
+        responses: { '200': { description: 'Updated' } }
+      }
+    }
+  }
+};
+
+describe('jsonSchemaToZod', () => {
+  it('should enforce nested required fields, enums, constraints and nullability', () => {
+    const [tool] = mapOpenApiToMcpTools(ordersSpec);
+    const body = jsonSchemaToZod(tool.mcpToolDefinition.inputSchema.properties!.requestBody);
+    const validBody = { status: 'shipped', note: null, items: [{ sku: 'ABC-1', quantity: 2, price: 9.99 }] };
+
+    expect(body.safeParse(validBody).success).toBe(true);
+    expect(body.safeParse({ ...validBody, status: 'lost' }).success).toBe(false);
+    expect(body.safeParse({ ...validBody, note: 'x'.repeat(201) }).success).toBe(false);
+    expect(body.safeParse({ ...validBody, items: [] }).success).toBe(false);
+    expect(body.safeParse({ ...validBody, items: [{ sku: 'ABC-1' }] }).success).toBe(false);
+    expect(body.safeParse({ ...validBody, items: [{ sku: 'abc', quantity: 1 }] }).success).toBe(false);
+    expect(body.safeParse({ ...validBody, items: [{ sku: 'ABC-1', quantity: 1.5 }] }).success).toBe(false);
+    expect(body.safeParse({ ...validBody, shipping: { address: 'Main St', floor: 3 } }).success).toBe(false);
+  });
+
+  it('should convert compositions and boolean schemas', () => {
+    const schema = jsonSchemaToZod({
+      anyOf: [{ type: 'string' }, { type: 'object', required: ['id'], properties: { id: { type: 'integer' } } }]
+    });
+    expect(schema.safeParse('text').success).toBe(true);
+    expect(schema.safeParse({ id: 1 }).success).toBe(true);
+    expect(schema.safeParse({ name: 'x' }).success).toBe(false);
+
+    expect(jsonSchemaToZod(true).safeParse({ anything: 1 }).success).toBe(true);
+    expect(jsonSchemaToZod(false).safeParse(1).success).toBe(false);
+  });
+});
+
+describe('Advertised tool input schemas', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    const server = createMcpServer(ordersSpec, mapOpenApiToMcpTools(ordersSpec));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    jest.clearAllMocks();
+    await client.close();
+  });
+
+  it('should match the mapped input schema exactly', async () => {
+    const [mappedTool] = mapOpenApiToMcpTools(ordersSpec);
+    const { tools } = await client.listTools();
+    // Round-trip through JSON, as a client on a real transport would receive it
+    const { $schema, ...advertised } = JSON.parse(JSON.stringify(tools[0].inputSchema));
+
+    expect(advertised).toEqual(mappedTool.mcpToolDefinition.inputSchema);
+  });
+
+  it('should reject calls that violate the nested schema before calling the API', async () => {
+    const result = await client.callTool({
+      name: 'updateOrder',
+      arguments: { orderId: '1', requestBody: { status: 'lost', items: [{ sku: 'ABC-1', quantity: 1 }] } }
+    });
+
+    expect(result.isError).toBe(true);
+    expect(mockedAxios).not.toHaveBeenCalled();
+  });
+
+  it('should pass valid nested arguments through to the API', async () => {
+    mockedAxios.mockResolvedValueOnce({ status: 200, data: { ok: true }, headers: {} } as AxiosResponse);
+    const requestBody = { status: 'pending', note: null, items: [{ sku: 'ABC-1', quantity: 1 }], shipping: { address: 'Main St' } };
+
+    await client.callTool({ name: 'updateOrder', arguments: { orderId: '1', requestBody } });
+
+    expect(mockedAxios).toHaveBeenCalledWith(expect.objectContaining({ data: requestBody }));
+  });
+});
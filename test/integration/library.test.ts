@@ -0,0 +1,110 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import axios, { AxiosResponse } from 'axios';
+import { createOpenApiMcpServer, ConfigError } from '../../src/index';
+import type { OpenApiMcpServer } from '../../src/index';
+import { testSpecSource } from '../fixtures/test-config';
+
+jest.mock('axios');
+
+const mockedAxios = axios as jest.MockedFunction<typeof axios>;
+
+describe('Library API', () => {
+  const servers: OpenApiMcpServer[] = [];
+
+  async function connect(server: OpenApiMcpServer): Promise<Client> {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([client.connect(clientTransport), server.server.connect(serverTransport)]);
+    return client;
+  }
+
+  async function create(options: Partial<Parameters<typeof createOpenApiMcpServer>[0]>): Promise<OpenApiMcpServer> {
+    const server = await createOpenApiMcpServer({ spec: testSpecSource.specPath, disableXMcp: true, ...options });
+    servers.push(server);
+    return server;
+  }
+
+  afterEach(async () => {
+    mockedAxios.mockReset();
+    await Promise.all(servers.splice(0).map(server => server.close()));
+  });
+
+  it('should not read the configuration or start a server on import', () => {
+    const exit = jest.spyOn(process, 'exit').mockImplementation((() => undefined) as any);
+    const originalArgv = process.argv;
+    process.argv = ['node', 'embedder.js', '--transport=carrier-pigeon'];
+
+    try {
+      jest.isolateModules(() => {
+        const library = require('../../src/index');
+        expect(typeof library.createOpenApiMcpServer).toBe('function');
+      });
+      expect(exit).not.toHaveBeenCalled();
+    } finally {
+      process.argv = originalArgv;
+      exit.mockRestore();
+    }
+  });
+
+  it('should map the operations of the spec, applying the filters', async () => {
+    const server = await create({ whitelist: ['listPets', 'getPetById'] });
+
+    expect(server.tools.map(tool => tool.mcpToolDefinition.name)).toEqual(['listPets', 'getPetById']);
+    expect(server.config.transport).toBe('stdio');
+  });
+
+  it('should serve several specs with their own target URL and headers in one process', async () => {
+    const first = await create({ targetUrl: 'http://first.example.com', headers: { 'X-Tenant': 'first' } });
+    const second = await create({ targetUrl: 'http://second.example.com', headers: { 'X-Tenant': 'second' } });
+    mockedAxios.mockResolvedValue({ status: 200, data: Buffer.from('[]'), headers: { 'content-type': 'application/json' } } as AxiosResponse);
+
+    const firstClient = await connect(first);
+    const secondClient = await connect(second);
+    await firstClient.callTool({ name: 'listPets', arguments: {} });
+    await secondClient.callTool({ name: 'listPets', arguments: {} });
+
+    expect(mockedAxios).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      url: 'http://first.example.com/pets', headers: expect.objectContaining({ 'X-Tenant': 'first' })
+    }));
+    expect(mockedAxios).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      url: 'http://second.example.com/pets', headers: expect.objectContaining({ 'X-Tenant': 'second' })
+    }));
+  });
+
+  it('should reload the spec of one server only', async () => {
+    const first = await create({});
+    const second = await create({ whitelist: 'listPets' });
+
+    expect(await first.reload()).toBe(true);
+    expect(first.tools).toHaveLength(3);
+    expect(second.tools).toHaveLength(1);
+  });
+
+  it('should keep the log level, format and redacted credentials of each server to itself', async () => {
+    const first = await create({ logLevel: 'debug', logFormat: 'json', apiKey: 'first-secret' });
+    const second = await create({ targetUrl: 'http://first-secret.example.com' });
+    mockedAxios.mockResolvedValue({ status: 200, data: Buffer.from('[]'), headers: { 'content-type': 'application/json' } } as AxiosResponse);
+    const mockedConsoleError = console.error as jest.Mock;
+    const loggedLines = async (server: OpenApiMcpServer): Promise<string[]> => {
+      const client = await connect(server);
+      mockedConsoleError.mockClear();
+      await client.callTool({ name: 'listPets', arguments: {} });
+      await client.close();
+      return mockedConsoleError.mock.calls.map(([line]) => line);
+    };
+
+    const secondLines = await loggedLines(second);
+    const firstLines = await loggedLines(first);
+
+    expect(secondLines).toContain('[info] apiClient: API response received {"status":200,"url":"http://first-secret.example.com/pets"}');
+    expect(secondLines.some(line => line.startsWith('[debug]'))).toBe(false);
+    expect(firstLines.map(line => JSON.parse(line).level)).toContain('debug');
+  });
+
+  it('should throw configuration errors instead of exiting', async () => {
+    await expect(createOpenApiMcpServer({ spec: testSpecSource.specPath, transport: 'carrier-pigeon' as any }))
+      .rejects.toThrow(ConfigError);
+    await expect(createOpenApiMcpServer({ spec: '' })).rejects.toThrow('OpenAPI specification path is required');
+  });
+});
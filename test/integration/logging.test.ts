@@ -0,0 +1,125 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import axios, { AxiosResponse } from 'axios';
+import { createMcpServer } from '../../src/server';
+import { mapOpenApiToMcpTools } from '../../src/mcpMapper';
+import { createLogContext, createLogger, withLogContext, withLogSink, LogRecord } from '../../src/utils/logger';
+
+jest.mock('axios');
+jest.mock('../../src/config', () => ({
+  config: {
+    targetApiBaseUrl: 'http://localhost:3000/api',
+    filter: { whitelist: null, blacklist: [] },
+    securityCredentials: {},
+    customHeaders: {},
+    disableXMcp: false,
+    progressInterval: 0
+  }
+}));
+
+const mockedAxios = axios as jest.MockedFunction<typeof axios>;
+
+const spec: any = {
+  openapi: '3.0.0',
+  info: { title: 'Pets API', version: '1.0.0' },
+  paths: {
+    '/pets': {
+      get: { operationId: 'listPets', responses: { '200': { description: 'The pets' } } }
+    }
+  }
+};
+
+describe('MCP logging', () => {
+  let client: Client;
+  let messages: any[];
+
+  beforeEach(async () => {
+    mockedAxios.mockResolvedValue({
+      status: 200, data: Buffer.from('[]'), headers: { 'content-type': 'application/json' }
+    } as AxiosResponse);
+
+    const server = createMcpServer(spec, mapOpenApiToMcpTools(spec));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    messages = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
+      messages.push(notification.params);
+    });
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    mockedAxios.mockReset();
+    await client.close();
+  });
+
+  it('should advertise the logging capability', () => {
+    expect(client.getServerCapabilities()?.logging).toEqual({});
+  });
+
+  it('should not forward logs before the client sets a level', async () => {
+    await client.callTool({ name: 'listPets', arguments: {} });
+
+    expect(messages).toEqual([]);
+  });
+
+  it('should forward the logs of a tool call at or above the client level', async () => {
+    await client.setLoggingLevel('info');
+    await client.callTool({ name: 'listPets', arguments: {} });
+
+    expect(messages).toContainEqual({
+      level: 'info',
+      logger: 'apiClient',
+      data: { message: 'API response received', status: 200, url: 'http://localhost:3000/api/pets' }
+    });
+    expect(messages.every(message => message.level !== 'debug')).toBe(true);
+  });
+
+  it('should forward debug logs once the client lowers the level', async () => {
+    await client.setLoggingLevel('debug');
+    await client.callTool({ name: 'listPets', arguments: {} });
+
+    expect(messages.some(message => message.level === 'debug')).toBe(true);
+  });
+});
+
+describe('Structured logger', () => {
+  const mockedConsoleError = console.error as jest.Mock;
+
+  beforeEach(() => {
+    mockedConsoleError.mockClear();
+  });
+
+  it('should write records below the configured level to the request sink only', () => {
+    const log = createLogger('test');
+    const records: LogRecord[] = [];
+
+    withLogSink(record => records.push(record), () => log.debug('Hidden from stderr'));
+
+    expect(mockedConsoleError).not.toHaveBeenCalled();
+    expect(records).toMatchObject([{ level: 'debug', component: 'test', message: 'Hidden from stderr' }]);
+  });
+
+  it('should write one JSON object per line in json format', () => {
+    withLogContext(createLogContext({ level: 'debug', format: 'json' }), () =>
+      createLogger('test').warning('Request failed', { status: 503, error: new Error('socket hang up') })
+    );
+
+    const line = JSON.parse(mockedConsoleError.mock.calls[0][0]);
+    expect(line).toMatchObject({
+      level: 'warning',
+      component: 'test',
+      message: 'Request failed',
+      status: 503,
+      error: { name: 'Error', message: 'socket hang up' }
+    });
+    expect(typeof line.time).toBe('string');
+  });
+
+  it('should write text lines with the level, component and fields', () => {
+    createLogger('test').info('Started', { port: 3000 });
+
+    expect(mockedConsoleError).toHaveBeenCalledWith('[info] test: Started {"port":3000}');
+  });
+});
@@ -1,6 +1,9 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
 import { mapOpenApiToMcpTools } from '../../src/mcpMapper';
+import { createMcpServer } from '../../src/server';
 import { getProcessedOpenApi } from '../../src/openapiProcessor';
-import { testConfig } from '../fixtures/test-config';
+import { testConfig, testSpecSource } from '../fixtures/test-config';
 import { TestMappedTool } from '../utils/testTypes';
 import path from 'path';
 import { config } from '../../src/config';
@@ -14,7 +17,7 @@ describe('MCP Mapper Integration Tests', () => {
     // Set up environment for tests
     process.env.OPENAPI_FILE_PATH = path.resolve(process.cwd(), testConfig.openApiFile);
     try {
-      openApiSpec = await getProcessedOpenApi();
+      openApiSpec = await getProcessedOpenApi(testSpecSource);
     } catch (error) {
       console.error('Error loading OpenAPI spec in beforeAll:', error);
       throw error;
@@ -375,3 +378,60 @@ describe('MCP Mapper Integration Tests', () => {
     }
   });
 });
+
+describe('Tool annotations', () => {
+  const spec: any = {
+    openapi: '3.0.0',
+    info: { title: 'Petstore', version: '1.0.0' },
+    paths: {
+      '/pets': {
+        get: { operationId: 'listPets', summary: 'List all pets', responses: { '200': { description: 'OK' } } },
+        post: { operationId: 'createPet', responses: { '201': { description: 'Created' } } }
+      },
+      '/pets/{petId}': {
+        parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'integer' } }],
+        put: { operationId: 'replacePet', responses: { '200': { description: 'OK' } } },
+        delete: { operationId: 'deletePet', summary: 'Delete a pet', responses: { '204': { description: 'Deleted' } } },
+        patch: {
+          operationId: 'archivePet',
+          'x-mcp': { title: 'Archive a pet', destructiveHint: true, openWorldHint: false },
+          responses: { '200': { description: 'OK' } }
+        }
+      }
+    }
+  };
+
+  const annotationsOf = (name: string) =>
+    mapOpenApiToMcpTools(spec).find(tool => tool.mcpToolDefinition.name === name)!.mcpToolDefinition.annotations;
+
+  it('should derive hints from the HTTP method and the title from the summary', () => {
+    expect(annotationsOf('listPets')).toEqual({
+      title: 'List all pets', readOnlyHint: true, 'x-openapi-path': '/pets', 'x-openapi-method': 'GET'
+    });
+    expect(annotationsOf('createPet')).toMatchObject({ readOnlyHint: false, destructiveHint: false, idempotentHint: false });
+    expect(annotationsOf('replacePet')).toMatchObject({ readOnlyHint: false, destructiveHint: false, idempotentHint: true });
+    expect(annotationsOf('deletePet')).toMatchObject({
+      title: 'Delete a pet', readOnlyHint: false, destructiveHint: true, idempotentHint: true
+    });
+  });
+
+  it('should let the operation-level x-mcp extension override each annotation', () => {
+    expect(annotationsOf('archivePet')).toMatchObject({
+      title: 'Archive a pet', readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: false
+    });
+  });
+
+  it('should advertise the standard annotations without the OpenAPI metadata', async () => {
+    const server = createMcpServer(spec, mapOpenApiToMcpTools(spec));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+
+    const { tools } = await client.listTools();
+    await client.close();
+
+    expect(tools.find(tool => tool.name === 'deletePet')?.annotations).toEqual({
+      title: 'Delete a pet', readOnlyHint: false, destructiveHint: true, idempotentHint: true
+    });
+  });
+});
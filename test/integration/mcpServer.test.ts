@@ -2,7 +2,7 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { setupTestMcpServer, teardownTestMcpServer, invokeToolForTest } from '../utils/testUtils';
 import { getProcessedOpenApi } from '../../src/openapiProcessor';
 import { mapOpenApiToMcpTools } from '../../src/mcpMapper';
-import { testConfig } from '../fixtures/test-config';
+import { testConfig, testSpecSource } from '../fixtures/test-config';
 import { TestMappedTool } from '../utils/testTypes';
 
 describe('OpenAPI to MCP Integration Tests', () => {
@@ -26,7 +26,7 @@ describe('OpenAPI to MCP Integration Tests', () => {
   });
 
   it('should correctly process OpenAPI specification', async () => {
-    const openapiSpec = await getProcessedOpenApi();
+    const openapiSpec = await getProcessedOpenApi(testSpecSource);
     expect(openapiSpec).toBeDefined();
     expect(openapiSpec.paths).toBeDefined();
     expect(openapiSpec.paths["/pets"]).toBeDefined();
@@ -38,7 +38,7 @@ describe('OpenAPI to MCP Integration Tests', () => {
     expect(server).toBeDefined();
     
     // Get the OpenAPI spec to compare metadata
-    const openapiSpec = await getProcessedOpenApi();
+    const openapiSpec = await getProcessedOpenApi(testSpecSource);
     
     // When creating a test MCP server, we should use the OpenAPI metadata
     // We could check server.info but it's not directly accessible in tests
@@ -57,7 +57,7 @@ describe('OpenAPI to MCP Integration Tests', () => {
   });
 
   it('should map OpenAPI operations to MCP tools', async () => {
-    const openapiSpec = await getProcessedOpenApi();
+    const openapiSpec = await getProcessedOpenApi(testSpecSource);
     const tools = mapOpenApiToMcpTools(openapiSpec) as TestMappedTool[];
     
     expect(tools).toBeDefined();
@@ -0,0 +1,177 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import axios, { AxiosResponse } from 'axios';
+import { createMcpServer } from '../../src/server';
+import { mapOpenApiToMcpTools } from '../../src/mcpMapper';
+import { executeApiCall } from '../../src/apiClient';
+
+jest.mock('axios');
+jest.mock('../../src/config', () => ({
+  config: {
+    targetApiBaseUrl: 'http://localhost:3000/api',
+    filter: { whitelist: null, blacklist: [] },
+    securityCredentials: { api_key: 'secret-key' },
+    customHeaders: {},
+    disableXMcp: false,
+    maxBinarySize: 16
+  }
+}));
+
+const mockedAxios = axios as jest.MockedFunction<typeof axios>;
+
+const spec: any = {
+  openapi: '3.0.0',
+  info: { title: 'Media API', version: '1.0.0' },
+  paths: {
+    '/files/{fileId}': {
+      get: {
+        operationId: 'downloadFile',
+        parameters: [{ name: 'fileId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: { '200': { description: 'The file' } }
+      }
+    },
+    '/reports/{reportId}': {
+      get: {
+        operationId: 'downloadReport',
+        security: [{ api_key: [] }],
+        parameters: [
+          { name: 'reportId', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'format', in: 'query', schema: { type: 'string' } }
+        ],
+        responses: { '200': { description: 'The report' } }
+      }
+    }
+  },
+  components: {
+    securitySchemes: { api_key: { type: 'apiKey', in: 'query', name: 'api_key' } }
+  }
+};
+
+// Mocks the next upstream response with a raw body, as received with responseType 'arraybuffer'
+function respondWith(body: Buffer, contentType: string): void {
+  mockedAxios.mockResolvedValueOnce({ status: 200, data: body, headers: { 'Content-Type': contentType } } as AxiosResponse);
+}
+
+describe('Binary and media responses', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    (mockedAxios as any).getUri = jest.fn((requestConfig: any) => requestConfig.url);
+    const server = createMcpServer(spec, mapOpenApiToMcpTools(spec));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    jest.clearAllMocks();
+    await client.close();
+  });
+
+  it('should request raw bodies', async () => {
+    respondWith(Buffer.from('{}'), 'application/json');
+    await client.callTool({ name: 'downloadFile', arguments: { fileId: 'a' } });
+    expect(mockedAxios).toHaveBeenCalledWith(expect.objectContaining({ responseType: 'arraybuffer' }));
+  });
+
+  it('should return images as image content', async () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+    respondWith(png, 'image/png');
+
+    const result = await client.callTool({ name: 'downloadFile', arguments: { fileId: 'a' } });
+
+    expect(result.content).toEqual([{ type: 'image', data: png.toString('base64'), mimeType: 'image/png' }]);
+  });
+
+  it('should return audio as audio content', async () => {
+    const audio = Buffer.from([1, 2, 3]);
+    respondWith(audio, 'audio/mpeg');
+
+    const result = await client.callTool({ name: 'downloadFile', arguments: { fileId: 'a' } });
+
+    expect(result.content).toEqual([{ type: 'audio', data: audio.toString('base64'), mimeType: 'audio/mpeg' }]);
+  });
+
+  it('should return other binary bodies as embedded resources', async () => {
+    const pdf = Buffer.from('%PDF-1.7');
+    respondWith(pdf, 'application/pdf');
+
+    const result = await client.callTool({ name: 'downloadFile', arguments: { fileId: 'report' } });
+
+    expect(result.content).toEqual([{
+      type: 'resource',
+      resource: { uri: 'http://localhost:3000/api/files/report', mimeType: 'application/pdf', blob: pdf.toString('base64') }
+    }]);
+  });
+
+  it('should return a resource link for bodies over the size limit', async () => {
+    respondWith(Buffer.alloc(17), 'image/jpeg');
+
+    const result = await client.callTool({ name: 'downloadFile', arguments: { fileId: 'big.jpg' } });
+
+    expect(result.content).toEqual([expect.objectContaining({
+      type: 'resource_link',
+      uri: 'http://localhost:3000/api/files/big.jpg',
+      name: 'big.jpg',
+      mimeType: 'image/jpeg'
+    })]);
+  });
+
+  it('should leave API keys sent as query parameters out of resource URIs', async () => {
+    mockedAxios.getUri = jest.requireActual('axios').getUri;
+    respondWith(Buffer.from('%PDF-1.7'), 'application/pdf');
+    const embedded = await client.callTool({ name: 'downloadReport', arguments: { reportId: 'q1', format: 'pdf' } });
+    respondWith(Buffer.alloc(17), 'application/pdf');
+    const linked = await client.callTool({ name: 'downloadReport', arguments: { reportId: 'q1', format: 'pdf' } });
+
+    expect(mockedAxios).toHaveBeenCalledWith(expect.objectContaining({ params: { format: 'pdf', api_key: 'secret-key' } }));
+    expect((embedded.content as any)[0].resource.uri).toBe('http://localhost:3000/api/reports/q1?format=pdf');
+    expect((linked.content as any)[0].uri).toBe('http://localhost:3000/api/reports/q1?format=pdf');
+    expect(JSON.stringify([embedded, linked])).not.toContain('secret-key');
+  });
+
+  it('should keep returning text for JSON and text bodies', async () => {
+    respondWith(Buffer.from('{"id":1}'), 'application/json; charset=utf-8');
+    const json = await client.callTool({ name: 'downloadFile', arguments: { fileId: 'a' } });
+    expect(json.content).toEqual([{ type: 'text', text: '{"id":1}' }]);
+
+    respondWith(Buffer.from('plain text'), 'text/plain');
+    const text = await client.callTool({ name: 'downloadFile', arguments: { fileId: 'a' } });
+    expect(text.content).toEqual([{ type: 'text', text: '"plain text"' }]);
+  });
+});
+
+describe('Response body decoding', () => {
+  const details = {
+    method: 'GET',
+    pathTemplate: '/files',
+    serverUrl: 'http://localhost:3000/api',
+    parameters: [],
+    securityRequirements: null
+  };
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should parse JSON bodies and decode error bodies', async () => {
+    respondWith(Buffer.from('[1,2]'), 'application/vnd.api+json');
+    expect((await executeApiCall(details, {})).data).toEqual([1, 2]);
+
+    mockedAxios.mockResolvedValueOnce({
+      status: 404, data: Buffer.from('{"message":"gone"}'), headers: { 'content-type': 'application/json' }
+    } as AxiosResponse);
+    const failed = await executeApiCall(details, {});
+    expect(failed.data).toEqual({ message: 'gone' });
+    expect(failed.error).toBe('API Error 404: {"message":"gone"}');
+  });
+
+  it('should keep binary bodies as buffers with their content type', async () => {
+    respondWith(Buffer.from([0xff, 0xd8]), 'image/jpeg');
+
+    const result = await executeApiCall(details, {});
+
+    expect(Buffer.isBuffer(result.data)).toBe(true);
+    expect(result.contentType).toBe('image/jpeg');
+  });
+});
@@ -0,0 +1,138 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import axios, { AxiosResponse } from 'axios';
+import { createMcpServer, reloadTools } from '../../src/server';
+import { config } from '../../src/config';
+import { getProcessedOpenApi } from '../../src/openapiProcessor';
+import { mapOpenApiToMcpTools, findToolNameCollisions } from '../../src/mcpMapper';
+import type { SpecSource } from '../../src/types';
+
+jest.mock('axios');
+jest.mock('../../src/config', () => ({
+  config: {
+    filter: { whitelist: null, blacklist: [] },
+    securityCredentials: {},
+    customHeaders: {},
+    disableXMcp: true,
+    progressInterval: 0,
+    specs: [
+      {
+        namespace: 'billing',
+        toolPrefix: 'billing_',
+        specPath: '/specs/billing.json',
+        overlayPaths: [],
+        targetApiBaseUrl: 'https://billing.internal',
+        filter: { whitelist: null, blacklist: [] },
+        securityCredentials: { ApiKey: 'billing-key' },
+        customHeaders: {}
+      },
+      {
+        namespace: 'inventory',
+        toolPrefix: 'inventory_',
+        specPath: '/specs/inventory.json',
+        overlayPaths: [],
+        targetApiBaseUrl: 'https://inventory.internal',
+        filter: { whitelist: null, blacklist: ['GET:/internal/*'] },
+        securityCredentials: { ApiKey: 'inventory-key' },
+        customHeaders: { 'X-Team': 'warehouse' }
+      }
+    ]
+  }
+}));
+
+jest.mock('../../src/openapiProcessor', () => ({
+  getProcessedOpenApi: jest.fn()
+}));
+
+const mockedAxios = axios as jest.MockedFunction<typeof axios>;
+const mockedGetProcessedOpenApi = getProcessedOpenApi as jest.MockedFunction<typeof getProcessedOpenApi>;
+
+// A service spec with a status endpoint behind an API key, as each internal service has
+function serviceSpec(title: string): any {
+  return {
+    openapi: '3.0.0',
+    info: { title, version: '1.0.0' },
+    components: { securitySchemes: { ApiKey: { type: 'apiKey', in: 'header', name: 'X-Api-Key' } } },
+    security: [{ ApiKey: [] }],
+    'x-mcp-prompts': [{ name: 'summarize', template: `Summarize the ${title} status.` }],
+    paths: {
+      '/status': { get: { operationId: 'getStatus', responses: { '200': { description: 'The status' } } } },
+      '/internal/metrics': { get: { operationId: 'getMetrics', responses: { '200': { description: 'Metrics' } } } }
+    }
+  };
+}
+
+const specs: Record<string, any> = {
+  '/specs/billing.json': serviceSpec('Billing API'),
+  '/specs/inventory.json': serviceSpec('Inventory API')
+};
+
+describe('Multiple mounted specs', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    mockedGetProcessedOpenApi.mockImplementation(async (source: any) => specs[source.specPath]);
+    await reloadTools();
+
+    const mounted = config.specs.map(source => ({ namespace: source.namespace, toolPrefix: source.toolPrefix, openapi: specs[source.specPath] }));
+    const tools = config.specs.flatMap(source => mapOpenApiToMcpTools(specs[source.specPath], source));
+    const server = createMcpServer(mounted, tools);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    mockedAxios.mockReset();
+    await client.close();
+  });
+
+  it('should prefix tools and prompts and apply the filters of each spec', async () => {
+    const { tools } = await client.listTools();
+    const { prompts } = await client.listPrompts();
+
+    expect(tools.map(tool => tool.name).sort()).toEqual(['billing_getMetrics', 'billing_getStatus', 'inventory_getStatus']);
+    expect(prompts.map(prompt => prompt.name).sort()).toEqual(['billing_summarize', 'inventory_summarize']);
+    expect(client.getServerVersion()?.name).toBe('Billing API, Inventory API');
+  });
+
+  it('should call each API with its own target URL, credentials and headers', async () => {
+    mockedAxios.mockResolvedValue({
+      status: 200, data: Buffer.from('{"ok":true}'), headers: { 'content-type': 'application/json' }
+    } as AxiosResponse);
+
+    await client.callTool({ name: 'billing_getStatus', arguments: {} });
+    await client.callTool({ name: 'inventory_getStatus', arguments: {} });
+
+    const [[billingRequest], [inventoryRequest]] = mockedAxios.mock.calls as any[];
+    expect(billingRequest.url).toBe('https://billing.internal/status');
+    expect(billingRequest.headers).toEqual({ 'X-Api-Key': 'billing-key' });
+    expect(inventoryRequest.url).toBe('https://inventory.internal/status');
+    expect(inventoryRequest.headers).toEqual({ 'X-Team': 'warehouse', 'X-Api-Key': 'inventory-key' });
+  });
+
+  it('should namespace the openapi:// resources of each spec', async () => {
+    const { resources } = await client.listResources();
+    expect(resources.map(resource => resource.uri)).toEqual(expect.arrayContaining([
+      'openapi://billing/spec',
+      'openapi://inventory/spec',
+      'openapi://inventory/operations/getStatus'
+    ]));
+
+    const { contents } = await client.readResource({ uri: 'openapi://inventory/spec' });
+    expect(JSON.parse((contents[0] as any).text).info.title).toBe('Inventory API');
+  });
+
+  it('should report tool names that collide across specs and keep the previous tool set', async () => {
+    const inventory = config.specs[1] as SpecSource;
+    inventory.toolPrefix = 'billing_';
+
+    try {
+      expect(await reloadTools()).toBe(false);
+      expect(findToolNameCollisions(config.specs.flatMap(source => mapOpenApiToMcpTools(specs[source.specPath], source))))
+        .toEqual(['billing_getStatus (billing, inventory)']);
+    } finally {
+      inventory.toolPrefix = 'inventory_';
+    }
+  });
+});
@@ -1,7 +1,7 @@
 import { getProcessedOpenApi } from '../../src/openapiProcessor';
 import path from 'path';
 import fs from 'fs/promises';
-import { testConfig } from '../fixtures/test-config';
+import { testConfig, testSpecSource } from '../fixtures/test-config';
 import { jest } from '@jest/globals';
 
 // Define constants
@@ -183,7 +183,7 @@ describe('OpenAPI Processor Integration Tests', () => {
 
   it('should create a valid OpenAPI spec object', async () => {
     // Test that the processed OpenAPI spec has all required properties
-    const openApiSpec = await getProcessedOpenApi();
+    const openApiSpec = await getProcessedOpenApi(testSpecSource);
     
     // Check basic structure requirements
     expect(openApiSpec).toHaveProperty('openapi');
@@ -1,7 +1,9 @@
 import path from 'path';
 import SwaggerParser from '@apidevtools/swagger-parser';
 import fs from 'fs/promises';
+import os from 'os';
 import { OverlayApplier } from '../../src/overlay-applier';
+import { createOpenApiMcpServer } from '../../src/index';
 
 describe('OpenAPI Overlay Integration Tests', () => {
   // Path to test files
@@ -55,4 +57,24 @@ describe('OpenAPI Overlay Integration Tests', () => {
     expect(petIdParam.schema.type).toBe(paramAction.update.schema.type);
     expect(petIdParam.schema.format).toBe(paramAction.update.schema.format);
   });
+
+  it('should keep the overlaid tools when an overlay breaks on reload', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'overlay-reload-'));
+    const reloadedOverlayPath = path.join(dir, 'overlay.json');
+    await fs.copyFile(overlayPath, reloadedOverlayPath);
+    const server = await createOpenApiMcpServer({ spec: petstoreSpecPath, overlays: [reloadedOverlayPath], disableXMcp: true });
+
+    try {
+      const listPetsDescription = () => server.tools.find(tool => tool.mcpToolDefinition.name === 'listPets')?.mcpToolDefinition.description;
+      expect(listPetsDescription()).toContain('enhanced with an overlay');
+
+      await fs.writeFile(reloadedOverlayPath, '{ "overlay": "1.0.0", "actions": [');
+
+      expect(await server.reload()).toBe(false);
+      expect(listPetsDescription()).toContain('enhanced with an overlay');
+    } finally {
+      await server.close();
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
 });
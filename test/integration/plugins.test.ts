@@ -0,0 +1,116 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import axios, { AxiosResponse } from 'axios';
+import { createOpenApiMcpServer, ConfigError } from '../../src/index';
+import type { OpenApiMcpPlugin, OpenApiMcpServer } from '../../src/index';
+import { testSpecSource } from '../fixtures/test-config';
+
+jest.mock('axios');
+
+const mockedAxios = axios as jest.MockedFunction<typeof axios>;
+
+function jsonResponse(status: number, body: unknown): AxiosResponse {
+  return { status, data: Buffer.from(JSON.stringify(body)), headers: { 'content-type': 'application/json' } } as AxiosResponse;
+}
+
+describe('Plugins', () => {
+  let server: OpenApiMcpServer | undefined;
+  let client: Client;
+
+  async function connect(plugins: Array<string | OpenApiMcpPlugin>): Promise<void> {
+    server = await createOpenApiMcpServer({ spec: testSpecSource.specPath, disableXMcp: true, plugins });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([client.connect(clientTransport), server.server.connect(serverTransport)]);
+  }
+
+  afterEach(async () => {
+    mockedAxios.mockReset();
+    await server?.close();
+    server = undefined;
+  });
+
+  it('should load plugin modules whose beforeRequest hook changes the request', async () => {
+    mockedAxios.mockResolvedValueOnce(jsonResponse(200, []));
+    await connect(['test/fixtures/plugins/tenantPlugin.ts']);
+
+    await client.callTool({ name: 'listPets', arguments: {} });
+
+    expect(server!.config.plugins.map(plugin => plugin.name)).toEqual(['tenantPlugin']);
+    expect(mockedAxios).toHaveBeenCalledWith(expect.objectContaining({
+      headers: expect.objectContaining({ 'X-Tenant-Signature': 'signed:listPets' })
+    }));
+  });
+
+  it('should let afterResponse hooks rewrite the response', async () => {
+    mockedAxios.mockResolvedValueOnce(jsonResponse(200, { id: 1, name: 'Rex', tag: 'internal:dog' }));
+    await connect([{
+      afterResponse(toolName, response) {
+        response.data.tag = response.data.tag.replace('internal:', '');
+      }
+    }]);
+
+    const result: any = await client.callTool({ name: 'getPetById', arguments: { petId: '1' } });
+
+    expect(JSON.parse(result.content[0].text)).toEqual({ id: 1, name: 'Rex', tag: 'dog' });
+  });
+
+  it('should reject arguments blocked by a beforeRequest hook without calling the API', async () => {
+    await connect([{
+      beforeRequest(toolName, requestConfig, input) {
+        if (input.limit > 50) throw new Error('limit may not exceed 50');
+      }
+    }]);
+
+    const result: any = await client.callTool({ name: 'listPets', arguments: { limit: 500 } });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Request rejected: limit may not exceed 50');
+    expect(mockedAxios).not.toHaveBeenCalled();
+  });
+
+  it('should short-circuit the call with the response of a beforeRequest hook', async () => {
+    await connect([{
+      beforeRequest: toolName => toolName === 'listPets' ? { success: true, statusCode: 200, data: [{ id: 7, name: 'Cached' }] } : undefined
+    }]);
+
+    const result: any = await client.callTool({ name: 'listPets', arguments: {} });
+
+    expect(JSON.parse(result.content[0].text)).toEqual([{ id: 7, name: 'Cached' }]);
+    expect(mockedAxios).not.toHaveBeenCalled();
+  });
+
+  it('should let onError hooks recover from failed calls', async () => {
+    mockedAxios.mockResolvedValueOnce(jsonResponse(503, { message: 'down' }));
+    const onError = jest.fn((toolName: string, response: any) => response.statusCode === 503 ? { success: true, statusCode: 200, data: [] } : undefined);
+    await connect([{ onError }]);
+
+    const result: any = await client.callTool({ name: 'listPets', arguments: {} });
+
+    expect(result.isError).toBeFalsy();
+    expect(JSON.parse(result.content[0].text)).toEqual([]);
+    expect(onError).toHaveBeenCalledWith('listPets', expect.objectContaining({ success: false, statusCode: 503 }));
+  });
+
+  it('should pass the mapped tools through onToolsMapped hooks', async () => {
+    await connect([{
+      onToolsMapped: tools => tools.filter(tool => tool.apiCallDetails.method === 'GET')
+    }, {
+      onToolsMapped(tools) {
+        tools.forEach(tool => { tool.mcpToolDefinition.description = `[Petstore] ${tool.mcpToolDefinition.description}`; });
+      }
+    }]);
+
+    const { tools } = await client.listTools();
+
+    expect(tools.map(tool => tool.name)).toEqual(['listPets', 'getPetById']);
+    expect(tools[0].description).toMatch(/^\[Petstore\] /);
+  });
+
+  it('should report plugins that cannot be loaded', async () => {
+    await expect(createOpenApiMcpServer({ spec: testSpecSource.specPath, plugins: 'test/fixtures/plugins/missing.js' }))
+      .rejects.toThrow(ConfigError);
+    await expect(createOpenApiMcpServer({ spec: testSpecSource.specPath, plugins: [{ beforeRequest: 'sign' } as any] }))
+      .rejects.toThrow("Hook 'beforeRequest' of plugin 'plugin' must be a function.");
+  });
+});
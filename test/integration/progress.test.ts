@@ -0,0 +1,115 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import axios, { AxiosResponse } from 'axios';
+import { createMcpServer } from '../../src/server';
+import { mapOpenApiToMcpTools } from '../../src/mcpMapper';
+import { executeApiCall } from '../../src/apiClient';
+
+jest.mock('axios');
+jest.mock('../../src/config', () => ({
+  config: {
+    targetApiBaseUrl: 'http://localhost:3000/api',
+    filter: { whitelist: null, blacklist: [] },
+    securityCredentials: {},
+    customHeaders: {},
+    disableXMcp: false,
+    progressInterval: 0.05
+  }
+}));
+
+const mockedAxios = axios as jest.MockedFunction<typeof axios>;
+
+const spec: any = {
+  openapi: '3.0.0',
+  info: { title: 'Reports API', version: '1.0.0' },
+  paths: {
+    '/reports': {
+      post: { operationId: 'generateReport', responses: { '200': { description: 'The report' } } }
+    }
+  }
+};
+
+// Mocks a slow upstream call that answers after delayMs, or rejects as soon as its signal is aborted
+function respondSlowly(delayMs: number): void {
+  mockedAxios.mockImplementationOnce(((requestConfig: any) => new Promise((resolve, reject) => {
+    if (requestConfig.signal?.aborted) {
+      reject(Object.assign(new Error('canceled'), { code: 'ERR_CANCELED' }));
+      return;
+    }
+    const timer = setTimeout(() => {
+      resolve({ status: 200, data: Buffer.from('{"done":true}'), headers: { 'content-type': 'application/json' } } as AxiosResponse);
+    }, delayMs);
+    requestConfig.signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(Object.assign(new Error('canceled'), { code: 'ERR_CANCELED' }));
+    });
+  })) as any);
+}
+
+describe('Progress and cancellation', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    const server = createMcpServer(spec, mapOpenApiToMcpTools(spec));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    jest.clearAllMocks();
+    await client.close();
+  });
+
+  it('should send progress notifications while waiting on a slow call', async () => {
+    respondSlowly(180);
+    const onprogress = jest.fn();
+
+    const result = await client.callTool({ name: 'generateReport', arguments: {} }, undefined, { onprogress });
+
+    expect(result.content).toEqual([{ type: 'text', text: '{"done":true}' }]);
+    expect(onprogress).toHaveBeenCalled();
+    expect(onprogress.mock.calls[0][0].message).toMatch(/Waiting for POST \/reports/);
+  });
+
+  it('should not send progress notifications without a progress token', async () => {
+    respondSlowly(120);
+    const notifications: any[] = [];
+    client.fallbackNotificationHandler = async notification => { notifications.push(notification); };
+
+    await client.callTool({ name: 'generateReport', arguments: {} });
+
+    expect(notifications).toEqual([]);
+  });
+
+  it('should abort the upstream request when the client cancels the call', async () => {
+    respondSlowly(10000);
+    const controller = new AbortController();
+
+    const call = client.callTool({ name: 'generateReport', arguments: {} }, undefined, { signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    controller.abort('No longer needed');
+
+    await expect(call).rejects.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    const upstreamSignal = (mockedAxios.mock.calls[0][0] as any).signal as AbortSignal;
+    expect(upstreamSignal.aborted).toBe(true);
+  });
+});
+
+describe('executeApiCall cancellation', () => {
+  it('should report aborted calls as cancelled', async () => {
+    respondSlowly(10000);
+    const controller = new AbortController();
+
+    const call = executeApiCall(
+      { method: 'GET', pathTemplate: '/reports', serverUrl: 'http://localhost:3000/api', parameters: [], securityRequirements: null },
+      {},
+      undefined,
+      { signal: controller.signal }
+    );
+    controller.abort();
+
+    expect(await call).toMatchObject({ success: false, statusCode: 499, failure: 'cancelled' });
+  });
+});
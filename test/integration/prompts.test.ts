@@ -0,0 +1,145 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createMcpServer, reloadTools } from '../../src/server';
+import { getProcessedOpenApi } from '../../src/openapiProcessor';
+import { mapOpenApiToMcpTools } from '../../src/mcpMapper';
+import { mapOpenApiToMcpPrompts } from '../../src/promptMapper';
+import petstoreSpec from '../fixtures/petstore-openapi.json';
+
+jest.mock('../../src/config', () => ({
+  config: {
+    targetApiBaseUrl: 'http://localhost:3000/api',
+    filter: { whitelist: null, blacklist: [] },
+    securityCredentials: {},
+    customHeaders: {},
+    disableXMcp: false,
+    specs: [{
+      specPath: 'petstore-openapi.json',
+      overlayPaths: [],
+      targetApiBaseUrl: 'http://localhost:3000/api',
+      filter: { whitelist: null, blacklist: [] },
+      securityCredentials: {},
+      customHeaders: {}
+    }]
+  }
+}));
+
+jest.mock('../../src/openapiProcessor', () => ({
+  getProcessedOpenApi: jest.fn()
+}));
+
+const mockedGetProcessedOpenApi = getProcessedOpenApi as jest.MockedFunction<typeof getProcessedOpenApi>;
+
+// Returns the petstore fixture with prompts at the document, path and operation level
+function specWithPrompts(): any {
+  const spec = JSON.parse(JSON.stringify(petstoreSpec));
+  spec['x-mcp-prompts'] = [{
+    name: 'adoptPet',
+    title: 'Adopt a pet',
+    description: 'Find a pet of the given species and create an adoption',
+    arguments: [
+      { name: 'species', description: 'Species to look for', required: true },
+      { name: 'notes' }
+    ],
+    template: 'Use listPets to find a {{species}}, then create it with createPet. Notes: {{ notes }}'
+  }];
+  spec.paths['/pets/{petId}']['x-mcp-prompts'] = [{
+    name: 'reviewPet',
+    arguments: [{ name: 'petId', required: true }],
+    messages: [
+      { role: 'user', text: 'Review pet {{petId}}.' },
+      { role: 'assistant', text: 'I will call getPetById with petId {{petId}} first.' }
+    ]
+  }];
+  spec.paths['/pets'].get['x-mcp-prompts'] = [
+    { name: 'summarizePets', template: 'Summarize all pets returned by listPets.' },
+    { name: 'adoptPet', template: 'Duplicate name, skipped' },
+    { template: 'No name, skipped' },
+    { name: 'noContent' }
+  ];
+  return spec;
+}
+
+describe('mapOpenApiToMcpPrompts', () => {
+  it('should collect valid prompts from every level and skip invalid or duplicate ones', () => {
+    const prompts = mapOpenApiToMcpPrompts(specWithPrompts());
+
+    expect(prompts.map(prompt => prompt.name)).toEqual(['adoptPet', 'summarizePets', 'reviewPet']);
+    expect(prompts[0]).toEqual({
+      name: 'adoptPet',
+      title: 'Adopt a pet',
+      description: 'Find a pet of the given species and create an adoption',
+      arguments: [
+        { name: 'species', description: 'Species to look for', required: true },
+        { name: 'notes', description: undefined, required: false }
+      ],
+      messages: [{ role: 'user', text: 'Use listPets to find a {{species}}, then create it with createPet. Notes: {{ notes }}' }]
+    });
+  });
+
+  it('should return no prompts for a spec without extensions', () => {
+    expect(mapOpenApiToMcpPrompts(JSON.parse(JSON.stringify(petstoreSpec)))).toEqual([]);
+  });
+});
+
+describe('MCP prompts', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    const spec = specWithPrompts();
+    mockedGetProcessedOpenApi.mockResolvedValue(spec);
+    // Prime the current tool and prompt sets, as startServer does
+    await reloadTools();
+
+    const server = createMcpServer(spec, mapOpenApiToMcpTools(spec));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should list prompts with their arguments', async () => {
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map(prompt => prompt.name)).toEqual(['adoptPet', 'summarizePets', 'reviewPet']);
+    expect(prompts[0].arguments).toEqual([
+      { name: 'species', description: 'Species to look for', required: true },
+      { name: 'notes', required: false }
+    ]);
+  });
+
+  it('should render templates with the supplied arguments', async () => {
+    const adopt = await client.getPrompt({ name: 'adoptPet', arguments: { species: 'cat' } });
+    expect(adopt.messages).toEqual([{
+      role: 'user',
+      content: { type: 'text', text: 'Use listPets to find a cat, then create it with createPet. Notes: ' }
+    }]);
+
+    const review = await client.getPrompt({ name: 'reviewPet', arguments: { petId: '7' } });
+    expect(review.messages.map(message => [message.role, (message.content as any).text])).toEqual([
+      ['user', 'Review pet 7.'],
+      ['assistant', 'I will call getPetById with petId 7 first.']
+    ]);
+  });
+
+  it('should reject requests missing a required argument', async () => {
+    await expect(client.getPrompt({ name: 'adoptPet', arguments: {} })).rejects.toThrow();
+  });
+
+  it('should replace the prompts when the spec is reloaded', async () => {
+    const spec = specWithPrompts();
+    delete spec.paths['/pets'].get['x-mcp-prompts'];
+    spec['x-mcp-prompts'][0].template = 'Adopt a {{species}}.';
+    mockedGetProcessedOpenApi.mockResolvedValue(spec);
+
+    await reloadTools();
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(prompt => prompt.name)).toEqual(['adoptPet', 'reviewPet']);
+    const adopt = await client.getPrompt({ name: 'adoptPet', arguments: { species: 'dog' } });
+    expect((adopt.messages[0].content as any).text).toBe('Adopt a dog.');
+  });
+});
@@ -1,7 +1,11 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ToolCallback } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod/v4';
 import { getProcessedOpenApi } from '../../src/openapiProcessor';
 import { mapOpenApiToMcpTools } from '../../src/mcpMapper';
-import { testConfig } from '../fixtures/test-config';
+import { testConfig, testSpecSource } from '../fixtures/test-config';
 import { MappedTool } from '../../src/types';
 
 // Mock the API client to return test responses instead of making real HTTP calls
@@ -43,28 +47,40 @@ jest.mock('../../src/apiClient', () => ({
 }));
 
 // Define interfaces for type safety
-interface ExtraParams {
-  params: Record<string, any>;
-  [key: string]: any;
-}
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// The tool arguments are passed through to the API client as given
+const toolArgs = z.looseObject({});
 
 interface ToolCallResponseContent {
-  type: string;
+  type: 'text';
   text: string;
 }
 
-interface ToolCallResponse {
+interface ToolCallResponse extends CallToolResult {
   content: ToolCallResponseContent[];
 }
 
+// A ToolCallback of the SDK, returning the text content the tests inspect
+type ToolHandler = (args: z.infer<typeof toolArgs>, extra: ToolExtra) => Promise<ToolCallResponse>;
+
+function createExtra(requestId: string): ToolExtra {
+  return {
+    signal: new AbortController().signal,
+    requestId,
+    sendNotification: jest.fn(),
+    sendRequest: jest.fn()
+  };
+}
+
 describe('MCP Tool Integration Tests with Direct Handler Calls', () => {
   let mcpServer: McpServer;
   let mappedTools: MappedTool[];
-  let toolHandlers: Record<string, (extra: ExtraParams) => Promise<ToolCallResponse>>;
+  let toolHandlers: Record<string, ToolHandler>;
   
   beforeAll(async () => {
     // Process OpenAPI spec
-    const openapiSpec = await getProcessedOpenApi();
+    const openapiSpec = await getProcessedOpenApi(testSpecSource);
     mappedTools = mapOpenApiToMcpTools(openapiSpec);
     
     // Create MCP server for registration only
@@ -81,11 +97,10 @@ describe('MCP Tool Integration Tests with Direct Handler Calls', () => {
       const { mcpToolDefinition, apiCallDetails } = tool;
       
       // Define the handler function
-      const handler = async (extra: ExtraParams): Promise<ToolCallResponse> => {
+      const handler: ToolHandler = async (input) => {
         try {
           // We're importing this dynamically to work with the Jest mock
           const { executeApiCall } = require('../../src/apiClient');
-          const input = extra.params;
           const result = await executeApiCall(apiCallDetails, input);
           
           if (result.success) {
@@ -108,10 +123,11 @@ describe('MCP Tool Integration Tests with Direct Handler Calls', () => {
       toolHandlers[mcpToolDefinition.name] = handler;
       
       // Register with server
-      mcpServer.tool(
+      const callback: ToolCallback<typeof toolArgs> = handler;
+      mcpServer.registerTool(
         mcpToolDefinition.name,
-        mcpToolDefinition.description,
-        handler
+        { description: mcpToolDefinition.description, inputSchema: toolArgs },
+        callback
       );
     }
   });
@@ -143,7 +159,7 @@ describe('MCP Tool Integration Tests with Direct Handler Calls', () => {
     const handler = toolHandlers['listPets'];
     expect(handler).toBeDefined();
     
-    const response = await handler({ params, request: { id: 'test-req-1' } });
+    const response = await handler(params, createExtra('test-req-1'));
     
     // Verify the response
     expect(response).toBeDefined();
@@ -168,7 +184,7 @@ describe('MCP Tool Integration Tests with Direct Handler Calls', () => {
     const handler = toolHandlers['getPetById'];
     expect(handler).toBeDefined();
     
-    const response = await handler({ params, request: { id: 'test-req-2' } });
+    const response = await handler(params, createExtra('test-req-2'));
     
     // Verify the response
     expect(response).toBeDefined();
@@ -192,7 +208,7 @@ describe('MCP Tool Integration Tests with Direct Handler Calls', () => {
     const handler = toolHandlers['createPet'];
     expect(handler).toBeDefined();
     
-    const response = await handler({ params, request: { id: 'test-req-3' } });
+    const response = await handler(params, createExtra('test-req-3'));
     
     // Verify the response
     expect(response).toBeDefined();
@@ -226,7 +242,7 @@ describe('MCP Tool Integration Tests with Direct Handler Calls', () => {
     let error: Error | undefined;
     
     try {
-      await handler({ params: { triggersError: true }, request: { id: 'test-req-4' } });
+      await handler({ triggersError: true }, createExtra('test-req-4'));
     } catch (err) {
       error = err as Error;
     }
@@ -0,0 +1,101 @@
+import axios, { AxiosResponse } from 'axios';
+import { executeApiCall, getApiKeyNames } from '../../src/apiClient';
+import { createLogContext, LogRecord, withLogContext, withLogSink } from '../../src/utils/logger';
+import { addSecretValues, addSensitiveNames, createRedactionRules, redact, redactString, REDACTED } from '../../src/utils/redaction';
+import { createTestApiCallDetails } from '../utils/testTypes';
+
+jest.mock('axios');
+jest.mock('../../src/config', () => ({
+  config: {
+    securityCredentials: { PartnerKey: 'partner-key-123', Signature: 'sig-456', Bearer: 'bearer-token-789' },
+    customHeaders: {},
+    disableXMcp: false
+  }
+}));
+
+const mockedAxios = axios as jest.MockedFunction<typeof axios>;
+
+describe('Log redaction', () => {
+  it('should redact sensitive keys at any depth, case-insensitively', () => {
+    const rules = createRedactionRules();
+    addSensitiveNames(rules, ['ssn']);
+
+    expect(redact(rules, {
+      headers: { Authorization: 'Bearer abc', 'Content-Type': 'application/json' },
+      input: { requestBody: { name: 'Ann', SSN: '123-45-6789', contacts: [{ password: 'hunter2' }] } }
+    })).toEqual({
+      headers: { Authorization: REDACTED, 'Content-Type': 'application/json' },
+      input: { requestBody: { name: 'Ann', SSN: REDACTED, contacts: [{ password: REDACTED }] } }
+    });
+  });
+
+  it('should mask secret values and sensitive name=value pairs inside strings', () => {
+    const rules = createRedactionRules();
+    addSecretValues(rules, ['s3cr3t-value', 'abc']);
+
+    expect(redactString(rules, 'GET https://api.example.com/pets?limit=5&api_key=xyz')).toBe(`GET https://api.example.com/pets?limit=5&api_key=${REDACTED}`);
+    expect(redactString(rules, 'Upstream rejected s3cr3t-value')).toBe(`Upstream rejected ${REDACTED}`);
+    expect(redactString(rules, 'abc is too short to be masked')).toBe('abc is too short to be masked');
+  });
+
+  it('should leave the redacted value unchanged and handle circular references', () => {
+    const value: any = { token: 'abc', nested: { when: new Date(0) } };
+    value.nested.parent = value;
+
+    const redacted: any = redact(createRedactionRules(), value);
+
+    expect(value.token).toBe('abc');
+    expect(redacted.token).toBe(REDACTED);
+    expect(redacted.nested.when).toEqual(new Date(0));
+    expect(redacted.nested.parent).toBe('[Circular]');
+  });
+
+  it('should keep credentials applied from security schemes out of the logs', async () => {
+    mockedAxios.mockResolvedValueOnce({
+      status: 200, data: Buffer.from('{}'), headers: { 'content-type': 'application/json' }
+    } as AxiosResponse);
+    const details = createTestApiCallDetails({
+      method: 'POST',
+      pathTemplate: '/orders',
+      requestBody: { content: { 'application/json': { schema: { type: 'object' } } } },
+      securityRequirements: [{ PartnerKey: [], Signature: [], Bearer: [] }],
+      securitySchemes: {
+        PartnerKey: { type: 'apiKey', in: 'header', name: 'X-Partner-Key' },
+        Signature: { type: 'apiKey', in: 'query', name: 'sig' },
+        Bearer: { type: 'http', scheme: 'bearer' }
+      }
+    });
+    // Servers add the API key names of their specs to their redaction rules when loading them
+    const redaction = createRedactionRules();
+    addSensitiveNames(redaction, getApiKeyNames(details.securitySchemes));
+    const records: LogRecord[] = [];
+
+    const result = await withLogContext(createLogContext({ redaction }), () =>
+      withLogSink(record => records.push(record), () =>
+        executeApiCall(details, { requestBody: { item: 'book', password: 'hunter2' } })
+      )
+    );
+
+    expect(result.success).toBe(true);
+    const [[requestConfig]] = mockedAxios.mock.calls as any[];
+    expect(requestConfig.headers).toMatchObject({ 'X-Partner-Key': 'partner-key-123', Authorization: 'Bearer bearer-token-789' });
+
+    const logged = JSON.stringify(records);
+    for (const secret of ['partner-key-123', 'sig-456', 'bearer-token-789', 'hunter2']) {
+      expect(logged).not.toContain(secret);
+    }
+    expect(records.find(record => record.message === 'Making HTTP request')?.fields).toMatchObject({
+      params: { sig: REDACTED },
+      headers: { 'X-Partner-Key': REDACTED, Authorization: REDACTED }
+    });
+  });
+
+  it('should list the API key names of the security schemes', () => {
+    expect(getApiKeyNames({
+      PartnerKey: { type: 'apiKey', in: 'header', name: 'X-Partner-Key' },
+      Session: { type: 'apiKey', in: 'cookie', name: 'session_id' },
+      Bearer: { type: 'http', scheme: 'bearer' }
+    })).toEqual(['X-Partner-Key', 'session_id']);
+    expect(getApiKeyNames(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,178 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import axios, { AxiosResponse } from 'axios';
+import { createMcpServer } from '../../src/server';
+import { mapOpenApiToMcpTools } from '../../src/mcpMapper';
+import { SPEC_RESOURCE_URI } from '../../src/resourceMapper';
+import { config } from '../../src/config';
+import petstoreSpec from '../fixtures/petstore-openapi.json';
+
+jest.mock('axios');
+jest.mock('../../src/config', () => ({
+  config: {
+    targetApiBaseUrl: 'http://localhost:3000/api',
+    filter: { whitelist: null, blacklist: [] },
+    securityCredentials: {},
+    customHeaders: {},
+    disableXMcp: false,
+    resourceTemplates: false
+  }
+}));
+
+const mockedAxios = axios as jest.MockedFunction<typeof axios>;
+
+// Parses the JSON text of the first resource content
+function readJson(contents: Array<Record<string, unknown>>): any {
+  return JSON.parse(contents[0].text as string);
+}
+
+describe('OpenAPI resources', () => {
+  let client: Client;
+  let spec: any;
+
+  beforeEach(async () => {
+    spec = JSON.parse(JSON.stringify(petstoreSpec));
+    const server = createMcpServer(spec, mapOpenApiToMcpTools(spec));
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should list the spec, every operation and every component schema', async () => {
+    const { resources } = await client.listResources();
+    const uris = resources.map(resource => resource.uri);
+
+    expect(uris).toContain(SPEC_RESOURCE_URI);
+    expect(uris).toEqual(expect.arrayContaining([
+      'openapi://operations/listPets',
+      'openapi://operations/createPet',
+      'openapi://operations/getPetById',
+      ...Object.keys(spec.components.schemas).map(name => `openapi://schemas/${name}`)
+    ]));
+    expect(resources.find(resource => resource.uri === 'openapi://operations/listPets')?.title).toBe('GET /pets');
+  });
+
+  it('should expose the URI templates', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map(template => template.uriTemplate).sort()).toEqual([
+      'openapi://operations/{operationId}',
+      'openapi://schemas/{name}'
+    ]);
+  });
+
+  it('should read the effective spec', async () => {
+    const { contents } = await client.readResource({ uri: SPEC_RESOURCE_URI });
+    expect(contents[0].mimeType).toBe('application/json');
+    expect(readJson(contents)).toEqual(spec);
+  });
+
+  it('should read a single operation with its path and method', async () => {
+    const { contents } = await client.readResource({ uri: 'openapi://operations/getPetById' });
+    const operation = readJson(contents);
+    expect(operation).toMatchObject({ path: '/pets/{petId}', method: 'GET', operationId: 'getPetById' });
+  });
+
+  it('should read a component schema', async () => {
+    const [name] = Object.keys(spec.components.schemas);
+    const { contents } = await client.readResource({ uri: `openapi://schemas/${name}` });
+    expect(readJson(contents)).toEqual(spec.components.schemas[name]);
+  });
+
+  it('should reject unknown operations and schemas', async () => {
+    await expect(client.readResource({ uri: 'openapi://operations/unknownOp' }))
+      .rejects.toThrow(/Operation not found: unknownOp/);
+    await expect(client.readResource({ uri: 'openapi://schemas/Unknown' }))
+      .rejects.toThrow(/Schema not found: Unknown/);
+  });
+
+  it('should serialize circular schemas produced by dereferencing', async () => {
+    const [name] = Object.keys(spec.components.schemas);
+    const schema = spec.components.schemas[name];
+    schema.properties = { ...schema.properties, parent: schema };
+
+    const { contents } = await client.readResource({ uri: `openapi://schemas/${name}` });
+    expect(readJson(contents).properties.parent).toBe('[Circular]');
+  });
+});
+
+describe('Resource templates for GET lookups', () => {
+  let client: Client | undefined;
+
+  // Connects a client to a server built from the given spec
+  async function connect(spec: any): Promise<Client> {
+    const server = createMcpServer(spec, mapOpenApiToMcpTools(spec));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+    return client;
+  }
+
+  // Returns the api:// templates, ignoring the openapi:// ones
+  async function listApiTemplates(client: Client): Promise<string[]> {
+    const { resourceTemplates } = await client.listResourceTemplates();
+    return resourceTemplates.map(template => template.uriTemplate).filter(uri => uri.startsWith('api://'));
+  }
+
+  afterEach(async () => {
+    (config as any).resourceTemplates = false;
+    jest.clearAllMocks();
+    await client?.close();
+    client = undefined;
+  });
+
+  it('should not expose API resource templates by default', async () => {
+    const client = await connect(JSON.parse(JSON.stringify(petstoreSpec)));
+    expect(await listApiTemplates(client)).toEqual([]);
+  });
+
+  it('should expose only GET lookups by path parameter when enabled in config', async () => {
+    (config as any).resourceTemplates = true;
+
+    const tools = mapOpenApiToMcpTools(JSON.parse(JSON.stringify(petstoreSpec)));
+    expect(tools.filter(tool => tool.resourceUriTemplate).map(tool => tool.mcpToolDefinition.name)).toEqual(['getPetById']);
+
+    const client = await connect(JSON.parse(JSON.stringify(petstoreSpec)));
+    expect(await listApiTemplates(client)).toEqual(['api://pets/{petId}']);
+  });
+
+  it('should honour the x-mcp resource flag over the config option', async () => {
+    const spec = JSON.parse(JSON.stringify(petstoreSpec));
+    spec.paths['/pets/{petId}'].get['x-mcp'] = { resource: true };
+    expect(await listApiTemplates(await connect(spec))).toEqual(['api://pets/{petId}']);
+    await client?.close();
+
+    (config as any).resourceTemplates = true;
+    spec.paths['/pets/{petId}'].get['x-mcp'] = { resource: false };
+    expect(await listApiTemplates(await connect(spec))).toEqual([]);
+  });
+
+  it('should read the resource by calling the API with typed path parameters', async () => {
+    const spec = JSON.parse(JSON.stringify(petstoreSpec));
+    spec.paths['/pets/{petId}'].get['x-mcp'] = { resource: true };
+    const pet = { id: 42, name: 'Rex' };
+    mockedAxios.mockResolvedValueOnce({ status: 200, data: pet, headers: {} } as AxiosResponse);
+
+    const client = await connect(spec);
+    const { contents } = await client.readResource({ uri: 'api://pets/42' });
+
+    expect(readJson(contents)).toEqual(pet);
+    expect(mockedAxios).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'GET',
+      url: 'http://localhost:3000/api/pets/42'
+    }));
+  });
+
+  it('should surface upstream errors when reading the resource', async () => {
+    const spec = JSON.parse(JSON.stringify(petstoreSpec));
+    spec.paths['/pets/{petId}'].get['x-mcp'] = { resource: true };
+    mockedAxios.mockResolvedValueOnce({ status: 404, statusText: 'Not Found', data: { message: 'No such pet' }, headers: {} } as AxiosResponse);
+
+    const client = await connect(spec);
+    await expect(client.readResource({ uri: 'api://pets/7' })).rejects.toThrow();
+  });
+});
@@ -0,0 +1,216 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import axios, { AxiosResponse } from 'axios';
+import { createMcpServer } from '../../src/server';
+import { mapOpenApiToMcpTools } from '../../src/mcpMapper';
+
+jest.mock('axios');
+jest.mock('../../src/config', () => ({
+  config: {
+    targetApiBaseUrl: 'http://localhost:3000/api',
+    filter: { whitelist: null, blacklist: [] },
+    securityCredentials: {},
+    customHeaders: {},
+    disableXMcp: false
+  }
+}));
+
+const mockedAxios = axios as jest.MockedFunction<typeof axios>;
+
+const petSchema = {
+  type: 'object',
+  required: ['id', 'name'],
+  properties: {
+    id: { type: 'integer', format: 'int64' },
+    name: { type: 'string' },
+    tag: { type: 'string', nullable: true }
+  }
+};
+
+const ownerSchema = { type: 'object', additionalProperties: false, properties: { name: { type: 'string' } } };
+
+// A dereferenced petstore with object, array and schema-less responses
+const spec: any = {
+  openapi: '3.0.0',
+  info: { title: 'Petstore', version: '1.0.0' },
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'listPets',
+        responses: {
+          '200': { description: 'A list of pets', content: { 'application/json': { schema: { type: 'array', items: petSchema } } } }
+        }
+      },
+      post: {
+        operationId: 'createPet',
+        responses: {
+          '200': { description: 'An existing pet', content: { 'application/json': { schema: { type: 'object', properties: { message: { type: 'string' } } } } } },
+          '201': { description: 'The new pet', content: { 'application/json': { schema: petSchema } } }
+        }
+      }
+    },
+    '/pets/{petId}': {
+      get: {
+        operationId: 'getPetById',
+        summary: 'Info for a specific pet',
+        parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'integer' } }],
+        responses: {
+          '200': { description: 'The pet', content: { 'application/json': { schema: petSchema } } }
+        }
+      },
+      put: {
+        operationId: 'updatePet',
+        parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'integer' } }],
+        responses: {
+          '200': { description: 'The updated pet', content: { 'application/json': { schema: petSchema } } },
+          '204': { description: 'Updated' }
+        }
+      },
+      delete: {
+        operationId: 'deletePet',
+        parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'integer' } }],
+        responses: { '204': { description: 'Deleted' } }
+      }
+    },
+    '/owners/{ownerId}': {
+      get: {
+        operationId: 'getOwner',
+        parameters: [{ name: 'ownerId', in: 'path', required: true, schema: { type: 'integer' } }],
+        responses: {
+          '200': { description: 'The owner', content: { 'application/json': { schema: ownerSchema } } },
+          '2XX': { description: 'The owner, from a mirror', content: { 'application/json': { schema: ownerSchema } } }
+        }
+      }
+    }
+  }
+};
+
+// Mocks the next upstream response
+function respondWith(data: any, status: number = 200, headers: Record<string, string> = {}): void {
+  mockedAxios.mockResolvedValueOnce({ status, data, headers } as AxiosResponse);
+}
+
+describe('Structured tool results', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    const server = createMcpServer(spec, mapOpenApiToMcpTools(spec));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+    // Clients check the results of tools with an output schema once they have listed them
+    await client.listTools();
+  });
+
+  afterEach(async () => {
+    jest.clearAllMocks();
+    await client.close();
+  });
+
+  it('should advertise the mapped output schemas, wrapping non-object responses', async () => {
+    const mappedTools = mapOpenApiToMcpTools(spec);
+    const { tools } = await client.listTools();
+    const advertised = (name: string) => {
+      const { $schema, ...schema } = JSON.parse(JSON.stringify(tools.find(tool => tool.name === name)?.outputSchema));
+      return schema;
+    };
+
+    const getPetById = mappedTools.find(tool => tool.mcpToolDefinition.name === 'getPetById')!;
+    expect(advertised('getPetById')).toEqual(getPetById.mcpToolDefinition.outputSchema);
+
+    const listPets = mappedTools.find(tool => tool.mcpToolDefinition.name === 'listPets')!;
+    expect(listPets.mcpToolDefinition.outputSchema).toMatchObject({
+      type: 'object',
+      description: 'A list of pets',
+      properties: { result: { type: 'array' } },
+      required: ['result']
+    });
+    expect(advertised('listPets')).toEqual(listPets.mcpToolDefinition.outputSchema);
+
+    expect(tools.find(tool => tool.name === 'deletePet')?.outputSchema).toBeUndefined();
+    expect(getPetById.mcpToolDefinition.outputStatusCodes).toEqual(['200']);
+    expect(tools.find(tool => tool.name === 'getPetById')?.description).toBe('Info for a specific pet');
+  });
+
+  it('should return object responses as structured content alongside the text block', async () => {
+    const pet = { id: 1, name: 'Rex', tag: null };
+    respondWith(pet);
+
+    const result = await client.callTool({ name: 'getPetById', arguments: { petId: 1 } });
+
+    expect(result.structuredContent).toEqual(pet);
+    expect(result.content).toEqual([{ type: 'text', text: JSON.stringify(pet) }]);
+  });
+
+  it('should wrap array responses in a result property', async () => {
+    const pets = [{ id: 1, name: 'Rex' }, { id: 2, name: 'Tom' }];
+    respondWith(pets);
+
+    const result = await client.callTool({ name: 'listPets', arguments: {} });
+
+    expect(result.structuredContent).toEqual({ result: pets });
+  });
+
+  it('should return responses that do not match the output schema as errors', async () => {
+    respondWith({ id: 'not-a-number' });
+    const invalid = await client.callTool({ name: 'getPetById', arguments: { petId: 1 } });
+
+    respondWith({ name: 'Alice', email: 'alice@example.com' });
+    const extraProperty = await client.callTool({ name: 'getOwner', arguments: { ownerId: 1 } });
+
+    expect(invalid.isError).toBe(true);
+    expect(invalid.structuredContent).toBeUndefined();
+    expect(invalid.content).toEqual([
+      { type: 'text', text: expect.stringContaining('does not match the output schema') },
+      { type: 'text', text: JSON.stringify({ id: 'not-a-number' }) }
+    ]);
+    expect(extraProperty.isError).toBe(true);
+    expect(extraProperty.structuredContent).toBeUndefined();
+  });
+
+  it('should only return structured content for JSON bodies of a status the output schema describes', async () => {
+    const pet = { id: 1, name: 'Rex' };
+    respondWith(pet, 203);
+    const undescribedStatus = await client.callTool({ name: 'getPetById', arguments: { petId: 1 } });
+
+    respondWith(Buffer.from('GIF89a'), 200, { 'content-type': 'image/gif' });
+    const binary = await client.callTool({ name: 'getPetById', arguments: { petId: 1 } });
+
+    respondWith({ name: 'Alice' }, 206);
+    const rangeStatus = await client.callTool({ name: 'getOwner', arguments: { ownerId: 1 } });
+
+    expect(undescribedStatus.isError).toBe(true);
+    expect(undescribedStatus.structuredContent).toBeUndefined();
+    expect(binary.isError).toBe(true);
+    expect(binary.structuredContent).toBeUndefined();
+    expect(binary.content).toEqual([
+      { type: 'text', text: expect.stringContaining('status 200') },
+      expect.objectContaining({ type: 'image', mimeType: 'image/gif' })
+    ]);
+    expect(rangeStatus.isError).toBeFalsy();
+    expect(rangeStatus.structuredContent).toEqual({ name: 'Alice' });
+  });
+
+  it('should not advertise an output schema when the success responses differ', async () => {
+    const { tools } = await client.listTools();
+
+    expect(tools.find(tool => tool.name === 'createPet')?.outputSchema).toBeUndefined();
+    expect(tools.find(tool => tool.name === 'updatePet')?.outputSchema).toBeUndefined();
+    expect(tools.find(tool => tool.name === 'getOwner')?.outputSchema).toBeDefined();
+
+    respondWith('', 204);
+    const result = await client.callTool({ name: 'updatePet', arguments: { petId: 1 } });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toBeUndefined();
+  });
+
+  it('should return only text for operations without a response schema', async () => {
+    respondWith('', 204);
+
+    const result = await client.callTool({ name: 'deletePet', arguments: { petId: 1 } });
+
+    expect(result.structuredContent).toBeUndefined();
+    expect(result.isError).toBeFalsy();
+  });
+});
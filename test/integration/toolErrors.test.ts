@@ -0,0 +1,130 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import axios, { AxiosResponse } from 'axios';
+import { createMcpServer } from '../../src/server';
+import { mapOpenApiToMcpTools } from '../../src/mcpMapper';
+import { parseRetryAfter } from '../../src/toolErrors';
+
+jest.mock('axios');
+jest.mock('../../src/config', () => ({
+  config: {
+    targetApiBaseUrl: 'http://localhost:3000/api',
+    filter: { whitelist: null, blacklist: [] },
+    securityCredentials: {},
+    customHeaders: {},
+    disableXMcp: false
+  }
+}));
+
+const mockedAxios = axios as jest.MockedFunction<typeof axios>;
+
+const spec: any = {
+  openapi: '3.0.0',
+  info: { title: 'Petstore', version: '1.0.0' },
+  paths: {
+    '/pets/{petId}': {
+      put: {
+        operationId: 'updatePet',
+        parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'integer' } }],
+        requestBody: { content: { 'application/json': { schema: { type: 'object' } } } },
+        responses: { '200': { description: 'Updated' } }
+      }
+    }
+  }
+};
+
+// Mocks the next upstream response with a JSON body, as received with responseType 'arraybuffer'
+function respondWith(status: number, body: any, headers: Record<string, string> = {}): void {
+  mockedAxios.mockResolvedValueOnce({
+    status,
+    data: Buffer.from(JSON.stringify(body)),
+    headers: { 'content-type': 'application/json', ...headers }
+  } as AxiosResponse);
+}
+
+// Returns the JSON details block of an error result
+function errorDetails(result: any): any {
+  return JSON.parse(result.content[1].text);
+}
+
+describe('Tool error results', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    const server = createMcpServer(spec, mapOpenApiToMcpTools(spec));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    jest.clearAllMocks();
+    await client.close();
+  });
+
+  it('should accept every HTTP status from the API', async () => {
+    respondWith(200, {});
+    await client.callTool({ name: 'updatePet', arguments: { petId: 1 } });
+
+    const { validateStatus } = mockedAxios.mock.calls[0][0] as any;
+    expect(validateStatus(503)).toBe(true);
+    expect(validateStatus(404)).toBe(true);
+  });
+
+  it.each([
+    [401, false, /valid credentials/],
+    [403, false, /Do not retry/],
+    [409, false, /Fetch the latest state/],
+    [422, false, /Fix the fields/],
+    [500, true, /server error/],
+    [503, true, /server error/]
+  ])('should return %i responses as isError results with guidance', async (status, retryable, guidance) => {
+    const body = { message: 'upstream says no' };
+    respondWith(status, body);
+
+    const result: any = await client.callTool({ name: 'updatePet', arguments: { petId: 1 } });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain(`API Error ${status}`);
+    expect(result.content[0].text).toMatch(guidance);
+    expect(errorDetails(result)).toMatchObject({ status, failure: 'http', body, retryable });
+  });
+
+  it('should report the Retry-After delay of 429 responses', async () => {
+    respondWith(429, { message: 'slow down' }, { 'Retry-After': '30' });
+
+    const result: any = await client.callTool({ name: 'updatePet', arguments: { petId: 1 } });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('wait 30 seconds');
+    expect(errorDetails(result)).toMatchObject({ status: 429, retryable: true, retryAfterSeconds: 30 });
+  });
+
+  it('should return network failures as retryable isError results', async () => {
+    mockedAxios.mockRejectedValueOnce(Object.assign(new Error('connect ECONNREFUSED'), { isAxiosError: true }));
+
+    const result: any = await client.callTool({ name: 'updatePet', arguments: { petId: 1 } });
+
+    expect(result.isError).toBe(true);
+    expect(errorDetails(result)).toMatchObject({ status: 503, failure: 'network', retryable: true });
+  });
+
+  it('should keep rejecting invalid arguments as protocol errors', async () => {
+    const result: any = await client.callTool({ name: 'updatePet', arguments: { petId: 1, requestBody: 'not an object' } });
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toHaveLength(1);
+    expect(mockedAxios).not.toHaveBeenCalled();
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+
+    expect(parseRetryAfter('120', now)).toBe(120);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:01:00 GMT', now)).toBe(60);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+  });
+});
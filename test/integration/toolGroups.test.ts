@@ -0,0 +1,146 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createMcpServer } from '../../src/server';
+import { mapOpenApiToMcpTools } from '../../src/mcpMapper';
+
+jest.mock('../../src/config', () => ({
+  config: {
+    targetApiBaseUrl: 'http://localhost:3000/api',
+    filter: { whitelist: null, blacklist: [] },
+    securityCredentials: {},
+    customHeaders: {},
+    disableXMcp: true,
+    progressInterval: 0,
+    tagGroups: true,
+    toolGroups: { admin: ['*:/admin/*'] },
+    disabledToolGroups: ['billing', 'admin']
+  }
+}));
+
+const spec: any = {
+  openapi: '3.0.0',
+  info: { title: 'Shop API', version: '1.0.0' },
+  paths: {
+    '/products': {
+      get: { operationId: 'listProducts', tags: ['catalog'], responses: { '200': { description: 'The products' } } }
+    },
+    '/invoices': {
+      get: { operationId: 'listInvoices', tags: ['billing'], responses: { '200': { description: 'The invoices' } } },
+      post: { operationId: 'createInvoice', tags: ['billing'], responses: { '201': { description: 'Created' } } }
+    },
+    '/admin/users': {
+      get: { operationId: 'listUsers', responses: { '200': { description: 'The users' } } }
+    },
+    '/admin/{userId}': {
+      get: {
+        operationId: 'getUser',
+        'x-mcp': { resource: true },
+        parameters: [{ name: 'userId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: { '200': { description: 'The user' } }
+      }
+    },
+    '/health': {
+      get: { operationId: 'getHealth', responses: { '200': { description: 'OK' } } }
+    }
+  }
+};
+
+const CONTROL_TOOLS = ['disable_tool_group', 'enable_tool_group', 'list_tool_groups'];
+
+describe('Tool groups', () => {
+  let client: Client;
+  let listChangedCount: number;
+
+  async function toolNames(): Promise<string[]> {
+    const { tools } = await client.listTools();
+    return tools.map(tool => tool.name).filter(name => !CONTROL_TOOLS.includes(name)).sort();
+  }
+
+  beforeEach(async () => {
+    const server = createMcpServer(spec, mapOpenApiToMcpTools(spec));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    listChangedCount = 0;
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      listChangedCount++;
+    });
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should group tools by tag and configured patterns', () => {
+    const groups = Object.fromEntries(mapOpenApiToMcpTools(spec).map(tool => [tool.mcpToolDefinition.name, tool.groups]));
+
+    expect(groups).toEqual({
+      listProducts: ['catalog'],
+      listInvoices: ['billing'],
+      createInvoice: ['billing'],
+      listUsers: ['admin'],
+      getUser: ['admin'],
+      getHealth: undefined
+    });
+  });
+
+  it('should only list the tools of enabled groups, and tools outside any group', async () => {
+    const { tools } = await client.listTools();
+
+    expect(tools.map(tool => tool.name)).toEqual(expect.arrayContaining(CONTROL_TOOLS));
+    expect(await toolNames()).toEqual(['getHealth', 'listProducts']);
+  });
+
+  it('should report every group with its state and tools', async () => {
+    const result: any = await client.callTool({ name: 'list_tool_groups', arguments: {} });
+
+    expect(JSON.parse(result.content[0].text)).toEqual([
+      { name: 'catalog', enabled: true, tools: ['listProducts'] },
+      { name: 'billing', enabled: false, tools: ['listInvoices', 'createInvoice'] },
+      { name: 'admin', enabled: false, tools: ['listUsers', 'getUser'] }
+    ]);
+  });
+
+  it('should register a group\'s tools when it is enabled and remove them when it is disabled', async () => {
+    await client.callTool({ name: 'enable_tool_group', arguments: { group: 'billing' } });
+    expect(await toolNames()).toEqual(['createInvoice', 'getHealth', 'listInvoices', 'listProducts']);
+    expect(listChangedCount).toBeGreaterThan(0);
+
+    await client.callTool({ name: 'disable_tool_group', arguments: { group: 'catalog' } });
+    await client.callTool({ name: 'disable_tool_group', arguments: { group: 'billing' } });
+    expect(await toolNames()).toEqual(['getHealth']);
+  });
+
+  it('should only register the resource templates of enabled groups', async () => {
+    const templateUris = async () => (await client.listResourceTemplates()).resourceTemplates.map(template => template.uriTemplate);
+    expect(await templateUris()).not.toContain('api://admin/{userId}');
+
+    await client.callTool({ name: 'enable_tool_group', arguments: { group: 'admin' } });
+    expect(await templateUris()).toContain('api://admin/{userId}');
+
+    await client.callTool({ name: 'disable_tool_group', arguments: { group: 'admin' } });
+    expect(await templateUris()).not.toContain('api://admin/{userId}');
+  });
+
+  it('should keep the enabled groups of each client separate', async () => {
+    await client.callTool({ name: 'enable_tool_group', arguments: { group: 'admin' } });
+
+    const otherServer = createMcpServer(spec, mapOpenApiToMcpTools(spec));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const otherClient = new Client({ name: 'other-client', version: '1.0.0' });
+    await Promise.all([otherClient.connect(clientTransport), otherServer.connect(serverTransport)]);
+
+    const { tools } = await otherClient.listTools();
+    expect(tools.map(tool => tool.name)).not.toContain('listUsers');
+    expect(await toolNames()).toContain('listUsers');
+    await otherClient.close();
+  });
+
+  it('should reject unknown groups', async () => {
+    const result: any = await client.callTool({ name: 'enable_tool_group', arguments: { group: 'shipping' } });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("Unknown tool group 'shipping'. Available groups: catalog, billing, admin");
+  });
+});
@@ -6,7 +6,7 @@ import { executeApiCall } from '../../src/apiClient';
 import path from 'path';
 import fs from 'fs';
 import type { MappedTool } from '../../src/types';
-import { testConfig } from '../fixtures/test-config';
+import { testConfig, testSpecSource } from '../fixtures/test-config';
 
 // Mock for the API client to return test responses instead of making actual HTTP calls
 jest.mock('../../src/apiClient', () => ({
@@ -110,7 +110,7 @@ process.env.API_BASE_URL = testConfig.baseUrl;
  */
 export async function setupTestMcpServer() {
   // Process the OpenAPI spec
-  const openapiSpec = await getProcessedOpenApi();
+  const openapiSpec = await getProcessedOpenApi(testSpecSource);
   
   // Map OpenAPI operations to MCP tools
   const mappedTools = mapOpenApiToMcpTools(openapiSpec);
@@ -136,7 +136,7 @@ export async function setupTestMcpServer() {
       if (result.success) {
         return {
           content: [{
-            type: "text",
+            type: "text" as const,
             text: JSON.stringify(result.data, null, 2)
           }]
         };